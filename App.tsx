@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import HeaderInputs from './components/HeaderInputs';
 import FileUploader from './components/FileUploader';
 import AnalysisViewer from './components/AnalysisViewer';
@@ -7,9 +7,30 @@ import ChatAssistant from './components/ChatAssistant';
 import ComparisonViewer from './components/ComparisonViewer';
 import ConsolidationViewer from './components/ConsolidationViewer';
 import GroupEconomicUploader, { CompanyEntry } from './components/GroupEconomicUploader';
-import { HeaderData, AnalysisResult, HistoryItem, ComparisonResult, ComparisonRow, ConsolidationResult } from './types';
+import EcfReconciliationViewer from './components/EcfReconciliationViewer';
+import AnalysisProgress from './components/AnalysisProgress';
+import ExcelImportWizard from './components/ExcelImportWizard';
+import ReviewQueue from './components/ReviewQueue';
+import CnpjConflictDialog from './components/CnpjConflictDialog';
+import BatchUploadQueue, { QueuedFile } from './components/BatchUploadQueue';
+import UsageReport from './components/UsageReport';
+import PromptLab from './components/PromptLab';
+import { HeaderData, AnalysisResult, HistoryItem, ComparisonResult, ConsolidationResult, EcfFile, ExtractionProgress, SheetData, AccountEditLayer, PeriodInfo, BatchItem, AnalysisUsage, UsageEntry } from './types';
 import { analyzeDocument } from './services/geminiService';
 import { consolidateDREs } from './services/consolidationService';
+import { PARSER_VERSION, safeDecodeBase64, sanitizeBase64 } from './services/parsingService';
+import { isEcfFile, parseEcf } from './services/spedService';
+import { fingerprintFile, loadCheckpoint } from './services/extractionQueue';
+import { isDoubtful } from './services/confidenceService';
+import { applyEditLayer } from './services/editLayerService';
+import { buildComparativeComparison, compareHistoryItems } from './services/comparisonService';
+import { formatCnpj, hasCnpjConflict, peekDocumentMetadata, prefillHeader } from './services/documentMetadataService';
+import { createBatchQueue } from './services/batchQueue';
+import { findPreviousByPeriod, formatPeriod, periodLabel, resolvePeriod } from './services/periodService';
+import { findAnalysisByHash } from './services/contentHashService';
+import { isCancelled } from './services/cancellationService';
+import { appendUsageEntry, budgetWarning, createUsageMeter, loadMonthlyBudget, loadUsageLedger, saveMonthlyBudget } from './services/usageService';
+import { loadPrivacySettings } from './services/redactionService';
 
 const HISTORY_STORAGE_KEY = 'auditAI_history';
 const CACHE_STORAGE_PREFIX = 'auditAI_cache_';
@@ -18,32 +39,41 @@ const MAX_HISTORY_ITEMS = 100;
 
 type AppMode = 'single' | 'group';
 
-const LoadingSpinner = () => (
-  <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex flex-col items-center justify-center z-50 animate-fadeIn">
-     <div className="bg-white dark:bg-slate-800 p-8 rounded-2xl shadow-2xl flex flex-col items-center">
-        <div className="relative flex items-center justify-center mb-6">
-           <div className="animate-ping absolute inline-flex h-12 w-12 rounded-full bg-blue-500/20 opacity-75"></div>
-           <div className="relative animate-spin rounded-full h-16 w-16 border-t-4 border-blue-500"></div>
-        </div>
-        <h3 className="text-xl font-bold text-slate-800 dark:text-white mb-2">Analisando Documento...</h3>
-        <p className="text-blue-500 font-medium animate-pulse">A IA da SP Assessoria está processando os dados.</p>
-     </div>
-  </div>
-);
+// Where a result came from: the uploaded file's hash, and the history entry it supersedes when re-run
+type HistorySource = { contentHash?: string, replaceId?: string };
 
 const App: React.FC = () => {
   const [appMode, setAppMode] = useState<AppMode>('single');
   const [headerData, setHeaderData] = useState<HeaderData>({ companyName: '', collaboratorName: '', cnpj: '' });
   const [isLoading, setIsLoading] = useState(false);
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
-  const [selectedFile, setSelectedFile] = useState<{file: File, base64: string, mimeType: string} | null>(null);
+  const [selectedFile, setSelectedFile] = useState<{file: File, base64: string, mimeType: string, contentHash?: string} | null>(null);
   const [analysisTimestamp, setAnalysisTimestamp] = useState<string | null>(null);
+  // History entry of the analysis on screen and its manual corrections (analysisResult stays the original extraction)
+  const [currentHistoryId, setCurrentHistoryId] = useState<string | null>(null);
+  const [editLayer, setEditLayer] = useState<AccountEditLayer | null>(null);
   const [history, setHistory] = useState<HistoryItem[]>([]);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [darkMode, setDarkMode] = useState(false);
   const [comparisonResult, setComparisonResult] = useState<ComparisonResult | null>(null);
   const [consolidationResult, setConsolidationResult] = useState<ConsolidationResult | null>(null);
+  const [ecfImport, setEcfImport] = useState<{ ecf: EcfFile, fileName: string } | null>(null);
+  const [workbookImport, setWorkbookImport] = useState<{ file: File, sheets: SheetData[], contentHash?: string } | null>(null);
+  // Analysis with low-confidence rows, held back from history until each row is reviewed
+  const [pendingReview, setPendingReview] = useState<{ result: AnalysisResult, fileName: string, source: HistorySource, batchId?: string } | null>(null);
+  const [cnpjConflict, setCnpjConflict] = useState<{ result: AnalysisResult, fileName: string, source: HistorySource } | null>(null);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [usageLedger, setUsageLedger] = useState<UsageEntry[]>(() => loadUsageLedger());
+  const [usageBudget, setUsageBudget] = useState<number>(() => loadMonthlyBudget());
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isPromptLabOpen, setIsPromptLabOpen] = useState(false);
+  // The queue outlives re-renders; it calls the latest processBatchItem through the ref
+  const processBatchItemRef = useRef<(item: BatchItem, signal: AbortSignal) => Promise<Partial<BatchItem>>>(async () => ({}));
+  const batchQueue = useMemo(() => createBatchQueue({ process: (item, signal) => processBatchItemRef.current(item, signal), onChange: setBatchItems }), []);
+  // Aborts the single-file analysis in progress
+  const analysisAbortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     const savedHistory = localStorage.getItem(HISTORY_STORAGE_KEY);
@@ -65,7 +95,7 @@ const App: React.FC = () => {
     else { document.documentElement.classList.remove('dark'); localStorage.setItem(THEME_STORAGE_KEY, 'light'); }
   };
 
-  const getFullResult = (item: HistoryItem): AnalysisResult | null => {
+  const getOriginalResult = (item: HistoryItem): AnalysisResult | null => {
       let fullResult = item.fullResult;
       if (!fullResult) {
           try {
@@ -76,22 +106,49 @@ const App: React.FC = () => {
       return fullResult || null;
   };
 
-  const saveToHistory = (result: AnalysisResult, header: HeaderData, fileName: string) => {
+  // What comparison, consolidation and reconciliation work with: the extraction plus its corrections
+  const getFullResult = (item: HistoryItem): AnalysisResult | null => {
+      const original = getOriginalResult(item);
+      return original ? applyEditLayer(original, item.edits) : null;
+  };
+
+  // Every model call is billed, failed analyses included, so usage is recorded apart from history
+  const recordUsage = (usage: AnalysisUsage | undefined, kind: UsageEntry['kind'], companyName: string, fileName?: string) => {
+    if (!usage) return;
+    setUsageLedger(prev => appendUsageEntry(prev, { kind, collaboratorName: headerData.collaboratorName, companyName, fileName, usage }));
+  };
+
+  // False when the analyst declines to go over the monthly budget
+  const confirmWithinBudget = (analyses = 1): boolean => {
+    const warning = budgetWarning(usageLedger, usageBudget, analyses);
+    return !warning || window.confirm(warning);
+  };
+
+  const handleBudgetChange = (value: number) => {
+    saveMonthlyBudget(value);
+    setUsageBudget(value > 0 ? value : 0);
+  };
+
+  const saveToHistory = (result: AnalysisResult, header: HeaderData, fileName: string, source: HistorySource = {}) => {
     const id = Date.now().toString();
     try { localStorage.setItem(`${CACHE_STORAGE_PREFIX}${id}`, JSON.stringify(result)); } 
     catch (e) { console.warn("Cache full, could not save detailed result", e); }
 
     const newItem: HistoryItem = { 
         id, timestamp: new Date().toISOString(), 
-        headerData: { ...header }, fileName, summary: result.summary 
+        headerData: { ...header }, fileName, summary: result.summary,
+        contentHash: source.contentHash, parserVersion: PARSER_VERSION, usage: result.usage
     };
+    if (source.replaceId) localStorage.removeItem(`${CACHE_STORAGE_PREFIX}${source.replaceId}`);
 
     setHistory(prevHistory => {
-        const updated = [newItem, ...prevHistory].slice(0, MAX_HISTORY_ITEMS);
+        const kept = source.replaceId ? prevHistory.filter(item => item.id !== source.replaceId) : prevHistory;
+        const updated = [newItem, ...kept].slice(0, MAX_HISTORY_ITEMS);
         try { localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(updated)); } 
         catch (e) { console.error("Failed to save history list", e); }
         return updated;
     });
+    return id;
   };
 
   const handleManualSave = () => {
@@ -120,49 +177,41 @@ const App: React.FC = () => {
   };
 
   const loadFromHistory = (item: HistoryItem) => {
-      const fullResult = getFullResult(item);
+      const fullResult = getOriginalResult(item);
       if (fullResult) {
           setHeaderData(item.headerData);
           setAnalysisResult(fullResult);
+          setCurrentHistoryId(item.id);
+          setEditLayer(item.edits || null);
           setAnalysisTimestamp(item.timestamp);
           setSelectedFile(item.fileName === 'Rascunho Manual' ? null : { file: { name: item.fileName } as File, base64: '', mimeType: '' });
           setError(null);
           setComparisonResult(null); 
           setConsolidationResult(null);
+          setEcfImport(null);
           setIsHistoryOpen(false);
           setAppMode('single');
       } else { alert("Detalhes não encontrados no cache."); }
   };
 
-  const handleComparison = (item1: HistoryItem, item2: HistoryItem) => {
-      const res1 = getFullResult(item1);
-      const res2 = getFullResult(item2);
+  const handleComparison = (first: HistoryItem, second: HistoryItem) => {
+      const res1 = getFullResult(first);
+      const res2 = getFullResult(second);
       if (!res1 || !res2) { alert("Erro: Dados completos não encontrados para comparação."); return; }
 
-      const rows: ComparisonRow[] = [];
-      const map1 = new Map(res1.accounts.map(a => [a.account_code || a.account_name, a]));
-      const map2 = new Map(res2.accounts.map(a => [a.account_code || a.account_name, a]));
-      const allKeys = new Set([...map1.keys(), ...map2.keys()]);
-
-      allKeys.forEach(key => {
-          const acc1 = map1.get(key);
-          const acc2 = map2.get(key);
-          const name = acc2?.account_name || acc1?.account_name || 'Desconhecido';
-          const code = acc2?.account_code || acc1?.account_code || '';
-          const val1 = acc1 ? acc1.final_balance : 0;
-          const val2 = acc2 ? acc2.final_balance : 0;
-          const varAbs = val2 - val1;
-          const varPct = val1 !== 0 ? (varAbs / Math.abs(val1)) * 100 : (val2 !== 0 ? 100 : 0);
-          rows.push({ code, name, val1, val2, varAbs, varPct, is_synthetic: (acc1?.is_synthetic || acc2?.is_synthetic) || false, level: acc1?.level || acc2?.level || 1 });
-      });
-
-      rows.sort((a, b) => a.code.localeCompare(b.code, undefined, {numeric: true}));
-      setComparisonResult({ period1Label: new Date(item1.timestamp).toLocaleDateString('pt-BR'), period2Label: new Date(item2.timestamp).toLocaleDateString('pt-BR'), rows, documentType: item1.summary.document_type });
+      setComparisonResult(compareHistoryItems({ item: first, result: res1 }, { item: second, result: res2 }));
       setAnalysisResult(null);
       setConsolidationResult(null);
+      setEcfImport(null);
       setIsHistoryOpen(false);
   };
 
+  // A comparative Balanço/DRE already carries both periods, so it opens the comparison on its own
+  const handleOpenComparative = () => {
+      const comparison = effectiveResult ? buildComparativeComparison(effectiveResult) : null;
+      if (comparison) setComparisonResult(comparison);
+  };
+
   const handleConsolidation = (items: HistoryItem[]) => {
       const fullData = items.map(item => ({ item, result: getFullResult(item) })).filter(d => d.result !== null) as {item: HistoryItem, result: AnalysisResult}[];
       if (fullData.length < 2) { alert("Erro: Não foi possível carregar os dados completos de todos os itens selecionados."); return; }
@@ -170,6 +219,7 @@ const App: React.FC = () => {
       setConsolidationResult(consolidated);
       setAnalysisResult(null);
       setComparisonResult(null);
+      setEcfImport(null);
       setIsHistoryOpen(false);
   };
 
@@ -191,8 +241,11 @@ const App: React.FC = () => {
 
       if (fullData.length < 2) { setError("Necessário ao menos 2 empresas com análise concluída."); return; }
 
-      // Salva cada empresa no histórico
-      fullData.forEach(d => saveToHistory(d.result, d.item.headerData, d.item.fileName));
+      // Salva no histórico as empresas analisadas agora (as reaproveitadas já estão lá)
+      entries.forEach(e => {
+          const d = fullData.find(f => f.item.id === e.id);
+          if (d && !e.reusedFrom) saveToHistory(d.result, d.item.headerData, d.item.fileName, { contentHash: e.contentHash });
+      });
 
       const consolidated = consolidateDREs(fullData);
       // Injeta o nome do grupo no resultado
@@ -204,28 +257,217 @@ const App: React.FC = () => {
       setAppMode('single');
   };
 
-  const handleStartAnalysis = async () => {
-    if (!headerData.companyName || !headerData.collaboratorName) { setError("Preencha os dados da empresa e responsável."); return; }
+  // replaceId: re-run of a file already in history, whose entry the new result takes over
+  const handleStartAnalysis = async (resume = false, replaceId?: string) => {
+    // ECF is not analysed on its own: it opens the reconciliation against history
+    if (selectedFile?.base64 && (selectedFile.mimeType === 'text/plain' || selectedFile.file.name.toLowerCase().endsWith('.txt'))) {
+      const text = safeDecodeBase64(selectedFile.base64);
+      if (isEcfFile(text)) {
+        const ecf = parseEcf(text);
+        if (ecf.periods.length === 0) { setError("ECF sem registros L030/M030 de período de apuração."); return; }
+        setEcfImport({ ecf, fileName: selectedFile.file.name });
+        setAnalysisResult(null);
+        setComparisonResult(null);
+        setConsolidationResult(null);
+        setError(null);
+        return;
+      }
+    }
+    // The company may be left blank: it is filled from the document header
+    if (!headerData.collaboratorName) { setError("Preencha o colaborador responsável."); return; }
     if (!selectedFile?.base64) { setError("Selecione um arquivo."); return; }
-    setIsLoading(true); setError(null);
+    if (!confirmWithinBudget()) return;
+    setIsLoading(true); setError(null); setProgress(null);
+    const meter = createUsageMeter();
+    const controller = new AbortController();
+    analysisAbortRef.current = controller;
+    let companyName = headerData.companyName;
     try {
       const mime = selectedFile.mimeType || selectedFile.file.type;
-      const result = await analyzeDocument(selectedFile.base64, mime);
-      saveToHistory(result, headerData, selectedFile.file.name);
-      setAnalysisTimestamp(new Date().toISOString());
-      setAnalysisResult(result);
-      setComparisonResult(null);
-      setConsolidationResult(null);
+      const result = await analyzeDocument(selectedFile.base64, mime, { onProgress: setProgress, resume, usage: meter, signal: controller.signal, privacy: loadPrivacySettings(headerData) });
+      companyName = companyName || result.document_metadata?.company_name || '';
+      completeAnalysis(result, selectedFile.file.name, { contentHash: selectedFile.contentHash, replaceId });
     } catch (err: any) {
-      console.error(err);
-      setError(err.message || "Erro desconhecido na análise.");
-    } finally { setIsLoading(false); }
+      // A cancelled run saves nothing; pages already extracted stay available to "Retomar"
+      if (!isCancelled(err)) {
+        console.error(err);
+        setError(err.message || "Erro desconhecido na análise.");
+      }
+    } finally {
+      analysisAbortRef.current = null;
+      setIsLoading(false); setProgress(null);
+      recordUsage(meter.total(), 'analysis', companyName, selectedFile.file.name);
+    }
+  };
+
+  // A CNPJ in the document that differs from the typed one blocks the save until the analyst decides
+  const completeAnalysis = (result: AnalysisResult, fileName: string, source: HistorySource) => {
+    setComparisonResult(null);
+    setConsolidationResult(null);
+    if (hasCnpjConflict(headerData, result.document_metadata)) { setCnpjConflict({ result, fileName, source }); return; }
+    continueAnalysis(result, fileName, prefillHeader(headerData, result.document_metadata), source);
+  };
+
+  // Doubtful rows go through the review queue first; only the reviewed result is saved
+  const continueAnalysis = (result: AnalysisResult, fileName: string, header: HeaderData, source: HistorySource) => {
+    setHeaderData(header);
+    if (result.accounts.some(isDoubtful)) { setPendingReview({ result, fileName, source }); return; }
+    setCurrentHistoryId(saveToHistory(result, header, fileName, source));
+    setEditLayer(null);
+    setAnalysisTimestamp(new Date().toISOString());
+    setAnalysisResult(result);
+  };
+
+  const handleCnpjConflict = (choice: 'document' | 'typed' | 'cancel') => {
+    if (!cnpjConflict) return;
+    const { result, fileName, source } = cnpjConflict;
+    setCnpjConflict(null);
+    if (choice === 'cancel') return;
+    const metadata = result.document_metadata;
+    const header = choice === 'document'
+      ? { ...headerData, companyName: metadata?.company_name || headerData.companyName, cnpj: formatCnpj(metadata?.cnpj || '') }
+      : headerData;
+    continueAnalysis(result, fileName, header, source);
+  };
+
+  const handleReviewCompleted = (result: AnalysisResult) => {
+    if (!pendingReview) return;
+    const historyId = saveToHistory(result, headerData, pendingReview.fileName, pendingReview.source);
+    if (pendingReview.batchId) batchQueue.update(pendingReview.batchId, { status: 'done', historyId, result: undefined });
+    setCurrentHistoryId(historyId);
+    setEditLayer(null);
+    setAnalysisTimestamp(new Date().toISOString());
+    setAnalysisResult(result);
+    setPendingReview(null);
+  };
+
+  // Batch items never open dialogs: a CNPJ conflict or doubtful rows park the item until the analyst acts on it
+  const processBatchItem = async (item: BatchItem, signal: AbortSignal): Promise<Partial<BatchItem>> => {
+    if (item.mimeType === 'text/plain' && isEcfFile(safeDecodeBase64(item.base64))) throw new Error("ECF é aberto individualmente, na conciliação.");
+    // A file already in history keeps its earlier analysis; re-running it is done from the single upload
+    const existing = findAnalysisByHash(history, item.contentHash);
+    if (existing) return { status: 'done', reused: true, historyId: existing.id, companyName: existing.headerData.companyName, cnpj: existing.headerData.cnpj, period: existing.summary.period_info };
+    const meter = createUsageMeter();
+    let result: AnalysisResult;
+    try { result = await analyzeDocument(item.base64, item.mimeType, { usage: meter, signal, privacy: loadPrivacySettings(item) }); }
+    finally { recordUsage(meter.total(), 'analysis', item.companyName, item.fileName); }
+    if (item.period?.source === 'user') result.summary = { ...result.summary, period: formatPeriod(item.period), period_info: item.period };
+    const typed: HeaderData = { companyName: item.companyName, cnpj: item.cnpj, collaboratorName: headerData.collaboratorName };
+    if (hasCnpjConflict(typed, result.document_metadata)) return { status: 'conflict', result, period: result.summary.period_info };
+    return settleBatchItem(item, result, prefillHeader(typed, result.document_metadata));
+  };
+  processBatchItemRef.current = processBatchItem;
+
+  const settleBatchItem = (item: BatchItem, result: AnalysisResult, header: HeaderData): Partial<BatchItem> => {
+    const fields: Partial<BatchItem> = { companyName: header.companyName, cnpj: header.cnpj, period: result.summary.period_info };
+    if (result.accounts.some(isDoubtful)) return { ...fields, status: 'review', result };
+    return { ...fields, status: 'done', result: undefined, historyId: saveToHistory(result, header, item.fileName, { contentHash: item.contentHash }) };
+  };
+
+  const handleBatchFiles = (files: QueuedFile[]) => {
+    const stamp = Date.now();
+    const items: BatchItem[] = files.map((f, idx) => ({ id: `${stamp}_${idx}`, ...f, companyName: '', cnpj: '', status: 'queued' }));
+    batchQueue.add(items);
+    // Header metadata is read locally and only fills what the analyst has not typed yet
+    items.forEach(item => peekDocumentMetadata(item.base64, item.mimeType)
+        .then(metadata => batchQueue.update(item.id, current => ({
+            companyName: current.companyName || metadata.company_name || '',
+            cnpj: current.cnpj || (metadata.cnpj ? formatCnpj(metadata.cnpj) : ''),
+            period: current.period || metadata.period
+        })))
+        .catch(e => console.warn(`Could not read the header of ${item.fileName}`, e)));
+  };
+
+  const handleBatchStart = () => {
+    if (!headerData.collaboratorName) { setError("Preencha o colaborador responsável."); return; }
+    if (!confirmWithinBudget(batchItems.filter(i => i.status === 'queued').length)) return;
+    setError(null);
+    batchQueue.start();
+  };
+
+  const handleBatchConflict = (id: string, choice: 'document' | 'typed') => {
+    const item = batchItems.find(i => i.id === id);
+    if (!item?.result) return;
+    const metadata = item.result.document_metadata;
+    const typed: HeaderData = { companyName: item.companyName, cnpj: item.cnpj, collaboratorName: headerData.collaboratorName };
+    const header = choice === 'document'
+      ? { ...typed, companyName: metadata?.company_name || typed.companyName, cnpj: formatCnpj(metadata?.cnpj || '') }
+      : typed;
+    batchQueue.update(id, settleBatchItem(item, item.result, header));
+  };
+
+  const handleBatchReview = (id: string) => {
+    const item = batchItems.find(i => i.id === id);
+    if (!item?.result) return;
+    setHeaderData({ ...headerData, companyName: item.companyName, cnpj: item.cnpj });
+    setPendingReview({ result: item.result, fileName: item.fileName, source: { contentHash: item.contentHash }, batchId: id });
+  };
+
+  const handleBatchOpen = (historyId: string) => {
+    const item = history.find(h => h.id === historyId);
+    if (item) loadFromHistory(item);
+    else alert("Análise não encontrada no histórico.");
   };
 
+  // Spreadsheets mapped in the wizard are parsed in the browser; no model call is made
+  const handleWorkbookImported = (result: AnalysisResult) => {
+    if (!workbookImport) return;
+    if (!headerData.collaboratorName) { setError("Preencha o colaborador responsável."); return; }
+    completeAnalysis(result, workbookImport.file.name, { contentHash: workbookImport.contentHash });
+    setWorkbookImport(null);
+    setError(null);
+  };
+
+  const handleWorkbookToAi = (pipeText: string) => {
+    if (!workbookImport) return;
+    const base64 = btoa(unescape(encodeURIComponent(pipeText)));
+    setSelectedFile({ file: workbookImport.file, base64, mimeType: 'text/csv', contentHash: workbookImport.contentHash });
+    setWorkbookImport(null);
+    setError(null);
+  };
+
+  const updateHistoryItem = (id: string, changes: Partial<HistoryItem>) => {
+    setHistory(prev => {
+        const updated = prev.map(item => item.id === id ? { ...item, ...changes } : item);
+        try { localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(updated)); }
+        catch (e) { console.error("Failed to save history list", e); }
+        return updated;
+    });
+  };
+
+  // Corrections are stored on the history entry next to the untouched extraction
+  const handleEditsChange = (layer: AccountEditLayer | null) => {
+    setEditLayer(layer);
+    if (!currentHistoryId || !analysisResult) return;
+    updateHistoryItem(currentHistoryId, { edits: layer || undefined, summary: applyEditLayer(analysisResult, layer).summary });
+  };
+
+  // The period is metadata, not an account correction, so it goes straight onto the saved result
+  const handlePeriodChange = (period: PeriodInfo) => {
+    if (!analysisResult) return;
+    const updatedResult: AnalysisResult = { ...analysisResult, summary: { ...analysisResult.summary, period: formatPeriod(period), period_info: period } };
+    setAnalysisResult(updatedResult);
+    if (!currentHistoryId) return;
+    try { localStorage.setItem(`${CACHE_STORAGE_PREFIX}${currentHistoryId}`, JSON.stringify(updatedResult)); }
+    catch (e) { console.warn("Cache full, could not save detailed result", e); }
+    updateHistoryItem(currentHistoryId, { summary: applyEditLayer(updatedResult, editLayer).summary });
+  };
+
+  const effectiveResult = useMemo(
+    () => analysisResult ? applyEditLayer(analysisResult, editLayer) : null,
+    [analysisResult, editLayer]
+  );
+
   const handleReset = () => { 
       setAnalysisResult(null); 
+      setCurrentHistoryId(null);
+      setEditLayer(null);
       setComparisonResult(null); 
       setConsolidationResult(null);
+      setEcfImport(null);
+      setWorkbookImport(null);
+      setPendingReview(null);
+      setCnpjConflict(null);
       setSelectedFile(null); 
       setError(null);
       setAppMode('single');
@@ -233,19 +475,43 @@ const App: React.FC = () => {
 
   const previousAccounts = useMemo(() => {
     if (!analysisResult || !headerData.companyName) return undefined;
+    const sameDocument = history.filter(h =>
+        h.id !== currentHistoryId &&
+        h.headerData.companyName.toLowerCase() === headerData.companyName.toLowerCase() &&
+        h.summary.document_type === analysisResult.summary.document_type);
+    // The period that precedes this one; without a period, the run analysed before this one
+    const period = resolvePeriod(analysisResult.summary);
     const currentTs = analysisTimestamp ? new Date(analysisTimestamp).getTime() : Date.now();
-    const previousItem = history.find(h => {
-        const itemTs = new Date(h.timestamp).getTime();
-        return itemTs < (currentTs - 1000) && 
-               h.headerData.companyName.toLowerCase() === headerData.companyName.toLowerCase() &&
-               h.summary.document_type === analysisResult.summary.document_type;
-    });
+    const previousItem = period
+        ? findPreviousByPeriod(sameDocument, period)
+        : sameDocument.find(h => new Date(h.timestamp).getTime() < (currentTs - 1000));
     if (previousItem) { const full = getFullResult(previousItem); return full?.accounts; }
     return undefined;
-  }, [analysisResult, history, headerData.companyName, analysisTimestamp]);
+  }, [analysisResult, history, headerData.companyName, analysisTimestamp, currentHistoryId]);
+
+  // An earlier run of the same PDF stopped before every page was extracted
+  const pendingCheckpoint = useMemo(() => {
+    if (isLoading || !selectedFile?.base64 || selectedFile.mimeType !== 'application/pdf') return null;
+    return loadCheckpoint(fingerprintFile(sanitizeBase64(selectedFile.base64)));
+  }, [selectedFile, isLoading]);
+
+  // The selected file was analysed before; a new run has to be asked for explicitly
+  const duplicateAnalysis = useMemo(
+    () => selectedFile?.base64 ? findAnalysisByHash(history, selectedFile.contentHash) : null,
+    [selectedFile, history]
+  );
+
+  // Group mode reuses any earlier analysis of the same file instead of calling the model again
+  const findReusableAnalysis = (contentHash: string) => {
+    const item = findAnalysisByHash(history, contentHash);
+    const result = item ? getFullResult(item) : null;
+    return item && result ? { historyId: item.id, result } : null;
+  };
 
+  const batchInFlight = batchItems.filter(i => i.status === 'queued' || i.status === 'processing').length;
   const isReady = !isLoading && selectedFile !== null && selectedFile.base64.length > 0;
-  const showResults = analysisResult || comparisonResult || consolidationResult;
+  const canStart = isReady && !duplicateAnalysis;
+  const showResults = analysisResult || comparisonResult || consolidationResult || ecfImport || pendingReview;
 
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-950 flex flex-col transition-colors duration-300">
@@ -255,6 +521,15 @@ const App: React.FC = () => {
         onDeleteItem={deleteFromHistory} onCompare={handleComparison}
         onConsolidate={handleConsolidation} currentUser={headerData.collaboratorName} 
       />
+      <UsageReport
+        isOpen={isUsageOpen} onClose={() => setIsUsageOpen(false)}
+        entries={usageLedger} budget={usageBudget} onBudgetChange={handleBudgetChange}
+      />
+      <PromptLab
+        isOpen={isPromptLabOpen} onClose={() => setIsPromptLabOpen(false)}
+        history={history} getFullResult={getFullResult} confirmBudget={confirmWithinBudget}
+        onUsage={(usage, item) => recordUsage(usage, 'experiment', item.headerData.companyName, item.fileName)}
+      />
       
       {/* HEADER */}
       <header className="bg-slate-900 border-b border-slate-800 py-3 sticky top-0 z-40 print:bg-white print:border-slate-200">
@@ -269,11 +544,25 @@ const App: React.FC = () => {
                 </div>
             </div>
             <div className="flex items-center gap-3 print:hidden">
+                {batchInFlight > 0 && (
+                    <span className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-800 text-xs font-bold text-blue-300" title="Fila de processamento em lote">
+                        <span className="h-2 w-2 rounded-full bg-blue-400 animate-pulse" />
+                        Lote: {batchItems.length - batchInFlight}/{batchItems.length}
+                    </span>
+                )}
                 <button onClick={toggleTheme} className="p-2 hover:bg-slate-800 rounded-lg text-slate-400 transition-colors">{darkMode ? '☀' : '🌙'}</button>
                 <button onClick={() => setIsHistoryOpen(true)} className="flex items-center gap-2 px-3 py-1.5 hover:bg-slate-800 rounded-lg text-xs font-bold text-slate-300">
                     <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
                     Histórico
                 </button>
+                <button onClick={() => setIsUsageOpen(true)} className="flex items-center gap-2 px-3 py-1.5 hover:bg-slate-800 rounded-lg text-xs font-bold text-slate-300" title="Consumo de IA por colaborador, empresa e mês">
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>
+                    Consumo
+                </button>
+                <button onClick={() => setIsPromptLabOpen(true)} className="flex items-center gap-2 px-3 py-1.5 hover:bg-slate-800 rounded-lg text-xs font-bold text-slate-300" title="Versões dos prompts e testes A/B no histórico">
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 3.104v5.714a2.25 2.25 0 01-.659 1.591L5 14.5M9.75 3.104c-.251.023-.501.05-.75.082m.75-.082a24.301 24.301 0 014.5 0m0 0v5.714c0 .597.237 1.17.659 1.591L19.8 15.3M14.25 3.104c.251.023.501.05.75.082M19.8 15.3l-1.57.393A9.065 9.065 0 0112 15a9.065 9.065 0 00-6.23-.693L5 14.5m14.8.8l1.402 1.402c1.232 1.232.65 3.318-1.067 3.611A48.309 48.309 0 0112 21c-2.773 0-5.491-.235-8.135-.687-1.718-.293-2.3-2.379-1.067-3.61L5 14.5" /></svg>
+                    Prompts
+                </button>
                 {showResults && (
                     <button onClick={handleReset} className="bg-blue-600 text-white px-4 py-1.5 rounded-lg text-xs font-bold hover:bg-blue-700 shadow-md">Nova Análise</button>
                 )}
@@ -282,7 +571,7 @@ const App: React.FC = () => {
       </header>
 
       <main className="flex-1 max-w-7xl w-full mx-auto px-6 py-8">
-        {isLoading && <LoadingSpinner />}
+        {isLoading && <AnalysisProgress progress={progress} onCancel={() => analysisAbortRef.current?.abort()} />}
 
         {/* ── MODO SELETOR (só aparece na tela inicial) ── */}
         {!showResults && (
@@ -325,33 +614,91 @@ const App: React.FC = () => {
                       <h2 className="text-3xl font-black text-slate-800 dark:text-white mb-2">Processamento de Documentos</h2>
                       <p className="text-slate-500 max-w-2xl">Carregue balanços, balancetes ou DRE para uma auditoria completa assistida por Inteligência Artificial exclusiva da SP Assessoria.</p>
                     </div>
-                    <FileUploader 
-                      onFileSelected={(f, b, m) => { setSelectedFile({file: f, base64: b, mimeType: m || f.type}); setError(null); }} 
-                      isLoading={isLoading} selectedFileName={selectedFile?.file.name} 
-                    />
+                    {workbookImport ? (
+                      <ExcelImportWizard
+                        fileName={workbookImport.file.name} sheets={workbookImport.sheets}
+                        onComplete={handleWorkbookImported} onUseAi={handleWorkbookToAi}
+                        onCancel={() => setWorkbookImport(null)}
+                      />
+                    ) : (
+                      <FileUploader 
+                        onFileSelected={(f, b, m, hash) => { setSelectedFile({file: f, base64: b, mimeType: m || f.type, contentHash: hash}); setError(null); }} 
+                        onWorkbookLoaded={(f, sheets, hash) => { setWorkbookImport({ file: f, sheets, contentHash: hash }); setSelectedFile(null); setError(null); }}
+                        isLoading={isLoading} selectedFileName={selectedFile?.file.name} 
+                      />
+                    )}
                     {error && (
                       <div className="p-4 bg-red-50 dark:bg-red-900/10 text-red-700 dark:text-red-400 border border-red-100 dark:border-red-900/30 rounded-2xl mb-6 flex items-center gap-3 font-medium text-sm">
                           <svg className="w-5 h-5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
                           {error}
                       </div>
                     )}
+                    {pendingCheckpoint && !isLoading && (
+                      <div className="p-4 bg-amber-50 dark:bg-amber-900/10 text-amber-800 dark:text-amber-300 border border-amber-100 dark:border-amber-900/30 rounded-2xl mb-6 flex flex-col md:flex-row md:items-center justify-between gap-3 text-sm">
+                          <span className="font-medium">
+                            Análise interrompida deste arquivo: {pendingCheckpoint.batches.reduce((n, b) => n + b.pages.length, 0)} página(s) já extraída(s) pela IA em {new Date(pendingCheckpoint.updated_at).toLocaleString('pt-BR')}.
+                          </span>
+                          <button
+                            onClick={() => handleStartAnalysis(true)} disabled={!isReady}
+                            className="px-4 py-2 bg-amber-500 hover:bg-amber-600 text-white rounded-xl font-bold text-xs whitespace-nowrap"
+                          >
+                            Retomar de onde parou
+                          </button>
+                      </div>
+                    )}
+                    {duplicateAnalysis && !isLoading && (
+                      <div className="p-4 bg-blue-50 dark:bg-blue-900/10 text-blue-800 dark:text-blue-300 border border-blue-100 dark:border-blue-900/30 rounded-2xl mb-6 flex flex-col md:flex-row md:items-center justify-between gap-3 text-sm">
+                          <span className="font-medium">
+                            Este arquivo já foi analisado em {new Date(duplicateAnalysis.timestamp).toLocaleString('pt-BR')}
+                            {' '}({duplicateAnalysis.headerData.companyName || 'empresa não informada'} · {periodLabel(duplicateAnalysis.summary)}).
+                            {(duplicateAnalysis.parserVersion || 0) < PARSER_VERSION && ' Ela foi feita com uma versão anterior do leitor; uma nova análise pode trazer resultados diferentes.'}
+                          </span>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => loadFromHistory(duplicateAnalysis)}
+                              className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-bold text-xs whitespace-nowrap"
+                            >
+                              Abrir análise existente
+                            </button>
+                            <button
+                              onClick={() => handleStartAnalysis(false, duplicateAnalysis.id)} disabled={!isReady}
+                              className="px-4 py-2 border border-blue-300 dark:border-blue-800 hover:bg-blue-100 dark:hover:bg-blue-900/30 rounded-xl font-bold text-xs whitespace-nowrap"
+                            >
+                              Analisar novamente
+                            </button>
+                          </div>
+                      </div>
+                    )}
                     <button 
-                      onClick={handleStartAnalysis} disabled={!isReady}
+                      onClick={() => handleStartAnalysis()} disabled={!canStart}
                       className={`w-full py-5 rounded-2xl font-black text-lg shadow-xl transition-all
-                          ${isReady 
+                          ${canStart 
                               ? 'bg-blue-600 hover:bg-blue-700 text-white transform hover:scale-[1.01] shadow-blue-500/25 active:scale-95' 
                               : 'bg-slate-100 dark:bg-slate-800 text-slate-400 cursor-not-allowed'}`}
                     >
-                       {isLoading ? 'Analisando Estrutura...' : isReady ? '🚀 Iniciar Auditoria SP Assessoria' : 'Carregue um arquivo para começar'}
+                       {isLoading ? 'Analisando Estrutura...' : duplicateAnalysis ? 'Arquivo já analisado: escolha uma opção acima' : isReady ? '🚀 Iniciar Auditoria SP Assessoria' : 'Carregue um arquivo para começar'}
                     </button>
                 </div>
               </>
             )}
 
+            {appMode === 'single' && (
+              <BatchUploadQueue
+                items={batchItems} onAddFiles={handleBatchFiles}
+                onUpdate={batchQueue.update} onStart={handleBatchStart}
+                onRetry={batchQueue.retry} onCancel={batchQueue.cancel} onRemove={batchQueue.remove}
+                onClearFinished={batchQueue.clearFinished}
+                onReview={handleBatchReview} onResolveConflict={handleBatchConflict} onOpen={handleBatchOpen}
+              />
+            )}
+
             {/* ── MODO GRUPO ECONÔMICO ── */}
             {appMode === 'group' && (
               <GroupEconomicUploader
                 onConsolidate={handleGroupConsolidation}
+                findReusableAnalysis={findReusableAnalysis}
+                confirmBudget={confirmWithinBudget}
+                onUsage={(usage, entry) => recordUsage(usage, 'analysis', entry.name, entry.file?.name)}
                 onCancel={() => setAppMode('single')}
                 collaboratorName={headerData.collaboratorName}
               />
@@ -359,19 +706,50 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {cnpjConflict?.result.document_metadata && (
+            <CnpjConflictDialog
+                fileName={cnpjConflict.fileName} headerData={headerData} metadata={cnpjConflict.result.document_metadata}
+                onUseDocument={() => handleCnpjConflict('document')}
+                onKeepTyped={() => handleCnpjConflict('typed')}
+                onCancel={() => handleCnpjConflict('cancel')}
+            />
+        )}
+
+        {pendingReview && !isLoading && (
+            <ReviewQueue
+                result={pendingReview.result} fileName={pendingReview.fileName}
+                onComplete={handleReviewCompleted} onCancel={() => setPendingReview(null)}
+            />
+        )}
+
         {/* ── RESULTADOS ── */}
         {analysisResult && !isLoading && !comparisonResult && !consolidationResult && (
             <div className="animate-fadeIn">
                 <AnalysisViewer 
-                    result={analysisResult} headerData={headerData} 
+                    result={effectiveResult || analysisResult} headerData={headerData} 
                     previousAccounts={previousAccounts} analysisTimestamp={analysisTimestamp}
+                    originalResult={analysisResult} editLayer={editLayer}
+                    onEditsChange={currentHistoryId ? handleEditsChange : undefined}
+                    onOpenComparative={handleOpenComparative}
+                    onPeriodChange={handlePeriodChange}
                 />
             </div>
         )}
 
         {comparisonResult && !isLoading && !consolidationResult && (
             <div className="animate-fadeIn">
-                <ComparisonViewer data={comparisonResult} onBack={() => setComparisonResult(null)} />
+                <ComparisonViewer data={comparisonResult} onBack={() => setComparisonResult(null)} privacy={loadPrivacySettings(headerData)}
+                  onUsage={usage => recordUsage(usage, 'comparison', headerData.companyName)} />
+            </div>
+        )}
+
+        {ecfImport && !isLoading && (
+            <div className="animate-fadeIn">
+                <EcfReconciliationViewer
+                    ecf={ecfImport.ecf} fileName={ecfImport.fileName}
+                    history={history} getFullResult={getFullResult}
+                    onBack={() => setEcfImport(null)}
+                />
             </div>
         )}
 
@@ -399,7 +777,7 @@ const App: React.FC = () => {
           </div>
       </footer>
       
-      <ChatAssistant />
+      <ChatAssistant privacy={loadPrivacySettings(headerData)} onUsage={usage => recordUsage(usage, 'chat', headerData.companyName)} />
     </div>
   );
 };
@@ -0,0 +1,195 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import * as XLSX from 'xlsx';
+import { AnalysisResult, ColumnRole } from '../types';
+import { analyzeDocument } from '../services/geminiService';
+import { configureLlm } from '../services/llmProvider';
+import { createMemoryFixtureStore, createReplayProvider, LlmFixture } from '../services/replayProvider';
+import { decodeTextFile } from '../services/parsingService';
+import { buildAnalysisFromSheets, columnCount, detectHeaderRow, firstSheetToPipeText, guessDocumentType, readWorkbook } from '../services/spreadsheetService';
+import { detectLayoutProfile } from '../services/layoutProfiles';
+import { buildAnalysisPdf, buildAnalysisWorkbook } from '../services/reportService';
+import { periodLabel } from '../services/periodService';
+import { isCancelled } from '../services/cancellationService';
+import { createUpstreamProvider } from '../server/upstreamProvider';
+
+const USAGE = `Uso: auditai analyze <pasta> [opções]
+
+Analisa cada PDF, XLSX/XLS, CSV e TXT (SPED ECD) da pasta e grava, por arquivo,
+o resultado em JSON e os relatórios em PDF e Excel, além de resumo.csv.
+
+Opções:
+  --out <pasta>        Pasta de saída (padrão: ./auditai-resultados)
+  --replay <arquivo>   Responde só com as respostas gravadas no arquivo (sem rede)
+  --record <arquivo>   Chama a IA e grava as respostas no arquivo, para usar com --replay
+  --no-images          Não envia páginas digitalizadas nem imagens à IA
+  --no-pdf             Não gera o relatório em PDF
+  --no-excel           Não gera o relatório em Excel
+  --verbose            Mostra como cada documento foi lido (camada de texto, layout, período)
+
+A IA é configurada pelo ambiente, como no servidor (LLM_PROVIDER, API_KEY, LLM_MODELS...).`;
+
+interface DocumentFile {
+    fileName: string;
+    base64: string;
+    mimeType: string;
+}
+
+interface SummaryRow {
+    file: string;
+    result?: AnalysisResult;
+    error?: string;
+}
+
+// Same conversions as the batch upload queue of the app
+const readDocument = async (filePath: string): Promise<DocumentFile | null> => {
+    const fileName = path.basename(filePath);
+    const extension = path.extname(fileName).toLowerCase();
+    const bytes = new Uint8Array(await readFile(filePath));
+    const toBase64 = (text: string) => Buffer.from(text, 'utf8').toString('base64');
+
+    if (extension === '.xlsx' || extension === '.xls') return { fileName, base64: toBase64(firstSheetToPipeText(bytes)), mimeType: 'text/csv' };
+    if (extension === '.txt' || extension === '.csv') return { fileName, base64: toBase64(decodeTextFile(bytes)), mimeType: 'text/plain' };
+    if (extension === '.pdf') return { fileName, base64: Buffer.from(bytes).toString('base64'), mimeType: 'application/pdf' };
+    return null;
+};
+
+// A workbook in a known ERP layout is read the way the app's import wizard maps it, without the model;
+// like the model path, only the first sheet counts
+const readKnownWorkbook = async (filePath: string): Promise<AnalysisResult | null> => {
+    if (!/\.xlsx?$/i.test(filePath)) return null;
+    const sheet = readWorkbook(new Uint8Array(await readFile(filePath)))[0];
+    if (!sheet || sheet.rows.length === 0) return null;
+    const profile = detectLayoutProfile(sheet.rows.slice(0, 60).map(r => r.join(' | ')));
+    const width = columnCount(sheet.rows);
+    if (!profile || profile.columns.length > width) return null;
+    const roles: ColumnRole[] = [...profile.columns, ...new Array(width - profile.columns.length).fill('ignore')];
+    const result = buildAnalysisFromSheets([sheet], [{ sheetName: sheet.name, headerRow: detectHeaderRow(sheet.rows), roles }], guessDocumentType([sheet]));
+    return result.accounts.length > 0 ? result : null;
+};
+
+// Excel in Brazil opens ";" separated files with decimal commas; the BOM keeps the accents
+const toCsv = (rows: SummaryRow[]): string => {
+    const number = (value: number | undefined) => value === undefined ? '' : value.toFixed(2).replace('.', ',');
+    const cell = (value: string) => /[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    const lines = rows.map(({ file, result, error }) => [
+        file,
+        result?.document_metadata?.company_name || '',
+        result?.document_metadata?.cnpj || '',
+        result?.summary.document_type || '',
+        result ? periodLabel(result.summary) : '',
+        result ? String(result.accounts.length) : '',
+        number(result?.summary.total_debits),
+        number(result?.summary.total_credits),
+        result ? (result.summary.is_balanced ? 'sim' : 'não') : '',
+        number(result?.summary.discrepancy_amount),
+        result ? 'ok' : 'erro',
+        error || ''
+    ].map(cell).join(';'));
+    return '﻿' + ['arquivo;empresa;cnpj;tipo;periodo;contas;total_debitos;total_creditos;balanceado;diferenca;status;erro', ...lines].join('\n') + '\n';
+};
+
+const loadFixtures = async (file: string): Promise<Record<string, LlmFixture>> =>
+    existsSync(file) ? JSON.parse(await readFile(file, 'utf8')) : {};
+
+const analyzeFolder = async (folder: string, options: Record<string, string | boolean | undefined>) => {
+    const outDir = String(options.out || 'auditai-resultados');
+    const replayFile = options.replay as string | undefined;
+    const recordFile = options.record as string | undefined;
+    if (replayFile && recordFile) throw new Error('Use --replay ou --record, não os dois.');
+
+    const fixtureFile = replayFile || recordFile;
+    const fixtures = createMemoryFixtureStore(fixtureFile ? await loadFixtures(fixtureFile) : {});
+    configureLlm({
+        provider: replayFile
+            ? createReplayProvider({ mode: 'replay', store: fixtures })
+            : recordFile
+                ? createReplayProvider({ mode: 'record', store: fixtures, upstream: createUpstreamProvider() })
+                : createUpstreamProvider()
+    });
+
+    const names = (await readdir(folder, { withFileTypes: true }))
+        .filter(entry => entry.isFile() && /\.(pdf|xlsx|xls|csv|txt)$/i.test(entry.name))
+        .map(entry => entry.name)
+        .sort((a, b) => a.localeCompare(b, 'pt-BR'));
+    if (names.length === 0) throw new Error(`Nenhum documento suportado em ${folder}.`);
+    await mkdir(outDir, { recursive: true });
+
+    // Ctrl+C stops the document being analysed; the summary still covers what finished
+    const controller = new AbortController();
+    process.once('SIGINT', () => { console.log('\nCancelando...'); controller.abort(); });
+
+    const rows: SummaryRow[] = [];
+    for (const [index, name] of names.entries()) {
+        if (controller.signal.aborted) break;
+        const prefix = `[${index + 1}/${names.length}] ${name}`;
+        // The extension stays in the name, so "balancete.pdf" and "balancete.xlsx" do not overwrite each other
+        const base = path.join(outDir, name);
+        try {
+            const filePath = path.join(folder, name);
+            let result = await readKnownWorkbook(filePath);
+            if (!result) {
+                const document = (await readDocument(filePath))!;
+                result = await analyzeDocument(document.base64, document.mimeType, {
+                    signal: controller.signal,
+                    privacy: { allow_images: !options['no-images'], masked_names: [] },
+                    onProgress: p => process.stdout.write(`\r${prefix}: ${p.stage}${p.total_pages ? ` ${p.done_pages}/${p.total_pages} pág.` : ''}   `),
+                    // On stderr and on their own lines, clear of the progress line
+                    onLog: options.verbose ? message => process.stderr.write(`\n  ${message}\n`) : undefined
+                });
+            }
+            const header = { companyName: result.document_metadata?.company_name || '', cnpj: result.document_metadata?.cnpj || '', fileName: name };
+
+            await writeFile(`${base}.json`, JSON.stringify(result, null, 2));
+            if (!options['no-pdf']) await writeFile(`${base}.pdf`, Buffer.from(buildAnalysisPdf(result, header).output('arraybuffer')));
+            if (!options['no-excel']) await writeFile(`${base}.xlsx`, XLSX.write(buildAnalysisWorkbook(result, header), { type: 'buffer', bookType: 'xlsx' }));
+
+            rows.push({ file: name, result });
+            const status = result.summary.is_balanced ? 'balanceado' : `NÃO balanceado (diferença ${result.summary.discrepancy_amount.toFixed(2)})`;
+            console.log(`\r${prefix}: ${result.accounts.length} contas, ${status}`);
+        } catch (e: any) {
+            if (isCancelled(e)) break;
+            rows.push({ file: name, error: e?.message || String(e) });
+            console.log(`\r${prefix}: ERRO — ${e?.message || e}`);
+        }
+    }
+
+    await writeFile(path.join(outDir, 'resumo.csv'), toCsv(rows));
+    if (recordFile) await writeFile(recordFile, JSON.stringify(fixtures.fixtures, null, 2));
+
+    const failed = rows.filter(r => r.error).length;
+    const unbalanced = rows.filter(r => r.result && !r.result.summary.is_balanced).length;
+    const cost = rows.reduce((sum, r) => sum + (r.result?.usage?.cost_usd || 0), 0);
+    console.log(`\n${rows.length} de ${names.length} documento(s) processado(s): ${failed} com erro, ${unbalanced} não balanceado(s). Custo estimado: US$ ${cost.toFixed(4)}.`);
+    console.log(`Resultados em ${path.resolve(outDir)}`);
+    return failed > 0 || controller.signal.aborted ? 1 : 0;
+};
+
+const main = async () => {
+    const { values, positionals } = parseArgs({
+        allowPositionals: true,
+        options: {
+            out: { type: 'string' },
+            replay: { type: 'string' },
+            record: { type: 'string' },
+            'no-images': { type: 'boolean' },
+            'no-pdf': { type: 'boolean' },
+            'no-excel': { type: 'boolean' },
+            verbose: { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+    const [command, folder] = positionals;
+    if (values.help || command !== 'analyze' || !folder) {
+        console.log(USAGE);
+        return values.help ? 0 : 2;
+    }
+    return analyzeFolder(folder, values);
+};
+
+main().then(
+    code => process.exit(code),
+    error => { console.error(error?.message || error); process.exit(1); }
+);
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { AccountEditFields, ExtractedAccount } from '../types';
+import { EditableRow } from '../services/editLayerService';
+import { parseFinancialNumber } from '../services/parsingService';
+
+interface Props {
+    rows: EditableRow[];
+    documentType: string;
+    editCount: number;
+    onUpdate: (key: string, fields: AccountEditFields) => void;
+    onDelete: (key: string) => void;
+    onAdd: () => void;
+    onDiscardAll: () => void;
+}
+
+type AmountField = 'initial_balance' | 'debit_value' | 'credit_value' | 'final_balance';
+
+const formatNumber = (val: number) => val.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const AccountEditGrid: React.FC<Props> = ({ rows, documentType, editCount, onUpdate, onDelete, onAdd, onDiscardAll }) => {
+    const [searchTerm, setSearchTerm] = useState('');
+    const isDre = documentType === 'DRE';
+    const amountFields: { field: AmountField, label: string }[] = [
+        ...(isDre ? [] : [{ field: 'initial_balance' as AmountField, label: 'Saldo Anterior' }]),
+        { field: 'debit_value', label: 'Débito' },
+        { field: 'credit_value', label: 'Crédito' },
+        { field: 'final_balance', label: 'Saldo Atual' }
+    ];
+
+    const filteredRows = rows.filter(({ account }) =>
+        account.account_name.toLowerCase().includes(searchTerm.toLowerCase()) || (account.account_code || '').includes(searchTerm));
+
+    // Inputs commit on blur (or Enter), so a half-typed amount never reaches the totals
+    const commitText = (key: string, account: ExtractedAccount, field: 'account_code' | 'account_name', value: string) => {
+        const clean = value.trim();
+        if (clean === (account[field] || '')) return;
+        if (field === 'account_name' && clean.length === 0) return;
+        onUpdate(key, { [field]: clean });
+    };
+
+    const commitAmount = (key: string, account: ExtractedAccount, field: AmountField, value: string) => {
+        const parsed = parseFinancialNumber(value);
+        if (parsed !== account[field]) onUpdate(key, { [field]: parsed });
+    };
+
+    const blurOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => { if (e.key === 'Enter') e.currentTarget.blur(); };
+
+    const cellInput = "w-full p-1.5 border rounded text-xs bg-transparent dark:text-white dark:border-slate-600 focus:ring-2 focus:ring-blue-500 outline-none";
+
+    return (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border-2 border-blue-200 dark:border-blue-900/50 overflow-hidden">
+            <div className="p-4 border-b dark:border-slate-700 flex flex-col md:flex-row justify-between md:items-center gap-4">
+                <input
+                    type="text"
+                    placeholder="Buscar conta..."
+                    value={searchTerm}
+                    onChange={e => setSearchTerm(e.target.value)}
+                    className="flex-1 p-2 border rounded text-sm dark:bg-slate-700 dark:text-white"
+                />
+                <span className="text-xs text-slate-500">{editCount} alteração(ões) sobre a extração original</span>
+                <div className="flex gap-2">
+                    <button onClick={onDiscardAll} disabled={editCount === 0} className="px-3 py-2 border rounded text-xs text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50">Descartar edições</button>
+                    <button onClick={onAdd} className="px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs font-bold">+ Adicionar conta</button>
+                </div>
+            </div>
+            <div className="overflow-auto max-h-[600px]">
+                <table className="w-full text-sm">
+                    <thead className="bg-slate-100 dark:bg-slate-900 sticky top-0 z-10">
+                        <tr>
+                            <th className="p-2 text-left w-28">Código</th>
+                            <th className="p-2 text-left">Conta</th>
+                            {amountFields.map(f => <th key={f.field} className="p-2 text-right w-32">{f.label}</th>)}
+                            <th className="p-2 text-left w-28">Natureza</th>
+                            <th className="p-2 text-center w-20">Sintética</th>
+                            <th className="p-2 w-16"></th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y dark:divide-slate-700">
+                        {filteredRows.map(({ key, account }) => (
+                            <tr key={key} className={account.edit_status === 'added' ? 'bg-emerald-50/60 dark:bg-emerald-900/10' : account.edit_status === 'edited' ? 'bg-amber-50/60 dark:bg-amber-900/10' : ''}>
+                                <td className="p-1">
+                                    <input
+                                        key={`${key}-code-${account.account_code}`} defaultValue={account.account_code || ''}
+                                        onBlur={e => commitText(key, account, 'account_code', e.target.value)} onKeyDown={blurOnEnter}
+                                        className={`${cellInput} font-mono`}
+                                    />
+                                </td>
+                                <td className="p-1">
+                                    <input
+                                        key={`${key}-name-${account.account_name}`} defaultValue={account.account_name}
+                                        onBlur={e => commitText(key, account, 'account_name', e.target.value)} onKeyDown={blurOnEnter}
+                                        className={`${cellInput} ${account.is_synthetic ? 'font-bold' : ''}`}
+                                    />
+                                </td>
+                                {amountFields.map(({ field }) => (
+                                    <td key={field} className="p-1">
+                                        <input
+                                            key={`${key}-${field}-${account[field]}`} defaultValue={formatNumber(account[field])}
+                                            onBlur={e => commitAmount(key, account, field, e.target.value)} onKeyDown={blurOnEnter}
+                                            className={`${cellInput} text-right font-mono`}
+                                        />
+                                    </td>
+                                ))}
+                                <td className="p-1">
+                                    <select
+                                        value={account.type} onChange={e => onUpdate(key, { type: e.target.value as ExtractedAccount['type'] })}
+                                        className={cellInput}
+                                    >
+                                        <option value="Debit">Devedora</option>
+                                        <option value="Credit">Credora</option>
+                                        <option value="Unknown">Indefinida</option>
+                                    </select>
+                                </td>
+                                <td className="p-1 text-center">
+                                    <input type="checkbox" checked={account.is_synthetic} onChange={e => onUpdate(key, { is_synthetic: e.target.checked })} />
+                                </td>
+                                <td className="p-1 text-center">
+                                    <button onClick={() => onDelete(key)} className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded" title="Excluir conta">Excluir</button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default AccountEditGrid;
@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+import { ExtractedAccount } from '../types';
+
+interface Props {
+    accounts: ExtractedAccount[];
+    documentType: string;
+    previousAccounts?: ExtractedAccount[];
+    comparativeLabel?: string; // Header of the prior-period column of a comparative statement
+    selected?: ExtractedAccount | null;
+    onSelect: (account: ExtractedAccount) => void;
+}
+
+const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+const AccountGrid: React.FC<Props> = ({ accounts, documentType, previousAccounts, comparativeLabel, selected, onSelect }) => {
+    const [searchTerm, setSearchTerm] = useState('');
+    const [hideZero, setHideZero] = useState(false);
+    const isDre = documentType === 'DRE';
+
+    const previousByCode = useMemo(() => {
+        const map = new Map<string, number>();
+        previousAccounts?.forEach(a => { if (a.account_code) map.set(a.account_code, a.final_balance); });
+        return map;
+    }, [previousAccounts]);
+    const showPrevious = previousByCode.size > 0;
+
+    const filteredAccounts = accounts.filter(acc => {
+        const term = searchTerm.toLowerCase();
+        const matchesSearch = acc.account_name.toLowerCase().includes(term) || (acc.account_code || '').includes(searchTerm);
+        const matchesZero = hideZero ? (acc.final_balance !== 0 || acc.debit_value !== 0 || acc.credit_value !== 0) : true;
+        return matchesSearch && matchesZero;
+    });
+
+    return (
+        <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border dark:border-slate-700 overflow-hidden">
+            <div className="p-4 border-b dark:border-slate-700 flex flex-col md:flex-row justify-between md:items-center gap-4">
+                <input
+                    type="text"
+                    placeholder="Buscar conta..."
+                    value={searchTerm}
+                    onChange={e => setSearchTerm(e.target.value)}
+                    className="flex-1 p-2 border rounded text-sm dark:bg-slate-700 dark:text-white"
+                />
+                <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+                    <input type="checkbox" checked={hideZero} onChange={e => setHideZero(e.target.checked)} />
+                    Ocultar Zerados
+                </label>
+                <span className="text-xs text-slate-400">Clique em uma linha para ver de onde ela foi lida.</span>
+            </div>
+            <div className="overflow-auto max-h-[600px]">
+                <table className="w-full text-sm">
+                    <thead className="bg-slate-100 dark:bg-slate-900 sticky top-0">
+                        <tr>
+                            <th className="p-3 text-left">Conta</th>
+                            {!isDre && <th className="p-3 text-right">Saldo Anterior</th>}
+                            <th className="p-3 text-right">Débito</th>
+                            <th className="p-3 text-right">Crédito</th>
+                            <th className="p-3 text-right">Saldo Atual</th>
+                            {comparativeLabel && <th className="p-3 text-right">{comparativeLabel}</th>}
+                            {showPrevious && <th className="p-3 text-right">Análise Anterior</th>}
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y dark:divide-slate-700">
+                        {filteredAccounts.map((acc, idx) => {
+                            const previous = acc.account_code ? previousByCode.get(acc.account_code) : undefined;
+                            return (
+                                <tr
+                                    key={`${acc.account_code || ''}-${idx}`}
+                                    onClick={() => onSelect(acc)}
+                                    className={`cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-700/50
+                                        ${acc.is_synthetic ? 'font-bold bg-slate-50/50 dark:bg-slate-800' : ''}
+                                        ${selected === acc ? 'ring-2 ring-inset ring-blue-500' : ''}`}
+                                >
+                                    <td className="p-3 truncate max-w-xs" title={acc.account_name} style={{ paddingLeft: `${0.75 + Math.max(0, acc.level - 1) * 0.75}rem` }}>
+                                        <span className="font-mono text-xs text-slate-500 mr-2">{acc.account_code}</span>
+                                        {acc.account_name}
+                                        {acc.possible_inversion && (
+                                            <span className="ml-2 text-[10px] font-black uppercase px-1.5 py-0.5 rounded bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300" title="Saldo com natureza invertida">Inversão</span>
+                                        )}
+                                    </td>
+                                    {!isDre && <td className="p-3 text-right font-mono">{formatCurrency(acc.initial_balance)}</td>}
+                                    <td className="p-3 text-right font-mono">{formatCurrency(acc.debit_value)}</td>
+                                    <td className="p-3 text-right font-mono">{formatCurrency(acc.credit_value)}</td>
+                                    <td className={`p-3 text-right font-mono ${acc.final_balance < 0 ? 'text-red-600' : ''}`}>{formatCurrency(acc.final_balance)}</td>
+                                    {comparativeLabel && (
+                                        <td className="p-3 text-right font-mono text-slate-500">{acc.previous_balance !== undefined ? formatCurrency(acc.previous_balance) : '—'}</td>
+                                    )}
+                                    {showPrevious && (
+                                        <td className="p-3 text-right font-mono text-slate-500">{previous !== undefined ? formatCurrency(previous) : '—'}</td>
+                                    )}
+                                </tr>
+                            );
+                        })}
+                        {filteredAccounts.length === 0 && (
+                            <tr>
+                                <td colSpan={7} className="p-6 text-center text-slate-400 italic">Nenhuma conta encontrada.</td>
+                            </tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+    );
+};
+
+export default AccountGrid;
@@ -0,0 +1,154 @@
+import React from 'react';
+import { AccountProvenance, ExtractedAccount } from '../types';
+import { CONFIDENCE_SIGNAL_LABELS } from '../services/confidenceService';
+
+interface Props {
+    account: ExtractedAccount;
+    onClose: () => void;
+}
+
+const STRATEGY_LABELS: Record<AccountProvenance['strategy'], { label: string, hint: string }> = {
+    pipe: { label: 'Separador "|"', hint: 'Código, nome e valores lidos pelas colunas separadas por barra vertical.' },
+    internal_code: { label: 'Código interno', hint: 'Código reduzido do ERP descartado; a classificação seguinte foi usada como código.' },
+    reverse_tokens: { label: 'Leitura reversa', hint: 'Sem separadores: os valores foram lidos do fim da linha para o começo.' },
+    layout_profile: { label: 'Perfil de layout', hint: 'Colunas lidas na ordem do perfil de ERP reconhecido.' },
+    column_mapping: { label: 'Mapeamento de colunas', hint: 'Colunas da planilha atribuídas no assistente de importação.' },
+    json_schema: { label: 'Resposta estruturada', hint: 'Código, nome e valores recebidos da IA em campos separados (JSON validado localmente).' }
+};
+
+const ORIGIN_LABELS: Record<AccountProvenance['origin'], string> = {
+    text_layer: 'Camada de texto do PDF (leitura local)',
+    ai: 'Transcrição da IA',
+    spreadsheet: 'Planilha (leitura local)'
+};
+
+const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+const formatPages = (pages: number[]) => {
+    if (pages.length === 0) return 'Não identificada';
+    if (pages.length === 1) return `Página ${pages[0]}`;
+    return `Páginas ${pages.join(', ')} (lidas no mesmo lote)`;
+};
+
+const AccountProvenancePanel: React.FC<Props> = ({ account, onClose }) => {
+    const provenance = account.provenance;
+
+    const parsedValues = [
+        { label: 'Saldo Anterior', value: account.initial_balance },
+        { label: 'Débito', value: account.debit_value },
+        { label: 'Crédito', value: account.credit_value },
+        { label: 'Saldo Atual', value: account.final_balance }
+    ];
+
+    return (
+        <div className="fixed inset-0 z-50 flex justify-end" role="dialog" aria-modal="true">
+            <div className="absolute inset-0 bg-slate-900/40" onClick={onClose} />
+            <aside className="relative w-full max-w-md h-full bg-white dark:bg-slate-800 shadow-2xl border-l dark:border-slate-700 overflow-y-auto animate-fadeIn">
+                <div className="p-5 border-b dark:border-slate-700 flex justify-between items-start gap-4 sticky top-0 bg-white dark:bg-slate-800">
+                    <div>
+                        <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Origem da linha</p>
+                        <h3 className="font-bold text-slate-800 dark:text-white mt-1">
+                            {account.account_code && <span className="font-mono text-xs text-slate-500 mr-2">{account.account_code}</span>}
+                            {account.account_name}
+                        </h3>
+                    </div>
+                    <button onClick={onClose} className="px-3 py-1 border rounded text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700">Fechar</button>
+                </div>
+
+                <div className="p-5 space-y-6 text-sm">
+                    {!provenance ? (
+                        <p className="text-slate-500 italic">
+                            Esta conta não tem rastreio de origem (importação SPED ou análise salva antes deste recurso).
+                        </p>
+                    ) : (
+                        <>
+                            <dl className="grid grid-cols-3 gap-y-3 gap-x-2">
+                                <dt className="text-slate-400 font-bold text-xs uppercase">Fonte</dt>
+                                <dd className="col-span-2 text-slate-700 dark:text-slate-200">{ORIGIN_LABELS[provenance.origin]}</dd>
+                                {provenance.sheet ? (
+                                    <>
+                                        <dt className="text-slate-400 font-bold text-xs uppercase">Aba</dt>
+                                        <dd className="col-span-2 text-slate-700 dark:text-slate-200">{provenance.sheet}</dd>
+                                    </>
+                                ) : (
+                                    <>
+                                        <dt className="text-slate-400 font-bold text-xs uppercase">Página</dt>
+                                        <dd className="col-span-2 text-slate-700 dark:text-slate-200">{formatPages(provenance.pages)}</dd>
+                                    </>
+                                )}
+                                <dt className="text-slate-400 font-bold text-xs uppercase">Estratégia</dt>
+                                <dd className="col-span-2 text-slate-700 dark:text-slate-200">
+                                    <span className="font-bold">{STRATEGY_LABELS[provenance.strategy].label}</span>
+                                    <p className="text-xs text-slate-500 mt-1">{STRATEGY_LABELS[provenance.strategy].hint}</p>
+                                </dd>
+                            </dl>
+
+                            <div>
+                                <p className="text-slate-400 font-bold text-xs uppercase mb-2">Linha extraída</p>
+                                <pre className="whitespace-pre-wrap break-all font-mono text-xs bg-slate-50 dark:bg-slate-900 p-3 rounded-lg border dark:border-slate-700 text-slate-700 dark:text-slate-300">{provenance.raw_line}</pre>
+                            </div>
+
+                            <div>
+                                <p className="text-slate-400 font-bold text-xs uppercase mb-2">Valores como impressos</p>
+                                {provenance.raw_values.length === 0 ? (
+                                    <p className="text-slate-500 italic text-xs">Nenhum valor numérico na linha.</p>
+                                ) : (
+                                    <div className="flex flex-wrap gap-2">
+                                        {provenance.raw_values.map((v, idx) => (
+                                            <span key={idx} className="font-mono text-xs px-2 py-1 rounded bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 border border-blue-100 dark:border-blue-900/30">{v}</span>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        </>
+                    )}
+
+                    {account.confidence !== undefined && (
+                        <div>
+                            <p className="text-slate-400 font-bold text-xs uppercase mb-2">Confiança da extração</p>
+                            <p className="text-slate-700 dark:text-slate-200">
+                                <span className="font-black font-mono">{Math.round(account.confidence * 100)}%</span>
+                                {account.review_status === 'accepted' && <span className="ml-2 text-xs text-emerald-600">Aceita na revisão</span>}
+                                {account.review_status === 'edited' && <span className="ml-2 text-xs text-blue-600">Corrigida na revisão</span>}
+                            </p>
+                            {(account.confidence_signals || []).length > 0 && (
+                                <ul className="list-disc pl-5 mt-1 text-xs text-slate-500">
+                                    {account.confidence_signals!.map(s => <li key={s}>{CONFIDENCE_SIGNAL_LABELS[s]}</li>)}
+                                </ul>
+                            )}
+                        </div>
+                    )}
+
+                    <div>
+                        <p className="text-slate-400 font-bold text-xs uppercase mb-2">Como foi interpretada</p>
+                        <table className="w-full text-xs">
+                            <tbody className="divide-y dark:divide-slate-700">
+                                {parsedValues.map(v => (
+                                    <tr key={v.label}>
+                                        <td className="py-2 text-slate-500">{v.label}</td>
+                                        <td className="py-2 text-right font-mono text-slate-700 dark:text-slate-200">{formatCurrency(v.value)}</td>
+                                    </tr>
+                                ))}
+                                <tr>
+                                    <td className="py-2 text-slate-500">Natureza</td>
+                                    <td className="py-2 text-right text-slate-700 dark:text-slate-200">{account.type === 'Credit' ? 'Credora' : account.type === 'Debit' ? 'Devedora' : 'Indefinida'}</td>
+                                </tr>
+                            </tbody>
+                        </table>
+                    </div>
+
+                    {account.audit_notes && (
+                        <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/10 border border-amber-100 dark:border-amber-900/30 text-amber-800 dark:text-amber-300 text-xs">
+                            <p className="font-bold mb-1">Nota de auditoria</p>
+                            <p>{account.audit_notes}</p>
+                            {account.name_suggestion && <p className="mt-1">Nome sugerido: <strong>{account.name_suggestion}</strong></p>}
+                            {account.posting_suggestion && <p className="mt-1">Lançamento: {account.posting_suggestion}</p>}
+                        </div>
+                    )}
+                </div>
+            </aside>
+        </div>
+    );
+};
+
+export default AccountProvenancePanel;
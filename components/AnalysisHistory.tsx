@@ -1,6 +1,8 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
 import { HistoryItem } from '../types';
+import { compareHistoryByPeriod, periodLabel } from '../services/periodService';
+import { formatTokens, formatUsd } from '../services/usageService';
 
 interface Props {
   isOpen: boolean;
@@ -72,6 +74,7 @@ const HistoryListItem = React.memo(({
                 <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full border uppercase tracking-wider ${docTypeColors[item.summary.document_type] || docTypeColors['Outro']}`}>
                     {item.summary.document_type}
                 </span>
+                <span className="ml-2 text-[10px] font-mono text-slate-500 dark:text-slate-400">{periodLabel(item.summary)}</span>
                 <p className="font-bold text-slate-800 dark:text-white mt-1.5 leading-tight truncate pr-8" title={item.headerData.companyName}>
                     {item.headerData.companyName || 'Empresa não Identificada'}
                 </p>
@@ -88,6 +91,11 @@ const HistoryListItem = React.memo(({
                     {item.headerData.collaboratorName || 'Sistema'}
                 </div>
             </div>
+            {item.usage && (
+                <p className="mt-2 text-[10px] font-mono text-slate-400" title={`${item.usage.calls} chamadas à IA · ${item.usage.input_tokens} tokens de entrada, ${item.usage.output_tokens} de saída`}>
+                    IA: {formatTokens(item.usage.input_tokens + item.usage.output_tokens)} tokens · {formatUsd(item.usage.cost_usd)}
+                </p>
+            )}
         </div>
     );
 });
@@ -169,7 +177,7 @@ const AnalysisHistory: React.FC<Props> = ({
           const i1 = history.find(h => h.id === selectedIds[0]);
           const i2 = history.find(h => h.id === selectedIds[1]);
           if (i1 && i2 && onCompare) {
-              const sorted = [i1, i2].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+              const sorted = [i1, i2].sort(compareHistoryByPeriod);
               onCompare(sorted[0], sorted[1]);
           }
       } else if (action === 'consolidate') {
@@ -0,0 +1,64 @@
+import React from 'react';
+import { ExtractionProgress } from '../types';
+
+interface Props {
+  progress: ExtractionProgress | null;
+  onCancel?: () => void;
+}
+
+const STAGE_LABELS: Record<ExtractionProgress['stage'], string> = {
+  reading: 'Lendo o documento...',
+  extracting: 'Extraindo páginas...',
+  normalizing: 'Estruturando contas...',
+  narrative: 'Gerando parecer de auditoria...'
+};
+
+const AnalysisProgress: React.FC<Props> = ({ progress, onCancel }) => {
+  const hasPages = !!progress && progress.total_pages > 0;
+  const percent = hasPages ? Math.round((progress!.done_pages / progress!.total_pages) * 100) : 0;
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm flex flex-col items-center justify-center z-50 animate-fadeIn">
+      <div className="bg-white dark:bg-slate-800 p-8 rounded-2xl shadow-2xl flex flex-col items-center w-full max-w-md">
+        <div className="relative flex items-center justify-center mb-6">
+          <div className="animate-ping absolute inline-flex h-12 w-12 rounded-full bg-blue-500/20 opacity-75"></div>
+          <div className="relative animate-spin rounded-full h-16 w-16 border-t-4 border-blue-500"></div>
+        </div>
+        <h3 className="text-xl font-bold text-slate-800 dark:text-white mb-2">
+          {progress ? STAGE_LABELS[progress.stage] : 'Analisando Documento...'}
+        </h3>
+
+        {hasPages ? (
+          <div className="w-full mt-2">
+            <div className="flex justify-between text-xs font-bold text-slate-500 dark:text-slate-400 mb-1">
+              <span>Página {progress!.done_pages} de {progress!.total_pages}</span>
+              <span>{percent}%</span>
+            </div>
+            <div className="w-full h-2.5 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all duration-500" style={{ width: `${percent}%` }}></div>
+            </div>
+            {progress!.current_pages && progress!.current_pages.length > 0 && (
+              <p className="text-xs text-blue-500 font-medium mt-3 animate-pulse text-center">
+                Enviando à IA: página(s) {progress!.current_pages.join(', ')}
+              </p>
+            )}
+            {progress!.failed_pages.length > 0 && (
+              <p className="text-xs text-amber-600 dark:text-amber-400 font-medium mt-2 text-center">
+                Falha nas páginas {progress!.failed_pages.join(', ')} — o restante segue sendo processado.
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-blue-500 font-medium animate-pulse">A IA da SP Assessoria está processando os dados.</p>
+        )}
+        {onCancel && (
+          <button onClick={onCancel} className="mt-6 px-5 py-2 border border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-xl text-sm font-bold">
+            Cancelar análise
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisProgress;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { BatchItem, BatchItemStatus } from '../types';
+import { formatCnpj } from '../services/documentMetadataService';
+import { firstSheetToPipeText } from '../services/spreadsheetService';
+import { decodeTextFile } from '../services/parsingService';
+import { isDoubtful } from '../services/confidenceService';
+import { computeContentHash } from '../services/contentHashService';
+import PeriodEditor from './PeriodEditor';
+
+export interface QueuedFile {
+    fileName: string;
+    base64: string;
+    mimeType: string;
+    contentHash?: string;
+}
+
+interface Props {
+    items: BatchItem[];
+    onAddFiles: (files: QueuedFile[]) => void;
+    onUpdate: (id: string, patch: Partial<BatchItem>) => void;
+    onStart: () => void;
+    onRetry: (id: string) => void;
+    onCancel: (id: string) => void;
+    onRemove: (id: string) => void;
+    onClearFinished: () => void;
+    onReview: (id: string) => void;
+    onResolveConflict: (id: string, choice: 'document' | 'typed') => void;
+    onOpen: (historyId: string) => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, { label: string, tone: string }> = {
+    queued: { label: 'Na fila', tone: 'bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300' },
+    processing: { label: 'Analisando...', tone: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 animate-pulse' },
+    review: { label: 'Revisão pendente', tone: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300' },
+    conflict: { label: 'CNPJ divergente', tone: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+    done: { label: 'Salvo no histórico', tone: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300' },
+    error: { label: 'Erro', tone: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+    cancelled: { label: 'Cancelado', tone: 'bg-slate-100 text-slate-400 dark:bg-slate-700 dark:text-slate-500' }
+};
+
+// Same conversions as the single-file uploader, minus the spreadsheet wizard: a batch has no one to map columns
+export const readQueuedFile = (file: File): Promise<QueuedFile> => new Promise((resolve, reject) => {
+    const name = file.name.toLowerCase();
+    const reader = new FileReader();
+    const fail = () => reject(new Error(`Erro ao ler ${file.name}.`));
+    reader.onerror = fail;
+
+    // A corrupt or empty file throws inside onload, where nothing else would settle the promise
+    if (name.endsWith('.xlsx') || name.endsWith('.xls')) {
+        reader.onload = () => {
+            try {
+                const csv = firstSheetToPipeText(new Uint8Array(reader.result as ArrayBuffer));
+                resolve({ fileName: file.name, base64: btoa(unescape(encodeURIComponent(csv))), mimeType: 'text/csv' });
+            } catch { fail(); }
+        };
+        reader.readAsArrayBuffer(file);
+    } else if (name.endsWith('.txt') || name.endsWith('.csv')) {
+        reader.onload = () => {
+            try {
+                const text = decodeTextFile(new Uint8Array(reader.result as ArrayBuffer));
+                resolve({ fileName: file.name, base64: btoa(unescape(encodeURIComponent(text))), mimeType: 'text/plain' });
+            } catch { fail(); }
+        };
+        reader.readAsArrayBuffer(file);
+    } else if (name.endsWith('.pdf')) {
+        reader.onload = () => {
+            try { resolve({ fileName: file.name, base64: String(reader.result).split(',')[1], mimeType: 'application/pdf' }); }
+            catch { fail(); }
+        };
+        reader.readAsDataURL(file);
+    } else {
+        reject(new Error(`Formato não suportado: ${file.name}.`));
+    }
+});
+
+const BatchUploadQueue: React.FC<Props> = ({ items, onAddFiles, onUpdate, onStart, onRetry, onCancel, onRemove, onClearFinished, onReview, onResolveConflict, onOpen }) => {
+    const [dragActive, setDragActive] = useState(false);
+    const [readErrors, setReadErrors] = useState<string[]>([]);
+
+    const addFiles = async (fileList: FileList | null) => {
+        if (!fileList || fileList.length === 0) return;
+        const outcomes = await Promise.allSettled(Array.from(fileList).map(async (file): Promise<QueuedFile> => {
+            const [queued, contentHash] = await Promise.all([readQueuedFile(file), computeContentHash(file).catch(() => undefined)]);
+            return { ...queued, contentHash };
+        }));
+        setReadErrors(outcomes.filter((o): o is PromiseRejectedResult => o.status === 'rejected').map(o => o.reason.message));
+        const files = outcomes.filter((o): o is PromiseFulfilledResult<QueuedFile> => o.status === 'fulfilled').map(o => o.value);
+        if (files.length > 0) onAddFiles(files);
+    };
+
+    const count = (status: BatchItemStatus) => items.filter(i => i.status === status).length;
+    const isEditable = (item: BatchItem) => item.status === 'queued' || item.status === 'error' || item.status === 'cancelled';
+    const cellInput = "w-full p-1.5 border rounded text-xs bg-transparent dark:text-white dark:border-slate-600 disabled:opacity-60";
+
+    return (
+        <div className="bg-white dark:bg-slate-900 p-6 rounded-3xl shadow-xl border border-slate-200 dark:border-slate-800 space-y-4">
+            <div className="flex flex-col md:flex-row justify-between md:items-center gap-2">
+                <div>
+                    <h3 className="text-xl font-black text-slate-800 dark:text-white">Fila de Processamento em Lote</h3>
+                    <p className="text-sm text-slate-500">Vários arquivos de uma vez (ex: os 12 balancetes do ano). Cada um é analisado em segundo plano e salvo no histórico.</p>
+                </div>
+                {items.length > 0 && (
+                    <div className="flex gap-2">
+                        <button onClick={onClearFinished} disabled={count('done') + count('cancelled') === 0} className="px-3 py-2 border rounded-xl text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-50">Limpar concluídos</button>
+                        <button onClick={onStart} disabled={count('queued') === 0} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-xl text-xs font-bold disabled:opacity-50">Processar fila ({count('queued')})</button>
+                    </div>
+                )}
+            </div>
+
+            <label
+                htmlFor="batch-upload"
+                className={`flex flex-col items-center justify-center w-full p-6 border-2 border-dashed rounded-2xl cursor-pointer transition-colors
+                    ${dragActive ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/10' : 'border-slate-300 dark:border-slate-700 hover:border-blue-400 hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+                onDragEnter={e => { e.preventDefault(); setDragActive(true); }}
+                onDragOver={e => { e.preventDefault(); setDragActive(true); }}
+                onDragLeave={e => { e.preventDefault(); setDragActive(false); }}
+                onDrop={e => { e.preventDefault(); setDragActive(false); addFiles(e.dataTransfer.files); }}
+            >
+                <span className="text-sm font-semibold text-slate-600 dark:text-slate-300"><span className="text-blue-600">Selecione</span> ou arraste vários arquivos</span>
+                <span className="text-xs text-slate-400 mt-1">PDF, Excel, CSV ou TXT (SPED ECD). Empresa, CNPJ e período são lidos do cabeçalho quando possível.</span>
+                <input id="batch-upload" type="file" multiple className="hidden" accept=".pdf, .xlsx, .xls, .txt, .csv" onChange={e => { addFiles(e.target.files); e.target.value = ''; }} />
+            </label>
+
+            {readErrors.length > 0 && (
+                <ul className="text-xs text-red-600 list-disc pl-5">{readErrors.map((msg, idx) => <li key={idx}>{msg}</li>)}</ul>
+            )}
+
+            {items.length > 0 && (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="text-[10px] uppercase tracking-widest text-slate-400">
+                            <tr>
+                                <th className="p-2 text-left">Arquivo</th>
+                                <th className="p-2 text-left w-56">Empresa</th>
+                                <th className="p-2 text-left w-40">CNPJ</th>
+                                <th className="p-2 text-left">Período</th>
+                                <th className="p-2 text-left">Situação</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y dark:divide-slate-700">
+                            {items.map(item => (
+                                <tr key={item.id} className="align-top">
+                                    <td className="p-2 max-w-[14rem] truncate font-medium text-slate-700 dark:text-slate-200" title={item.fileName}>{item.fileName}</td>
+                                    <td className="p-2">
+                                        <input value={item.companyName} disabled={!isEditable(item)} placeholder="Lida do documento"
+                                            onChange={e => onUpdate(item.id, { companyName: e.target.value })} className={cellInput} />
+                                    </td>
+                                    <td className="p-2">
+                                        <input value={item.cnpj} disabled={!isEditable(item)} placeholder="00.000.000/0000-00"
+                                            onChange={e => onUpdate(item.id, { cnpj: e.target.value })}
+                                            onBlur={e => { if (e.target.value.replace(/\D/g, '').length === 14) onUpdate(item.id, { cnpj: formatCnpj(e.target.value) }); }}
+                                            className={`${cellInput} font-mono`} />
+                                    </td>
+                                    <td className="p-2 text-xs text-slate-600 dark:text-slate-300">
+                                        <PeriodEditor period={item.period || null} fallbackText="—" onChange={isEditable(item) ? period => onUpdate(item.id, { period }) : undefined} />
+                                    </td>
+                                    <td className="p-2">
+                                        <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${STATUS_STYLES[item.status].tone}`}>{STATUS_STYLES[item.status].label}</span>
+                                        {item.error && <p className="text-xs text-red-600 mt-1">{item.error}</p>}
+                                        {item.reused && <p className="text-xs text-slate-500 mt-1">Arquivo já analisado: a análise anterior foi mantida.</p>}
+                                        {item.status === 'conflict' && item.result?.document_metadata?.cnpj && (
+                                            <p className="text-xs text-red-600 mt-1">
+                                                Documento: {item.result.document_metadata.company_name || '—'} ({formatCnpj(item.result.document_metadata.cnpj)})
+                                            </p>
+                                        )}
+                                        {item.status === 'review' && item.result && (
+                                            <p className="text-xs text-amber-600 mt-1">{item.result.accounts.filter(isDoubtful).length} linha(s) com baixa confiança</p>
+                                        )}
+                                    </td>
+                                    <td className="p-2 whitespace-nowrap text-right space-x-2 text-xs font-bold">
+                                        {item.status === 'done' && item.historyId && <button onClick={() => onOpen(item.historyId!)} className="text-blue-600 hover:underline">Abrir</button>}
+                                        {item.status === 'review' && <button onClick={() => onReview(item.id)} className="text-amber-600 hover:underline">Revisar</button>}
+                                        {item.status === 'conflict' && (
+                                            <>
+                                                <button onClick={() => onResolveConflict(item.id, 'document')} className="text-blue-600 hover:underline">Usar do documento</button>
+                                                <button onClick={() => onResolveConflict(item.id, 'typed')} className="text-red-600 hover:underline">Manter informado</button>
+                                            </>
+                                        )}
+                                        {(item.status === 'error' || item.status === 'cancelled') && <button onClick={() => onRetry(item.id)} className="text-blue-600 hover:underline">Tentar novamente</button>}
+                                        {(item.status === 'queued' || item.status === 'processing') && <button onClick={() => onCancel(item.id)} className="text-slate-500 hover:underline">Cancelar</button>}
+                                        {item.status !== 'processing' && <button onClick={() => onRemove(item.id)} className="text-slate-400 hover:text-red-600">Remover</button>}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default BatchUploadQueue;
@@ -1,29 +1,57 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { chatWithFinancialAgent } from '../services/geminiService';
+import { createUsageMeter } from '../services/usageService';
+import { isCancelled } from '../services/cancellationService';
+import MarkdownText from './MarkdownText';
+import { AnalysisUsage, PrivacySettings } from '../types';
 
 interface Message { role: 'user' | 'model'; text: string; }
 
-const ChatAssistant: React.FC = () => {
+interface Props {
+    privacy?: PrivacySettings;
+    onUsage?: (usage: AnalysisUsage) => void;
+}
+
+const ChatAssistant: React.FC<Props> = ({ privacy, onUsage }) => {
     const [isOpen, setIsOpen] = useState(false);
     const [messages, setMessages] = useState<Message[]>([]);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
+    // The answer being streamed; it joins `messages` once complete (or stopped)
+    const [streamingText, setStreamingText] = useState('');
     const messagesEndRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
 
-    useEffect(() => messagesEndRef.current?.scrollIntoView({ behavior: "smooth" }), [messages, isOpen]);
+    useEffect(() => messagesEndRef.current?.scrollIntoView({ behavior: "smooth" }), [messages, streamingText, isOpen]);
 
     const handleSend = async () => {
-        if (!input.trim()) return;
+        if (!input.trim() || isLoading) return;
         const userMsg = input;
         setInput('');
         setMessages(prev => [...prev, { role: 'user', text: userMsg }]);
         setIsLoading(true);
+        const meter = createUsageMeter();
+        const controller = new AbortController();
+        abortRef.current = controller;
+        let received = '';
 
         try {
-            const responseText = await chatWithFinancialAgent(messages.map(m => ({ role: m.role, parts: [{ text: m.text }] })), userMsg);
+            const responseText = await chatWithFinancialAgent(messages.map(m => ({ role: m.role, parts: [{ text: m.text }] })), userMsg, {
+                usage: meter, signal: controller.signal, privacy,
+                onText: text => { received = text; setStreamingText(text); }
+            });
             setMessages(prev => [...prev, { role: 'model', text: responseText || "Sem resposta." }]);
-        } catch (error) { setMessages(prev => [...prev, { role: 'model', text: "Erro na conexão." }]); } 
-        finally { setIsLoading(false); }
+        } catch (error) {
+            const text = !isCancelled(error) ? "Erro na conexão." : received ? `${received}\n\n_(resposta interrompida)_` : "Resposta interrompida.";
+            setMessages(prev => [...prev, { role: 'model', text }]);
+        }
+        finally {
+            abortRef.current = null;
+            setStreamingText('');
+            setIsLoading(false);
+            const usage = meter.total();
+            if (usage) onUsage?.(usage);
+        }
     };
 
     return (
@@ -34,14 +62,20 @@ const ChatAssistant: React.FC = () => {
                     <div className="bg-blue-600 p-3 text-white font-bold rounded-t-xl">Assistente Contábil</div>
                     <div className="flex-1 overflow-y-auto p-3 space-y-3 bg-slate-50 dark:bg-slate-900/50">
                         {messages.map((msg, idx) => (
-                            <div key={idx} className={`p-2 rounded max-w-[85%] text-sm ${msg.role === 'user' ? 'bg-blue-600 text-white ml-auto' : 'bg-white dark:bg-slate-700 dark:text-white border'}`}>{msg.text}</div>
+                            <div key={idx} className={`p-2 rounded max-w-[85%] text-sm ${msg.role === 'user' ? 'bg-blue-600 text-white ml-auto' : 'bg-white dark:bg-slate-700 dark:text-white border'}`}>
+                                {msg.role === 'model' ? <MarkdownText text={msg.text} /> : msg.text}
+                            </div>
                         ))}
-                        {isLoading && <div className="text-xs text-slate-500">Digitando...</div>}
+                        {isLoading && (streamingText
+                            ? <div className="p-2 rounded max-w-[85%] text-sm bg-white dark:bg-slate-700 dark:text-white border"><MarkdownText text={streamingText} /></div>
+                            : <div className="text-xs text-slate-500">Digitando...</div>)}
                         <div ref={messagesEndRef} />
                     </div>
                     <div className="p-3 border-t dark:border-slate-700 flex gap-2">
                         <input type="text" className="flex-1 border rounded px-2 py-1 text-sm dark:bg-slate-700 dark:text-white" value={input} onChange={e => setInput(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSend()} placeholder="Dúvida?" />
-                        <button onClick={handleSend} disabled={isLoading} className="bg-blue-600 text-white px-3 rounded text-sm">Enviar</button>
+                        {isLoading
+                            ? <button onClick={() => abortRef.current?.abort()} className="bg-slate-500 text-white px-3 rounded text-sm" title="Interromper a resposta">Parar</button>
+                            : <button onClick={handleSend} className="bg-blue-600 text-white px-3 rounded text-sm">Enviar</button>}
                     </div>
                 </div>
             )}
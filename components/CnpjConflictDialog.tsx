@@ -0,0 +1,62 @@
+import React from 'react';
+import { DocumentMetadata, HeaderData } from '../types';
+import { formatCnpj, onlyDigits } from '../services/documentMetadataService';
+
+interface Props {
+    fileName: string;
+    headerData: HeaderData;
+    metadata: DocumentMetadata;
+    onUseDocument: () => void;
+    onKeepTyped: () => void;
+    onCancel: () => void;
+}
+
+const CnpjConflictDialog: React.FC<Props> = ({ fileName, headerData, metadata, onUseDocument, onKeepTyped, onCancel }) => {
+    // Same root (first 8 digits) and a different branch suffix: usually a filial of the same company
+    const sameRoot = onlyDigits(headerData.cnpj).slice(0, 8) === (metadata.cnpj || '').slice(0, 8);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" />
+            <div className="relative w-full max-w-lg bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border-2 border-red-300 dark:border-red-900/50 p-6 space-y-4">
+                <div>
+                    <h3 className="text-lg font-black text-red-700 dark:text-red-400">CNPJ do documento diferente do informado</h3>
+                    <p className="text-sm text-slate-500 mt-1">
+                        O arquivo <span className="font-bold">{fileName}</span> não será salvo no histórico até que a divergência seja resolvida.
+                    </p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3 text-sm">
+                    <div className="p-3 rounded-xl bg-slate-50 dark:bg-slate-900 border dark:border-slate-700">
+                        <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Informado</p>
+                        <p className="font-bold text-slate-800 dark:text-white truncate" title={headerData.companyName}>{headerData.companyName || '—'}</p>
+                        <p className="font-mono text-slate-600 dark:text-slate-300">{headerData.cnpj}</p>
+                    </div>
+                    <div className="p-3 rounded-xl bg-red-50 dark:bg-red-900/10 border border-red-200 dark:border-red-900/30">
+                        <p className="text-[10px] font-black uppercase tracking-widest text-red-400">No documento</p>
+                        <p className="font-bold text-slate-800 dark:text-white truncate" title={metadata.company_name}>{metadata.company_name || '—'}</p>
+                        <p className="font-mono text-red-700 dark:text-red-300">{formatCnpj(metadata.cnpj || '')}</p>
+                    </div>
+                </div>
+
+                {sameRoot && (
+                    <p className="text-xs text-amber-700 dark:text-amber-400">Mesma raiz de CNPJ: o documento pode ser de uma filial da empresa informada.</p>
+                )}
+
+                <div className="flex flex-col gap-2">
+                    <button onClick={onUseDocument} className="w-full py-2.5 bg-blue-600 hover:bg-blue-700 text-white rounded-xl text-sm font-bold">
+                        Usar empresa e CNPJ do documento
+                    </button>
+                    <button onClick={onKeepTyped} className="w-full py-2.5 border border-red-300 text-red-700 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-xl text-sm font-bold">
+                        Manter os dados informados mesmo assim
+                    </button>
+                    <button onClick={onCancel} className="w-full py-2 text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 text-sm">
+                        Cancelar e descartar a análise
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default CnpjConflictDialog;
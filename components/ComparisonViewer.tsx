@@ -1,19 +1,28 @@
-import React, { useState } from 'react';
-import { ComparisonResult } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { AnalysisUsage, ComparisonResult, PrivacySettings } from '../types';
 import { generateComparisonAnalysis } from '../services/geminiService';
+import { createUsageMeter } from '../services/usageService';
+import { isCancelled } from '../services/cancellationService';
+import MarkdownText from './MarkdownText';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
 interface Props {
     data: ComparisonResult;
     onBack: () => void;
+    privacy?: PrivacySettings;
+    onUsage?: (usage: AnalysisUsage) => void;
 }
 
-const ComparisonViewer: React.FC<Props> = ({ data, onBack }) => {
+const ComparisonViewer: React.FC<Props> = ({ data, onBack, privacy, onUsage }) => {
     const [searchTerm, setSearchTerm] = useState('');
     const [hideZero, setHideZero] = useState(true);
     const [analysisText, setAnalysisText] = useState('');
     const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // Leaving the comparison stops a generation still running
+    useEffect(() => () => abortRef.current?.abort(), []);
 
     const filteredRows = data.rows.filter(row => {
         const matchesSearch = row.name.toLowerCase().includes(searchTerm.toLowerCase()) || 
@@ -27,13 +36,23 @@ const ComparisonViewer: React.FC<Props> = ({ data, onBack }) => {
 
     const handleAnalyze = async () => {
         setIsAnalyzing(true);
+        const meter = createUsageMeter();
+        const controller = new AbortController();
+        abortRef.current = controller;
         try {
-            const result = await generateComparisonAnalysis(data.rows, data.period1Label, data.period2Label);
+            const result = await generateComparisonAnalysis(data.rows, data.period1Label, data.period2Label, {
+                usage: meter, signal: controller.signal, onText: setAnalysisText, privacy
+            });
             setAnalysisText(result);
         } catch (e) {
-            setAnalysisText("Erro ao gerar análise.");
+            // Stopped halfway: what was written so far stays on screen
+            if (isCancelled(e)) setAnalysisText(prev => prev ? `${prev}\n\n_(análise interrompida)_` : '');
+            else setAnalysisText("Erro ao gerar análise.");
         } finally {
+            abortRef.current = null;
             setIsAnalyzing(false);
+            const usage = meter.total();
+            if (usage) onUsage?.(usage);
         }
     };
 
@@ -147,10 +166,18 @@ const ComparisonViewer: React.FC<Props> = ({ data, onBack }) => {
                             >
                                 {isAnalyzing ? 'Analisando...' : 'Gerar Análise de Variação'}
                             </button>
+                            {isAnalyzing && (
+                                <button onClick={() => abortRef.current?.abort()} className="mt-3 text-xs font-bold text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 hover:underline">Cancelar</button>
+                            )}
                         </div>
                     ) : (
-                        <div className="prose dark:prose-invert text-sm max-w-none overflow-y-auto max-h-[500px]">
-                            <pre className="whitespace-pre-wrap font-sans text-slate-700 dark:text-slate-300">{analysisText}</pre>
+                        <div className="text-sm overflow-y-auto max-h-[500px]">
+                            <MarkdownText text={analysisText} className="text-slate-700 dark:text-slate-300" />
+                            {isAnalyzing && (
+                                <button onClick={() => abortRef.current?.abort()} className="mt-4 px-4 py-1.5 border border-slate-300 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-lg text-xs font-bold">
+                                    Parar geração
+                                </button>
+                            )}
                         </div>
                     )}
                 </div>
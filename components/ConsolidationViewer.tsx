@@ -46,6 +46,9 @@ const ConsolidationViewer: React.FC<Props> = ({ data, onBack, collaboratorName }
         dateStyle: 'long', timeStyle: 'medium'
     });
 
+    // A consolidation only adds up when every company reports the same period
+    const distinctPeriods = [...new Set(data.companies.map(c => c.period).filter((p): p is string => !!p))];
+
     const filteredRows = data.rows.filter(r =>
         r.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
         r.code.includes(searchTerm)
@@ -139,6 +142,9 @@ const ConsolidationViewer: React.FC<Props> = ({ data, onBack, collaboratorName }
                         <span>•</span>
                         <span>{formattedDate}</span>
                     </div>
+                    {distinctPeriods.length > 1 && (
+                        <p className="mt-2 text-xs font-bold text-amber-600">Atenção: documentos de períodos diferentes ({distinctPeriods.join(', ')}).</p>
+                    )}
                 </div>
                 <div className="flex gap-2">
                     <button
@@ -225,6 +231,7 @@ const ConsolidationViewer: React.FC<Props> = ({ data, onBack, collaboratorName }
                                         <th key={c.id} className="p-3 text-right border-r dark:border-slate-700 min-w-[140px] bg-slate-50 dark:bg-slate-800">
                                             <div className="truncate w-full" title={c.name}>{c.name}</div>
                                             <div className="text-[9px] font-mono font-normal text-slate-400">{c.cnpj}</div>
+                                            {c.period && <div className="text-[9px] font-normal text-slate-500">{c.period}</div>}
                                         </th>
                                     ))}
                                     <th className="p-3 text-right bg-purple-50 dark:bg-purple-900/20 text-purple-700 dark:text-purple-300 min-w-[140px]">
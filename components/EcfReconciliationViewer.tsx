@@ -0,0 +1,226 @@
+import React, { useState, useMemo } from 'react';
+import { EcfFile, HistoryItem, AnalysisResult } from '../types';
+import { reconcileEcf, isReconciliationDifference } from '../services/reconciliationService';
+import { formatSpedDate } from '../services/spedService';
+import { compareHistoryByPeriod, periodLabel } from '../services/periodService';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+
+interface Props {
+    ecf: EcfFile;
+    fileName: string;
+    history: HistoryItem[];
+    getFullResult: (item: HistoryItem) => AnalysisResult | null;
+    onBack: () => void;
+}
+
+const RECONCILABLE_TYPES = ['Balancete', 'Balanço Patrimonial', 'DRE'];
+
+const onlyDigits = (v: string) => (v || '').replace(/\D/g, '');
+
+const EcfReconciliationViewer: React.FC<Props> = ({ ecf, fileName, history, getFullResult, onBack }) => {
+    const [periodCode, setPeriodCode] = useState(ecf.periods[0]?.periodCode || '');
+    const [showOnlyDifferences, setShowOnlyDifferences] = useState(true);
+    const [searchTerm, setSearchTerm] = useState('');
+
+    // Same-CNPJ documents first, then the latest period
+    const candidates = useMemo(() => history
+        .filter(h => RECONCILABLE_TYPES.includes(h.summary.document_type))
+        .sort((a, b) => {
+            const aSame = onlyDigits(a.headerData.cnpj) === onlyDigits(ecf.cnpj) ? 0 : 1;
+            const bSame = onlyDigits(b.headerData.cnpj) === onlyDigits(ecf.cnpj) ? 0 : 1;
+            if (aSame !== bSame) return aSame - bSame;
+            return compareHistoryByPeriod(b, a);
+        }), [history, ecf.cnpj]);
+
+    const [historyId, setHistoryId] = useState(candidates[0]?.id || '');
+
+    const period = ecf.periods.find(p => p.periodCode === periodCode) || ecf.periods[0];
+    const selectedItem = candidates.find(c => c.id === historyId);
+
+    const { rows, loadError } = useMemo(() => {
+        if (!period || !selectedItem) return { rows: [], loadError: '' };
+        const ledger = getFullResult(selectedItem);
+        if (!ledger) return { rows: [], loadError: 'Detalhes do documento não encontrados no cache.' };
+        return { rows: reconcileEcf(period, ledger), loadError: '' };
+    }, [period, selectedItem, getFullResult]);
+
+    const filteredRows = rows.filter(r => {
+        if (showOnlyDifferences && !isReconciliationDifference(r)) return false;
+        if (!searchTerm) return true;
+        const s = searchTerm.toLowerCase();
+        return r.referentialCode.includes(s) || r.description.toLowerCase().includes(s);
+    });
+
+    const differenceCount = rows.filter(isReconciliationDifference).length;
+    const unmatchedCount = rows.filter(r => r.matchMethod === 'none').length;
+    const totalDifference = rows.reduce((sum, r) => sum + Math.abs(r.difference), 0);
+
+    const lalurTotals = useMemo(() => {
+        const sumBy = (type: string) => (period?.lalurIrpj || []).filter(e => e.entryType === type).reduce((s, e) => s + e.value, 0);
+        return { additions: sumBy('A'), exclusions: sumBy('E'), compensation: sumBy('P') };
+    }, [period]);
+
+    const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+    const matchLabel = { referential: 'Referencial', name: 'Por nome', none: 'Sem correspondência' };
+
+    const handleExportPDF = () => {
+        const doc = new jsPDF('l');
+        doc.setFontSize(16);
+        doc.text(`Conciliação ECF x ${selectedItem?.summary.document_type || 'Balancete'}`, 14, 20);
+        doc.setFontSize(10);
+        doc.text(`${ecf.companyName} (${ecf.cnpj}) — Período ${period?.periodCode}: ${formatSpedDate(period?.startDate)} a ${formatSpedDate(period?.endDate)}`, 14, 28);
+
+        autoTable(doc, {
+            startY: 35,
+            head: [['Registro', 'Conta Referencial', 'Descrição', 'ECF', 'Balancete', 'Diferença', 'Contas']],
+            body: filteredRows.map(r => [
+                r.statement, r.referentialCode, r.description,
+                formatCurrency(r.ecfValue), formatCurrency(r.ledgerValue), formatCurrency(r.difference),
+                r.matchedAccounts.join(', ') || matchLabel[r.matchMethod]
+            ]),
+            styles: { fontSize: 7 },
+            headStyles: { fillColor: [37, 99, 235] }
+        });
+
+        doc.save('conciliacao_ecf.pdf');
+    };
+
+    return (
+        <div className="space-y-6 animate-fadeIn">
+            <div className="flex flex-col md:flex-row justify-between items-center bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border dark:border-slate-700">
+                <div>
+                    <h2 className="text-xl font-bold text-slate-800 dark:text-white">Conciliação ECF (L100 / L300)</h2>
+                    <p className="text-sm text-slate-500">{ecf.companyName} · {ecf.cnpj} · {fileName}</p>
+                </div>
+                <div className="flex gap-2 mt-4 md:mt-0">
+                    <button onClick={onBack} className="px-4 py-2 border rounded hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300">Voltar</button>
+                    <button onClick={handleExportPDF} disabled={rows.length === 0} className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50">Exportar PDF</button>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border dark:border-slate-700">
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Período de Apuração (ECF)</label>
+                    <select value={period?.periodCode || ''} onChange={e => setPeriodCode(e.target.value)} className="w-full p-2 border rounded text-sm dark:bg-slate-700 dark:text-white">
+                        {ecf.periods.map(p => (
+                            <option key={p.periodCode} value={p.periodCode}>{p.periodCode} — {formatSpedDate(p.startDate)} a {formatSpedDate(p.endDate)}</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-1.5">Documento do Histórico</label>
+                    <select value={historyId} onChange={e => setHistoryId(e.target.value)} className="w-full p-2 border rounded text-sm dark:bg-slate-700 dark:text-white">
+                        {candidates.length === 0 && <option value="">Nenhum balancete, balanço ou DRE no histórico</option>}
+                        {candidates.map(c => (
+                            <option key={c.id} value={c.id}>
+                                {c.headerData.companyName} — {c.summary.document_type} — {periodLabel(c.summary)} ({new Date(c.timestamp).toLocaleDateString('pt-BR')})
+                            </option>
+                        ))}
+                    </select>
+                    {selectedItem && onlyDigits(selectedItem.headerData.cnpj) !== onlyDigits(ecf.cnpj) && (
+                        <p className="text-xs text-amber-600 mt-1">Atenção: o CNPJ do documento selecionado difere do CNPJ da ECF.</p>
+                    )}
+                </div>
+            </div>
+
+            {loadError && (
+                <div className="p-4 bg-red-50 dark:bg-red-900/10 text-red-700 dark:text-red-400 border border-red-100 dark:border-red-900/30 rounded-2xl text-sm font-medium">{loadError}</div>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border dark:border-slate-700">
+                    <p className="text-xs text-slate-500 uppercase font-bold">Linhas Conciliadas</p>
+                    <p className="text-2xl font-black text-slate-800 dark:text-white">{rows.length}</p>
+                </div>
+                <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border dark:border-slate-700">
+                    <p className="text-xs text-slate-500 uppercase font-bold">Com Diferença</p>
+                    <p className={`text-2xl font-black ${differenceCount > 0 ? 'text-red-600' : 'text-green-600'}`}>{differenceCount}</p>
+                </div>
+                <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border dark:border-slate-700">
+                    <p className="text-xs text-slate-500 uppercase font-bold">Sem Correspondência</p>
+                    <p className="text-2xl font-black text-amber-600">{unmatchedCount}</p>
+                </div>
+                <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border dark:border-slate-700">
+                    <p className="text-xs text-slate-500 uppercase font-bold">Soma das Diferenças</p>
+                    <p className="text-lg font-black font-mono text-slate-800 dark:text-white">{formatCurrency(totalDifference)}</p>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="lg:col-span-2 bg-white dark:bg-slate-800 rounded-xl shadow-sm border dark:border-slate-700 overflow-hidden">
+                    <div className="p-4 border-b dark:border-slate-700 flex justify-between items-center gap-4">
+                        <input
+                            type="text"
+                            placeholder="Buscar conta referencial..."
+                            value={searchTerm}
+                            onChange={e => setSearchTerm(e.target.value)}
+                            className="flex-1 p-2 border rounded text-sm dark:bg-slate-700 dark:text-white"
+                        />
+                        <label className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-300 cursor-pointer">
+                            <input type="checkbox" checked={showOnlyDifferences} onChange={e => setShowOnlyDifferences(e.target.checked)} />
+                            Somente Diferenças
+                        </label>
+                    </div>
+                    <div className="overflow-auto max-h-[600px]">
+                        <table className="w-full text-sm">
+                            <thead className="bg-slate-100 dark:bg-slate-900 sticky top-0">
+                                <tr>
+                                    <th className="p-3 text-left">Conta Referencial</th>
+                                    <th className="p-3 text-right">ECF</th>
+                                    <th className="p-3 text-right">Balancete</th>
+                                    <th className="p-3 text-right">Diferença</th>
+                                    <th className="p-3 text-left">Contas</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y dark:divide-slate-700">
+                                {filteredRows.map((row, idx) => (
+                                    <tr key={`${row.statement}-${row.referentialCode}-${idx}`} className="hover:bg-slate-50 dark:hover:bg-slate-700/50">
+                                        <td className="p-3 max-w-xs truncate" title={row.description}>
+                                            <span className="text-[10px] font-bold text-blue-600 mr-2">{row.statement}</span>
+                                            <span className="font-mono text-xs text-slate-500 mr-2">{row.referentialCode}</span>
+                                            {row.description}
+                                        </td>
+                                        <td className="p-3 text-right font-mono">{formatCurrency(row.ecfValue)}</td>
+                                        <td className="p-3 text-right font-mono">{formatCurrency(row.ledgerValue)}</td>
+                                        <td className={`p-3 text-right font-mono ${isReconciliationDifference(row) ? 'text-red-600 font-bold' : 'text-green-600'}`}>
+                                            {formatCurrency(row.difference)}
+                                        </td>
+                                        <td className="p-3 text-xs text-slate-500">
+                                            {row.matchedAccounts.length > 0 ? row.matchedAccounts.join(', ') : <span className="text-amber-600">{matchLabel[row.matchMethod]}</span>}
+                                        </td>
+                                    </tr>
+                                ))}
+                                {filteredRows.length === 0 && (
+                                    <tr><td colSpan={5} className="p-6 text-center text-slate-400">Nenhuma linha para exibir.</td></tr>
+                                )}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+
+                <div className="bg-white dark:bg-slate-800 rounded-xl shadow-sm border dark:border-slate-700 p-6 flex flex-col">
+                    <h3 className="font-bold text-lg mb-4">LALUR — Parte A (M300)</h3>
+                    <div className="space-y-2 text-sm mb-4">
+                        <div className="flex justify-between"><span className="text-slate-500">Adições</span><span className="font-mono">{formatCurrency(lalurTotals.additions)}</span></div>
+                        <div className="flex justify-between"><span className="text-slate-500">Exclusões</span><span className="font-mono">{formatCurrency(lalurTotals.exclusions)}</span></div>
+                        <div className="flex justify-between"><span className="text-slate-500">Compensação de Prejuízos</span><span className="font-mono">{formatCurrency(lalurTotals.compensation)}</span></div>
+                        <div className="flex justify-between text-xs text-slate-400"><span>Lançamentos LACS (M350)</span><span>{period?.lalurCsll.length || 0}</span></div>
+                    </div>
+                    <div className="overflow-y-auto max-h-[420px] divide-y dark:divide-slate-700 text-xs">
+                        {(period?.lalurIrpj || []).map((e, idx) => (
+                            <div key={idx} className="py-2 flex justify-between gap-2">
+                                <span className="truncate" title={e.history || e.description}>
+                                    <span className="font-mono text-slate-400 mr-1">{e.code}</span>{e.description}
+                                </span>
+                                <span className="font-mono whitespace-nowrap">{e.entryType} {formatCurrency(e.value)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default EcfReconciliationViewer;
@@ -0,0 +1,286 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisResult, ColumnMapping, ColumnRole, SheetData } from '../types';
+import { buildAnalysisFromSheets, columnCount, detectHeaderRow, guessColumnRoles, guessDocumentType, sheetsToPipeText } from '../services/spreadsheetService';
+import { detectLayoutProfile, profileFromMapping, saveCustomProfile } from '../services/layoutProfiles';
+
+interface Props {
+  fileName: string;
+  sheets: SheetData[];
+  onComplete: (result: AnalysisResult) => void;
+  onUseAi: (pipeText: string) => void;
+  onCancel: () => void;
+}
+
+type DocType = 'Balancete' | 'Balanço Patrimonial' | 'DRE';
+
+const ROLE_LABELS: Record<ColumnRole, string> = {
+  ignore: 'Ignorar',
+  code: 'Código',
+  name: 'Nome da Conta',
+  initial_balance: 'Saldo Anterior',
+  debit: 'Débito',
+  credit: 'Crédito',
+  final_balance: 'Saldo Atual',
+  previous_balance: 'Período Anterior (comparativo)',
+  indicator: 'D/C'
+};
+
+const PREVIEW_ROWS = 25;
+
+const ExcelImportWizard: React.FC<Props> = ({ fileName, sheets, onComplete, onUseAi, onCancel }) => {
+  const usableSheets = sheets.filter(s => s.rows.length > 0);
+  const [step, setStep] = useState<'sheets' | 'mapping'>('sheets');
+  const [selected, setSelected] = useState<string[]>(usableSheets.slice(0, 1).map(s => s.name));
+  const [docType, setDocType] = useState<DocType>(() => guessDocumentType(usableSheets));
+  const [mappings, setMappings] = useState<Record<string, ColumnMapping>>({});
+  const [activeSheet, setActiveSheet] = useState<string>('');
+  const [detectedProfiles, setDetectedProfiles] = useState<Record<string, string>>({});
+  const [profileName, setProfileName] = useState('');
+  const [profileTitle, setProfileTitle] = useState('');
+  const [savedProfile, setSavedProfile] = useState<string | null>(null);
+
+  const toggleSheet = (name: string) => {
+    setSelected(prev => prev.includes(name) ? prev.filter(n => n !== name) : [...prev, name]);
+  };
+
+  const goToMapping = () => {
+    // Suggestions are computed once per sheet; the user's edits are kept when coming back
+    const next = { ...mappings };
+    const detected = { ...detectedProfiles };
+    selected.forEach(name => {
+      if (next[name]) return;
+      const sheet = usableSheets.find(s => s.name === name)!;
+      const headerRow = detectHeaderRow(sheet.rows);
+      const width = columnCount(sheet.rows);
+      // A known layout (built-in or saved earlier) fixes the column order outright
+      const profile = detectLayoutProfile(sheet.rows.slice(0, 60).map(r => r.join(' | ')));
+      if (profile && profile.columns.length <= width) {
+        const roles: ColumnRole[] = [...profile.columns, ...new Array(width - profile.columns.length).fill('ignore')];
+        next[name] = { sheetName: name, headerRow, roles };
+        detected[name] = profile.name;
+      } else {
+        next[name] = { sheetName: name, headerRow, roles: guessColumnRoles(sheet.rows, headerRow, docType) };
+      }
+    });
+    setMappings(next);
+    setDetectedProfiles(detected);
+    setActiveSheet(selected[0]);
+    setStep('mapping');
+  };
+
+  const updateMapping = (name: string, patch: Partial<ColumnMapping>) => {
+    setMappings(prev => ({ ...prev, [name]: { ...prev[name], ...patch } }));
+  };
+
+  const setRole = (name: string, col: number, role: ColumnRole) => {
+    const current = mappings[name];
+    const roles = [...current.roles];
+    // Every role except "ignore" belongs to a single column
+    if (role !== 'ignore') roles.forEach((r, idx) => { if (r === role) roles[idx] = 'ignore'; });
+    roles[col] = role;
+    updateMapping(name, { roles });
+  };
+
+  const activeMappings = useMemo(() => selected.map(name => mappings[name]).filter(Boolean), [selected, mappings]);
+
+  const missing = useMemo(() => {
+    return activeMappings.filter(m => (!m.roles.includes('name') && !m.roles.includes('code')) ||
+      !m.roles.some(r => r === 'final_balance' || r === 'debit' || r === 'credit')).map(m => m.sheetName);
+  }, [activeMappings]);
+
+  const preview = useMemo(() => {
+    if (step !== 'mapping' || activeMappings.length === 0 || missing.length > 0) return null;
+    return buildAnalysisFromSheets(usableSheets, activeMappings, docType);
+  }, [step, activeMappings, missing, docType]);
+
+  const formatCell = (cell: string | number) => typeof cell === 'number'
+    ? cell.toLocaleString('pt-BR', { maximumFractionDigits: 2 })
+    : cell;
+
+  const sheet = usableSheets.find(s => s.name === activeSheet);
+  const mapping = mappings[activeSheet];
+
+  const handleSaveProfile = () => {
+    if (!sheet || !mapping || mapping.headerRow < 0 || !profileName.trim()) return;
+    saveCustomProfile(profileFromMapping(profileName.trim(), sheet.rows[mapping.headerRow], mapping.roles, profileTitle));
+    setSavedProfile(profileName.trim());
+    setProfileName('');
+    setProfileTitle('');
+  };
+
+  return (
+    <div className="mb-6 border border-slate-200 dark:border-slate-700 rounded-2xl overflow-hidden bg-white dark:bg-slate-900 animate-fadeIn">
+      <div className="flex items-center justify-between px-6 py-4 bg-slate-50 dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700">
+        <div>
+          <h3 className="text-lg font-black text-slate-800 dark:text-white">Importação de Planilha</h3>
+          <p className="text-xs text-slate-500">{fileName} · {step === 'sheets' ? 'Passo 1 de 2: abas e tipo de documento' : 'Passo 2 de 2: cabeçalho e colunas'}</p>
+        </div>
+        <button onClick={onCancel} className="text-sm text-slate-500 hover:text-slate-700 dark:hover:text-slate-300 font-medium">Cancelar</button>
+      </div>
+
+      {step === 'sheets' && (
+        <div className="p-6 space-y-6">
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Tipo de Documento</label>
+            <select
+              value={docType} onChange={e => setDocType(e.target.value as DocType)}
+              className="px-3 py-2 rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 text-sm font-medium text-slate-700 dark:text-slate-200"
+            >
+              <option value="Balancete">Balancete</option>
+              <option value="Balanço Patrimonial">Balanço Patrimonial</option>
+              <option value="DRE">DRE</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Abas a importar</label>
+            <div className="space-y-2">
+              {usableSheets.map(s => (
+                <label key={s.name} className={`flex items-center gap-3 p-3 rounded-xl border cursor-pointer transition-colors
+                  ${selected.includes(s.name) ? 'border-blue-400 bg-blue-50 dark:bg-blue-900/20' : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800'}`}>
+                  <input type="checkbox" checked={selected.includes(s.name)} onChange={() => toggleSheet(s.name)} className="w-4 h-4" />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-sm text-slate-800 dark:text-white">{s.name}</p>
+                    <p className="text-xs text-slate-500 truncate">{s.rows.length} linha(s) · {s.rows.slice(0, 3).map(r => r.filter(c => c !== '').slice(0, 3).join(' ')).join(' / ')}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-3 justify-between">
+            <button
+              onClick={() => onUseAi(sheetsToPipeText(usableSheets.filter(s => selected.includes(s.name))))}
+              disabled={selected.length === 0}
+              className="px-4 py-2.5 rounded-xl text-sm font-bold text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800 disabled:opacity-40"
+            >
+              Enviar para análise por IA
+            </button>
+            <button
+              onClick={goToMapping} disabled={selected.length === 0}
+              className="px-6 py-2.5 rounded-xl text-sm font-black bg-blue-600 hover:bg-blue-700 text-white disabled:opacity-40"
+            >
+              Mapear Colunas →
+            </button>
+          </div>
+        </div>
+      )}
+
+      {step === 'mapping' && sheet && mapping && (
+        <div className="p-6 space-y-4">
+          {selected.length > 1 && (
+            <div className="flex gap-2 flex-wrap">
+              {selected.map(name => (
+                <button key={name} onClick={() => setActiveSheet(name)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-bold transition-colors
+                    ${name === activeSheet ? 'bg-blue-600 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300'}
+                    ${missing.includes(name) ? 'ring-2 ring-amber-400' : ''}`}>
+                  {name}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {detectedProfiles[activeSheet] && (
+            <p className="text-xs font-bold text-green-700 dark:text-green-400 bg-green-50 dark:bg-green-900/20 px-3 py-2 rounded-lg inline-block">
+              Perfil de layout reconhecido: {detectedProfiles[activeSheet]}
+            </p>
+          )}
+
+          <p className="text-xs text-slate-500">
+            Clique no número da linha para marcar a última linha de cabeçalho (as linhas acima dela são ignoradas) e escolha o papel de cada coluna.
+          </p>
+
+          <div className="overflow-auto max-h-[420px] border border-slate-200 dark:border-slate-700 rounded-xl">
+            <table className="text-xs w-full">
+              <thead className="sticky top-0 bg-slate-50 dark:bg-slate-800 z-10">
+                <tr>
+                  <th className="px-2 py-2 text-slate-400">
+                    <button onClick={() => updateMapping(activeSheet, { headerRow: -1 })} className="text-[10px] underline" title="Planilha sem cabeçalho">sem</button>
+                  </th>
+                  {Array.from({ length: columnCount(sheet.rows) }).map((_, col) => (
+                    <th key={col} className="px-2 py-2">
+                      <select
+                        value={mapping.roles[col] || 'ignore'}
+                        onChange={e => setRole(activeSheet, col, e.target.value as ColumnRole)}
+                        className={`w-full min-w-[110px] px-1.5 py-1 rounded-lg border text-xs font-bold
+                          ${(mapping.roles[col] || 'ignore') === 'ignore' ? 'border-slate-200 dark:border-slate-700 text-slate-400 bg-white dark:bg-slate-900' : 'border-blue-300 text-blue-700 bg-blue-50 dark:bg-blue-900/30 dark:text-blue-300'}`}
+                      >
+                        {(Object.keys(ROLE_LABELS) as ColumnRole[]).map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                      </select>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {sheet.rows.slice(0, PREVIEW_ROWS).map((row, idx) => (
+                  <tr key={idx} className={`border-t border-slate-100 dark:border-slate-800
+                    ${idx === mapping.headerRow ? 'bg-amber-50 dark:bg-amber-900/20 font-bold' : idx < mapping.headerRow ? 'opacity-40' : ''}`}>
+                    <td className="px-2 py-1.5 text-center">
+                      <button onClick={() => updateMapping(activeSheet, { headerRow: idx })}
+                        className={`w-7 h-6 rounded text-[10px] font-bold ${idx === mapping.headerRow ? 'bg-amber-400 text-white' : 'bg-slate-100 dark:bg-slate-800 text-slate-500 hover:bg-amber-100'}`}>
+                        {idx + 1}
+                      </button>
+                    </td>
+                    {Array.from({ length: columnCount(sheet.rows) }).map((_, col) => (
+                      <td key={col} className="px-2 py-1.5 whitespace-nowrap text-slate-700 dark:text-slate-300">{formatCell(row[col] ?? '')}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {missing.length > 0 ? (
+            <p className="text-sm text-amber-600 dark:text-amber-400 font-medium">
+              Defina ao menos a coluna de nome (ou código) e uma coluna de valor em: {missing.join(', ')}.
+            </p>
+          ) : preview && (
+            <p className="text-sm text-slate-600 dark:text-slate-300">
+              <span className="font-black text-blue-600">{preview.accounts.length}</span> conta(s) reconhecida(s) ·
+              Débitos {preview.summary.total_debits.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })} ·
+              Créditos {preview.summary.total_credits.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}
+            </p>
+          )}
+
+          <div className="flex flex-col md:flex-row md:items-center gap-2 p-3 rounded-xl bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700">
+            <input
+              type="text" value={profileName} onChange={e => { setProfileName(e.target.value); setSavedProfile(null); }}
+              placeholder="Nome do perfil (ex: ERP do Cliente X)"
+              className="flex-1 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm"
+            />
+            <input
+              type="text" value={profileTitle} onChange={e => { setProfileTitle(e.target.value); setSavedProfile(null); }}
+              placeholder="Texto do título que identifica o layout (opcional)"
+              title="Nome do ERP ou da empresa impresso acima do cabeçalho; o perfil só é aplicado a arquivos que o contenham, além da mesma linha de cabeçalho"
+              className="flex-1 px-3 py-2 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-900 text-sm"
+            />
+            <button
+              onClick={handleSaveProfile} disabled={!profileName.trim() || mapping.headerRow < 0 || missing.includes(activeSheet)}
+              title={mapping.headerRow < 0 ? 'Marque a linha de cabeçalho: ela identifica o layout nos próximos arquivos' : undefined}
+              className="px-4 py-2 rounded-lg text-xs font-bold bg-slate-700 hover:bg-slate-800 text-white disabled:opacity-40 whitespace-nowrap"
+            >
+              Salvar como perfil de layout
+            </button>
+            {savedProfile && <span className="text-xs font-bold text-green-600">Perfil "{savedProfile}" salvo.</span>}
+          </div>
+
+          <div className="flex justify-between gap-3">
+            <button onClick={() => setStep('sheets')} className="px-4 py-2.5 rounded-xl text-sm font-bold text-slate-600 dark:text-slate-300 border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800">
+              ← Voltar
+            </button>
+            <button
+              onClick={() => preview && onComplete(preview)}
+              disabled={!preview || preview.accounts.length === 0}
+              className="px-6 py-2.5 rounded-xl text-sm font-black bg-green-600 hover:bg-green-700 text-white disabled:opacity-40"
+            >
+              Importar sem IA
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExcelImportWizard;
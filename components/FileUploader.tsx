@@ -1,13 +1,18 @@
 import React, { useCallback, useState } from 'react';
 import * as XLSX from 'xlsx';
+import { SheetData } from '../types';
+import { readWorkbook } from '../services/spreadsheetService';
+import { decodeTextFile } from '../services/parsingService';
+import { computeContentHash } from '../services/contentHashService';
 
 interface Props {
-  onFileSelected: (file: File, base64: string, mimeType?: string) => void;
+  onFileSelected: (file: File, base64: string, mimeType?: string, contentHash?: string) => void;
+  onWorkbookLoaded?: (file: File, sheets: SheetData[], contentHash?: string) => void; // When set, Excel files go to the import wizard
   isLoading: boolean;
   selectedFileName?: string;
 }
 
-const FileUploader: React.FC<Props> = ({ onFileSelected, isLoading, selectedFileName }) => {
+const FileUploader: React.FC<Props> = ({ onFileSelected, onWorkbookLoaded, isLoading, selectedFileName }) => {
   const [dragActive, setDragActive] = useState(false);
   const [isReading, setIsReading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
@@ -31,6 +36,9 @@ const FileUploader: React.FC<Props> = ({ onFileSelected, isLoading, selectedFile
     setIsReading(true);
     setUploadProgress(0);
 
+    // Hash the original bytes alongside the read, so re-uploads of the same file can be recognised
+    const hashPromise = computeContentHash(file).catch(() => undefined);
+
     const isExcel = file.name.endsWith('.xlsx') || file.name.endsWith('.xls');
     const isText = file.type === 'text/plain' || file.name.endsWith('.txt') || file.name.endsWith('.csv');
 
@@ -43,6 +51,14 @@ const FileUploader: React.FC<Props> = ({ onFileSelected, isLoading, selectedFile
       reader.onload = (e) => {
         try {
           const data = new Uint8Array(e.target!.result as ArrayBuffer);
+          if (onWorkbookLoaded) {
+            const sheets = readWorkbook(data);
+            setTimeout(async () => {
+              onWorkbookLoaded(file, sheets, await hashPromise);
+              setIsReading(false);
+            }, 500);
+            return;
+          }
           const workbook = XLSX.read(data, { type: 'array' });
           const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
           // Convert to CSV
@@ -51,8 +67,8 @@ const FileUploader: React.FC<Props> = ({ onFileSelected, isLoading, selectedFile
           // Encode to Base64 (UTF-8 safe)
           const base64 = btoa(unescape(encodeURIComponent(csvOutput)));
 
-          setTimeout(() => {
-            onFileSelected(file, base64, 'text/csv');
+          setTimeout(async () => {
+            onFileSelected(file, base64, 'text/csv', await hashPromise);
             setIsReading(false);
           }, 500);
         } catch (err) {
@@ -71,12 +87,12 @@ const FileUploader: React.FC<Props> = ({ onFileSelected, isLoading, selectedFile
       };
       reader.onload = (e) => {
         try {
-          const textContent = e.target!.result as string;
+          const textContent = decodeTextFile(new Uint8Array(e.target!.result as ArrayBuffer));
           // Encode to Base64 (UTF-8 safe)
           const base64 = btoa(unescape(encodeURIComponent(textContent)));
 
-          setTimeout(() => {
-            onFileSelected(file, base64, 'text/plain');
+          setTimeout(async () => {
+            onFileSelected(file, base64, 'text/plain', await hashPromise);
             setIsReading(false);
           }, 500);
         } catch (err) {
@@ -85,7 +101,7 @@ const FileUploader: React.FC<Props> = ({ onFileSelected, isLoading, selectedFile
           setIsReading(false);
         }
       };
-      reader.readAsText(file); // Default UTF-8
+      reader.readAsArrayBuffer(file);
     } else {
       // PDF STRATEGY: Base64
       const reader = new FileReader();
@@ -102,9 +118,9 @@ const FileUploader: React.FC<Props> = ({ onFileSelected, isLoading, selectedFile
             if (file.name.toLowerCase().endsWith('.pdf')) mimeType = 'application/pdf';
           }
 
-          setTimeout(() => {
-            const base64Data = e.target!.result!.toString().split(',')[1];
-            onFileSelected(file, base64Data, mimeType);
+          const base64Data = e.target.result.split(',')[1];
+          setTimeout(async () => {
+            onFileSelected(file, base64Data, mimeType, await hashPromise);
             setIsReading(false);
           }, 500);
         }
@@ -116,7 +132,7 @@ const FileUploader: React.FC<Props> = ({ onFileSelected, isLoading, selectedFile
       reader.readAsDataURL(file);
     }
 
-  }, [onFileSelected]);
+  }, [onFileSelected, onWorkbookLoaded]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -1,6 +1,11 @@
-import React, { useState, useRef, useCallback } from 'react';
-import { AnalysisResult } from '../types';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { AnalysisResult, AnalysisUsage } from '../types';
 import { analyzeDocument } from '../services/geminiService';
+import { createUsageMeter } from '../services/usageService';
+import { computeContentHash } from '../services/contentHashService';
+import { isCancelled } from '../services/cancellationService';
+import { estimateRemainingMs, formatDuration, runPool } from '../services/workerPool';
+import { loadPrivacySettings } from '../services/redactionService';
 
 export type CompanyRole = 'Controladora' | 'Subsidiária' | 'Coligada' | 'Filial';
 
@@ -15,14 +20,24 @@ export interface CompanyEntry {
     status: 'idle' | 'loading' | 'done' | 'error';
     result: AnalysisResult | null;
     errorMsg: string;
+    contentHash?: string;
+    reusedFrom?: string; // History id of the earlier analysis of the same file, when it was reused
 }
 
 interface Props {
     onConsolidate: (entries: CompanyEntry[]) => void;
+    findReusableAnalysis?: (contentHash: string) => { historyId: string, result: AnalysisResult } | null;
+    confirmBudget?: (analyses: number) => boolean; // False when the analyst backs off a budget warning
+    onUsage?: (usage: AnalysisUsage, entry: CompanyEntry) => void;
     onCancel: () => void;
     collaboratorName: string;
 }
 
+const CONCURRENCY_STORAGE_KEY = 'auditAI_group_concurrency';
+// Companies analysed at the same time; more only helps when the API quota allows it
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6];
+const DEFAULT_CONCURRENCY = 3;
+
 const ROLE_COLORS: Record<CompanyRole, string> = {
     'Controladora': 'bg-purple-100 text-purple-700 border-purple-300 dark:bg-purple-900/30 dark:text-purple-300',
     'Subsidiária':  'bg-blue-100 text-blue-700 border-blue-300 dark:bg-blue-900/30 dark:text-blue-300',
@@ -48,7 +63,7 @@ const formatCNPJ = (v: string) => {
             .replace(/(\d{4})(\d)/, '$1-$2');
 };
 
-const GroupEconomicUploader: React.FC<Props> = ({ onConsolidate, onCancel, collaboratorName }) => {
+const GroupEconomicUploader: React.FC<Props> = ({ onConsolidate, findReusableAnalysis, confirmBudget, onUsage, onCancel, collaboratorName }) => {
     const [groupName, setGroupName] = useState('');
     const [entries, setEntries] = useState<CompanyEntry[]>([
         { id: '1', name: '', cnpj: '', role: 'Controladora', file: null, base64: '', mimeType: '', status: 'idle', result: null, errorMsg: '' },
@@ -57,6 +72,23 @@ const GroupEconomicUploader: React.FC<Props> = ({ onConsolidate, onCancel, colla
     const [isProcessing, setIsProcessing] = useState(false);
     const [globalError, setGlobalError] = useState('');
     const fileRefs = useRef<Record<string, HTMLInputElement | null>>({});
+    const abortRef = useRef<AbortController | null>(null);
+    const [concurrency, setConcurrency] = useState(() => Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY)) || DEFAULT_CONCURRENCY);
+    // ETA bookkeeping: companies not started yet, start time of the running ones, durations of the finished ones
+    const queuedCount = useRef(0);
+    const startedAt = useRef<Record<string, number>>({});
+    const durations = useRef<number[]>([]);
+    const [, setClock] = useState(0);
+
+    // Leaving the module mid-run stops the analyses instead of consolidating in the background
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    // Re-renders every second while processing so the ETA counts down
+    useEffect(() => {
+        if (!isProcessing) return;
+        const timer = setInterval(() => setClock(c => c + 1), 1000);
+        return () => clearInterval(timer);
+    }, [isProcessing]);
 
     const updateEntry = (id: string, patch: Partial<CompanyEntry>) =>
         setEntries(prev => prev.map(e => e.id === id ? { ...e, ...patch } : e));
@@ -70,8 +102,8 @@ const GroupEconomicUploader: React.FC<Props> = ({ onConsolidate, onCancel, colla
 
     const handleFileChange = useCallback(async (id: string, file: File) => {
         try {
-            const base64 = await fileToBase64(file);
-            updateEntry(id, { file, base64, mimeType: file.type, status: 'idle', errorMsg: '' });
+            const [base64, contentHash] = await Promise.all([fileToBase64(file), computeContentHash(file).catch(() => undefined)]);
+            updateEntry(id, { file, base64, mimeType: file.type, contentHash, status: 'idle', result: null, reusedFrom: undefined, errorMsg: '' });
         } catch {
             updateEntry(id, { errorMsg: 'Erro ao ler o arquivo.' });
         }
@@ -87,31 +119,80 @@ const GroupEconomicUploader: React.FC<Props> = ({ onConsolidate, onCancel, colla
         entries.every(e => e.name.trim() && e.file && e.base64) &&
         groupName.trim();
 
-    const handleProcess = async () => {
+    // Analyses one company; the returned entry is how it ended (a cancelled one goes back to idle)
+    const analyseEntry = async (entry: CompanyEntry, signal: AbortSignal): Promise<CompanyEntry> => {
+        queuedCount.current--;
+        startedAt.current[entry.id] = Date.now();
+        updateEntry(entry.id, { status: 'loading', errorMsg: '' });
+        const meter = createUsageMeter();
+        try {
+            const result = await analyzeDocument(entry.base64, entry.mimeType, { usage: meter, signal, privacy: loadPrivacySettings({ cnpj: entry.cnpj, companyName: entry.name }) });
+            durations.current.push(Date.now() - startedAt.current[entry.id]);
+            updateEntry(entry.id, { result, status: 'done' });
+            return { ...entry, result, status: 'done', errorMsg: '' };
+        } catch (err: any) {
+            if (isCancelled(err)) {
+                updateEntry(entry.id, { status: 'idle' });
+                return { ...entry, status: 'idle' };
+            }
+            updateEntry(entry.id, { status: 'error', errorMsg: err.message || 'Erro na análise.' });
+            return { ...entry, status: 'error', errorMsg: err.message || 'Erro na análise.' };
+        } finally {
+            delete startedAt.current[entry.id];
+            const usage = meter.total();
+            if (usage) onUsage?.(usage, entry);
+        }
+    };
+
+    // onlyId: retry of one failed company, which analyses it alone and does not consolidate
+    const handleProcess = async (onlyId?: string) => {
         if (!canProcess) {
             setGlobalError('Preencha nome do grupo, nome e arquivo de todas as empresas.');
             return;
         }
+        // Companies that already succeeded are kept as they are
+        const pending = entries.filter(e => !(e.status === 'done' && e.result) && (!onlyId || e.id === onlyId));
+        const toAnalyse = pending.filter(e => !(e.contentHash && findReusableAnalysis?.(e.contentHash))).length;
+        if (toAnalyse > 0 && confirmBudget && !confirmBudget(toAnalyse)) return;
         setGlobalError('');
         setIsProcessing(true);
-
-        const updated = [...entries];
-        for (let i = 0; i < updated.length; i++) {
-            const entry = updated[i];
-            updateEntry(entry.id, { status: 'loading' });
-            try {
-                const result = await analyzeDocument(entry.base64, entry.mimeType);
-                updated[i] = { ...entry, result, status: 'done' };
-                updateEntry(entry.id, { result, status: 'done' });
-            } catch (err: any) {
-                updated[i] = { ...entry, status: 'error', errorMsg: err.message || 'Erro na análise.' };
-                updateEntry(entry.id, { status: 'error', errorMsg: err.message || 'Erro na análise.' });
-            }
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        const final = new Map<string, CompanyEntry>(entries.map(e => [e.id, e]));
+        const queue: CompanyEntry[] = [];
+        pending.forEach(entry => {
+            // A file already analysed (alone or in another group) is not sent to the model again
+            const reusable = entry.contentHash && findReusableAnalysis ? findReusableAnalysis(entry.contentHash) : null;
+            if (!reusable) { queue.push(entry); return; }
+            final.set(entry.id, { ...entry, result: reusable.result, reusedFrom: reusable.historyId, status: 'done', errorMsg: '' });
+            updateEntry(entry.id, { result: reusable.result, reusedFrom: reusable.historyId, status: 'done', errorMsg: '' });
+        });
+
+        queuedCount.current = queue.length;
+        try {
+            await runPool(queue, concurrency, async entry => { final.set(entry.id, await analyseEntry(entry, controller.signal)); }, controller.signal);
+        } catch (e) {
+            if (!isCancelled(e)) throw e;
         }
 
+        abortRef.current = null;
+        queuedCount.current = 0;
         setIsProcessing(false);
+        // Nothing is consolidated (or saved to history) from a cancelled run
+        if (controller.signal.aborted) {
+            setGlobalError('Análise do grupo cancelada. As empresas já concluídas não serão analisadas de novo.');
+            return;
+        }
+        if (onlyId) return;
 
-        const successful = updated.filter(e => e.status === 'done');
+        const outcome = Array.from(final.values());
+        const failed = outcome.filter(e => e.status === 'error');
+        if (failed.length > 0) {
+            setGlobalError(`${failed.length} empresa(s) com erro: use "Tentar novamente" ou remova-as do grupo para consolidar.`);
+            return;
+        }
+        const successful = outcome.filter(e => e.status === 'done');
         if (successful.length < 2) {
             setGlobalError('É necessário ao menos 2 empresas analisadas com sucesso para consolidar.');
             return;
@@ -120,9 +201,18 @@ const GroupEconomicUploader: React.FC<Props> = ({ onConsolidate, onCancel, colla
         onConsolidate(successful);
     };
 
-    const doneCount  = entries.filter(e => e.status === 'done').length;
-    const errorCount = entries.filter(e => e.status === 'error').length;
-    const loadingIdx = entries.findIndex(e => e.status === 'loading');
+    const handleConcurrencyChange = (value: number) => {
+        setConcurrency(value);
+        localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(value));
+    };
+
+    const doneCount    = entries.filter(e => e.status === 'done').length;
+    const errorCount   = entries.filter(e => e.status === 'error').length;
+    const loadingCount = entries.filter(e => e.status === 'loading').length;
+    const pendingCount = entries.length - doneCount;
+    const etaMs = isProcessing
+        ? estimateRemainingMs(durations.current, queuedCount.current, Object.values<number>(startedAt.current).map(t => Date.now() - t), concurrency)
+        : null;
 
     return (
         <div className="space-y-6 animate-fadeIn">
@@ -196,7 +286,7 @@ const GroupEconomicUploader: React.FC<Props> = ({ onConsolidate, onCancel, colla
                                 )}
                                 {entry.status === 'done' && (
                                     <span className="text-xs text-green-600 dark:text-green-400 font-medium">
-                                        {entry.result?.accounts.length} contas extraídas
+                                        {entry.result?.accounts.length} contas extraídas{entry.reusedFrom && ' (análise anterior reaproveitada)'}
                                     </span>
                                 )}
                             </div>
@@ -300,7 +390,12 @@ const GroupEconomicUploader: React.FC<Props> = ({ onConsolidate, onCancel, colla
                             {entry.errorMsg && (
                                 <div className="md:col-span-3 p-3 bg-red-50 dark:bg-red-900/20 rounded-xl text-red-600 dark:text-red-400 text-xs font-medium flex items-center gap-2">
                                     <svg className="w-4 h-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"/></svg>
-                                    {entry.errorMsg}
+                                    <span className="flex-1">{entry.errorMsg}</span>
+                                    {entry.status === 'error' && !isProcessing && (
+                                        <button onClick={() => handleProcess(entry.id)} className="flex-shrink-0 font-bold text-red-700 dark:text-red-300 hover:underline">
+                                            Tentar novamente
+                                        </button>
+                                    )}
                                 </div>
                             )}
                         </div>
@@ -326,19 +421,36 @@ const GroupEconomicUploader: React.FC<Props> = ({ onConsolidate, onCancel, colla
                 </button>
             )}
 
+            {/* Concurrency */}
+            {!isProcessing && (
+                <div className="flex items-center justify-end gap-2 text-xs text-slate-500 dark:text-slate-400">
+                    <label htmlFor="group-concurrency">Empresas analisadas ao mesmo tempo:</label>
+                    <select id="group-concurrency" value={concurrency} onChange={e => handleConcurrencyChange(Number(e.target.value))}
+                        className="px-2 py-1 border border-slate-200 dark:border-slate-600 rounded-lg bg-white dark:bg-slate-900 text-slate-700 dark:text-slate-200 font-bold">
+                        {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                </div>
+            )}
+
             {/* Progress Summary */}
             {isProcessing && (
                 <div className="bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-2xl p-5">
                     <div className="flex items-center gap-3 mb-3">
                         <div className="animate-spin rounded-full h-5 w-5 border-t-2 border-purple-500"/>
                         <span className="font-bold text-purple-700 dark:text-purple-300 text-sm">
-                            Processando {loadingIdx + 1} de {entries.length}...
+                            Analisando {loadingCount} empresa{loadingCount === 1 ? '' : 's'} em paralelo...
+                        </span>
+                        <span className="ml-auto text-xs font-bold text-purple-600 dark:text-purple-300">
+                            {etaMs === null ? 'Estimando tempo restante...' : `Tempo restante: ~${formatDuration(etaMs)}`}
                         </span>
                     </div>
                     <div className="flex gap-4 text-xs text-slate-500">
                         <span className="text-green-600 font-bold">✓ {doneCount} concluídas</span>
                         {errorCount > 0 && <span className="text-red-500 font-bold">✗ {errorCount} com erro</span>}
-                        <span>{entries.length - doneCount - errorCount - (loadingIdx >= 0 ? 1 : 0)} pendentes</span>
+                        <span>{entries.length - doneCount - errorCount - loadingCount} pendentes</span>
+                        <button onClick={() => abortRef.current?.abort()} className="ml-auto font-bold text-slate-600 dark:text-slate-300 hover:text-red-600 hover:underline">
+                            Cancelar análise
+                        </button>
                     </div>
                     <div className="mt-3 w-full bg-purple-100 dark:bg-purple-900/40 rounded-full h-2 overflow-hidden">
                         <div
@@ -358,7 +470,7 @@ const GroupEconomicUploader: React.FC<Props> = ({ onConsolidate, onCancel, colla
 
             {/* Action Button */}
             <button
-                onClick={handleProcess}
+                onClick={() => handleProcess()}
                 disabled={!canProcess || isProcessing}
                 className={`w-full py-5 rounded-2xl font-black text-lg shadow-xl transition-all
                     ${canProcess && !isProcessing
@@ -366,8 +478,12 @@ const GroupEconomicUploader: React.FC<Props> = ({ onConsolidate, onCancel, colla
                         : 'bg-slate-100 dark:bg-slate-800 text-slate-400 cursor-not-allowed'}`}
             >
                 {isProcessing
-                    ? `🔄 Analisando empresa ${loadingIdx + 1} de ${entries.length}...`
-                    : `🏢 Analisar e Consolidar ${entries.length} Empresa${entries.length > 1 ? 's' : ''}`}
+                    ? `🔄 Analisando ${doneCount + errorCount} de ${entries.length} empresas...`
+                    : pendingCount === 0
+                        ? `🏢 Consolidar ${entries.length} Empresas`
+                        : doneCount > 0
+                            ? `🏢 Analisar ${pendingCount} Pendente${pendingCount > 1 ? 's' : ''} e Consolidar`
+                            : `🏢 Analisar e Consolidar ${entries.length} Empresa${entries.length > 1 ? 's' : ''}`}
             </button>
         </div>
     );
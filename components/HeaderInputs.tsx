@@ -1,6 +1,8 @@
 
-import React, { useState } from 'react';
-import { HeaderData } from '../types';
+import React, { useEffect, useState } from 'react';
+import { HeaderData, PrivacySettings } from '../types';
+import { isValidCnpj } from '../services/documentMetadataService';
+import { loadPrivacySettings, savePrivacySettings } from '../services/redactionService';
 
 interface Props {
   data: HeaderData;
@@ -12,42 +14,31 @@ interface Props {
 const HeaderInputs: React.FC<Props> = ({ data, onChange, onSave, disabled }) => {
   const [cnpjError, setCnpjError] = useState(false);
   const [isLoadingCnpj, setIsLoadingCnpj] = useState(false);
+  const [isPrivacyOpen, setIsPrivacyOpen] = useState(false);
+  const [privacy, setPrivacy] = useState<PrivacySettings>(() => loadPrivacySettings(data));
+  const [namesText, setNamesText] = useState(() => privacy.masked_names.join(', '));
 
-  const validateCNPJ = (cnpj: string) => {
-    const numbers = cnpj.replace(/\D/g, '');
-
-    if (numbers === '') return true; // Optional
-    if (numbers.length !== 14) return false;
-
-    // Eliminate known invalid lists
-    if (/^(\d)\1+$/.test(numbers)) return false;
-
-    // Validates first digit
-    let length = numbers.length - 2
-    let numbers_substr = numbers.substring(0, length);
-    const digits = numbers.substring(length);
-    let sum = 0;
-    let pos = length - 7;
-    for (let i = length; i >= 1; i--) {
-      sum += parseInt(numbers_substr.charAt(length - i)) * pos--;
-      if (pos < 2) pos = 9;
-    }
-    let result = sum % 11 < 2 ? 0 : 11 - sum % 11;
-    if (result !== parseInt(digits.charAt(0))) return false;
-
-    // Validates second digit
-    length = length + 1;
-    numbers_substr = numbers.substring(0, length);
-    sum = 0;
-    pos = length - 7;
-    for (let i = length; i >= 1; i--) {
-      sum += parseInt(numbers_substr.charAt(length - i)) * pos--;
-      if (pos < 2) pos = 9;
-    }
-    result = sum % 11 < 2 ? 0 : 11 - sum % 11;
-    if (result !== parseInt(digits.charAt(1))) return false;
+  // Privacy settings belong to the company, so they are reloaded whenever it changes
+  useEffect(() => {
+    const loaded = loadPrivacySettings(data);
+    setPrivacy(loaded);
+    setNamesText(loaded.masked_names.join(', '));
+  }, [data.cnpj, data.companyName]);
+
+  const updatePrivacy = (settings: PrivacySettings) => {
+    setPrivacy(settings);
+    savePrivacySettings(data, settings);
+  };
+
+  const handleNamesBlur = () => {
+    const masked_names = namesText.split(/[,;\n]/).map(n => n.trim()).filter(Boolean);
+    updatePrivacy({ ...privacy, masked_names });
+    setNamesText(masked_names.join(', '));
+  };
 
-    return true;
+  const validateCNPJ = (cnpj: string) => {
+    if (cnpj.replace(/\D/g, '') === '') return true; // Optional
+    return isValidCnpj(cnpj);
   };
 
   const fetchCompanyData = async (cnpj: string) => {
@@ -207,6 +198,55 @@ const HeaderInputs: React.FC<Props> = ({ data, onChange, onSave, disabled }) =>
           </div>
         </div>
       </div>
+      <div className="mt-4 border-t border-slate-100 dark:border-slate-700 pt-3">
+        <button
+          type="button"
+          onClick={() => setIsPrivacyOpen(!isPrivacyOpen)}
+          className="text-xs font-bold text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 flex items-center gap-1"
+        >
+          {isPrivacyOpen ? '▾' : '▸'} Privacidade dos dados enviados à IA
+          {!privacy.allow_images && <span className="ml-2 px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300 font-normal">imagens bloqueadas</span>}
+        </button>
+        {isPrivacyOpen && (
+          <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mb-2">
+                CPFs, CNPJs, contas bancárias e nomes de sócios são trocados por marcadores antes do envio e restaurados no resultado.
+              </p>
+              <label className="flex items-start gap-2 text-sm text-slate-700 dark:text-slate-300">
+                <input
+                  type="checkbox"
+                  checked={privacy.allow_images}
+                  onChange={e => updatePrivacy({ ...privacy, allow_images: e.target.checked })}
+                  disabled={disabled || !(data.cnpj || data.companyName)}
+                  className="mt-0.5"
+                />
+                <span>Permitir envio de imagens e páginas digitalizadas à IA <span className="text-xs text-slate-400">(sem isso, documentos escaneados não podem ser lidos)</span></span>
+              </label>
+            </div>
+            <div>
+              <label htmlFor="maskedNames" className="block text-sm font-bold text-slate-700 dark:text-slate-300 mb-1">
+                Nomes a ocultar <span className="font-normal text-xs text-slate-400">(sócios, titulares — separados por vírgula)</span>
+              </label>
+              <input
+                type="text"
+                id="maskedNames"
+                value={namesText}
+                onChange={e => setNamesText(e.target.value)}
+                onBlur={handleNamesBlur}
+                disabled={disabled || !(data.cnpj || data.companyName)}
+                placeholder="Ex: Maria Souza, José Pereira"
+                className="w-full px-3 py-2 border border-slate-300 dark:border-slate-600 rounded-lg text-sm bg-white dark:bg-slate-900 text-slate-800 dark:text-white disabled:bg-slate-100 disabled:cursor-not-allowed"
+              />
+            </div>
+            {!(data.cnpj || data.companyName) ? (
+              <p className="md:col-span-2 text-xs text-amber-600 dark:text-amber-400">Informe o CNPJ ou a empresa para salvar as preferências de privacidade.</p>
+            ) : data.cnpj.replace(/\D/g, '').length !== 14 && (
+              <p className="md:col-span-2 text-xs text-amber-600 dark:text-amber-400">Sem CNPJ completo, as preferências ficam ligadas ao nome da empresa; elas passam para o CNPJ quando ele for informado.</p>
+            )}
+          </div>
+        )}
+      </div>
       {onSave && (
         <div className="mt-4 flex justify-end">
             <button 
@@ -0,0 +1,83 @@
+import React from 'react';
+
+interface Props {
+    text: string;
+    className?: string;
+}
+
+type Block =
+    | { kind: 'heading', level: number, text: string }
+    | { kind: 'list', ordered: boolean, items: string[] }
+    | { kind: 'paragraph', text: string }
+    | { kind: 'rule' };
+
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|__[^_]+__|`[^`]+`|\*[^*\s][^*]*\*)/g;
+
+// Bold, italics and inline code; a marker still open (the rest is on its way) is shown as typed
+const renderInline = (text: string): React.ReactNode[] =>
+    text.split(INLINE_PATTERN).map((part, idx) => {
+        if (/^(\*\*|__).+\1$/.test(part)) return <strong key={idx} className="font-bold">{part.slice(2, -2)}</strong>;
+        if (/^`.+`$/.test(part)) return <code key={idx} className="px-1 rounded bg-slate-100 dark:bg-slate-700 font-mono text-[0.9em]">{part.slice(1, -1)}</code>;
+        if (/^\*.+\*$/.test(part)) return <em key={idx}>{part.slice(1, -1)}</em>;
+        return part;
+    });
+
+const parseBlocks = (text: string): Block[] => {
+    const blocks: Block[] = [];
+    let paragraph: string[] = [];
+    const flush = () => {
+        if (paragraph.length > 0) blocks.push({ kind: 'paragraph', text: paragraph.join(' ') });
+        paragraph = [];
+    };
+
+    text.split('\n').forEach(raw => {
+        const line = raw.trim();
+        const heading = line.match(/^(#{1,4})\s+(.*)$/);
+        const bullet = line.match(/^[-*•]\s+(.*)$/);
+        const numbered = line.match(/^\d+[.)]\s+(.*)$/);
+
+        if (!line) { flush(); return; }
+        if (/^(-{3,}|\*{3,})$/.test(line)) { flush(); blocks.push({ kind: 'rule' }); return; }
+        if (heading) { flush(); blocks.push({ kind: 'heading', level: heading[1].length, text: heading[2] }); return; }
+        if (bullet || numbered) {
+            flush();
+            const ordered = !!numbered;
+            const item = (bullet || numbered)![1];
+            const previous = blocks[blocks.length - 1];
+            if (previous?.kind === 'list' && previous.ordered === ordered) previous.items.push(item);
+            else blocks.push({ kind: 'list', ordered, items: [item] });
+            return;
+        }
+        paragraph.push(line);
+    });
+    flush();
+    return blocks;
+};
+
+/**
+ * Renders the markdown the model answers with (headings, lists, bold, italics).
+ * It is re-rendered from scratch on every streamed chunk, so it has to cope with
+ * text that stops mid-line.
+ */
+const MarkdownText: React.FC<Props> = ({ text, className = '' }) => (
+    <div className={`space-y-2 ${className}`}>
+        {parseBlocks(text).map((block, idx) => {
+            if (block.kind === 'rule') return <hr key={idx} className="border-slate-200 dark:border-slate-700" />;
+            if (block.kind === 'heading') {
+                const size = block.level <= 2 ? 'text-base' : 'text-sm';
+                return <p key={idx} className={`${size} font-black text-slate-800 dark:text-white mt-3`}>{renderInline(block.text)}</p>;
+            }
+            if (block.kind === 'list') {
+                const ListTag = block.ordered ? 'ol' : 'ul';
+                return (
+                    <ListTag key={idx} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-5 space-y-1`}>
+                        {block.items.map((item, i) => <li key={i}>{renderInline(item)}</li>)}
+                    </ListTag>
+                );
+            }
+            return <p key={idx}>{renderInline(block.text)}</p>;
+        })}
+    </div>
+);
+
+export default MarkdownText;
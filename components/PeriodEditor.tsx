@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { PeriodInfo, PeriodKind } from '../types';
+import { PERIOD_KIND_LABELS, classifyPeriod, formatPeriod, makePeriod } from '../services/periodService';
+
+interface Props {
+    period: PeriodInfo | null;
+    fallbackText: string; // The free-text period, shown while no typed period could be read
+    onChange?: (period: PeriodInfo) => void;
+}
+
+const SOURCE_LABELS: Record<PeriodInfo['source'], string> = {
+    document: 'lido do documento',
+    ai: 'estimado pela IA',
+    user: 'definido manualmente'
+};
+
+const PeriodEditor: React.FC<Props> = ({ period, fallbackText, onChange }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const [start, setStart] = useState('');
+    const [end, setEnd] = useState('');
+    const [kind, setKind] = useState<PeriodKind>('monthly');
+
+    const open = () => {
+        setStart(period?.start || '');
+        setEnd(period?.end || '');
+        setKind(period?.kind || 'monthly');
+        setIsOpen(true);
+    };
+
+    // The kind follows the dates unless the user picks another one afterwards
+    const changeDates = (nextStart: string, nextEnd: string) => {
+        setStart(nextStart);
+        setEnd(nextEnd);
+        if (nextStart && nextEnd) setKind(classifyPeriod(nextStart <= nextEnd ? nextStart : nextEnd, nextStart <= nextEnd ? nextEnd : nextStart));
+    };
+
+    const save = () => {
+        if (!onChange || !start || !end) return;
+        onChange(makePeriod(start, end, 'user', kind));
+        setIsOpen(false);
+    };
+
+    const inputClass = "p-1 border rounded text-xs dark:bg-slate-700 dark:text-white dark:border-slate-600";
+
+    if (isOpen) {
+        return (
+            <span className="inline-flex flex-wrap items-center gap-1">
+                <input type="date" value={start} onChange={e => changeDates(e.target.value, end)} className={inputClass} />
+                <span>a</span>
+                <input type="date" value={end} onChange={e => changeDates(start, e.target.value)} className={inputClass} />
+                <select value={kind} onChange={e => setKind(e.target.value as PeriodKind)} className={inputClass}>
+                    {(Object.keys(PERIOD_KIND_LABELS) as PeriodKind[]).map(k => <option key={k} value={k}>{PERIOD_KIND_LABELS[k]}</option>)}
+                </select>
+                <button onClick={save} disabled={!start || !end} className="px-2 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs font-bold disabled:opacity-50">Salvar</button>
+                <button onClick={() => setIsOpen(false)} className="px-2 py-1 border rounded text-xs hover:bg-slate-50 dark:hover:bg-slate-700">Cancelar</button>
+            </span>
+        );
+    }
+
+    return (
+        <span className="inline-flex items-center gap-1">
+            <span title={period ? `${PERIOD_KIND_LABELS[period.kind]}, ${SOURCE_LABELS[period.source]}` : 'Período não identificado no documento'}>
+                {period ? formatPeriod(period) : fallbackText}
+            </span>
+            {period && <span className="text-[10px] uppercase text-slate-400">({PERIOD_KIND_LABELS[period.kind]})</span>}
+            {onChange && (
+                <button onClick={open} className="text-xs text-blue-600 hover:underline">{period ? 'alterar' : 'definir período'}</button>
+            )}
+        </span>
+    );
+};
+
+export default PeriodEditor;
@@ -0,0 +1,280 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisResult, AnalysisUsage, HistoryItem, PromptExperiment, PromptKind, PromptRunMetrics } from '../types';
+import { listPrompts, loadPromptDefaults, setDefaultPrompt } from '../services/promptRegistry';
+import { ExperimentSideSummary, ExperimentSubject, MAX_SAMPLE_SIZE, loadExperiments, runPromptExperiment, sampleSubjects, saveExperiment, summarizeExperiment, wasTested } from '../services/promptExperimentService';
+import { computeContentHash, findAnalysisByHash } from '../services/contentHashService';
+import { loadPrivacySettings } from '../services/redactionService';
+import { isCancelled } from '../services/cancellationService';
+import { formatUsd } from '../services/usageService';
+import { readQueuedFile } from './BatchUploadQueue';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    history: HistoryItem[];
+    getFullResult: (item: HistoryItem) => AnalysisResult | null;
+    confirmBudget: (analyses: number) => boolean; // False when the analyst declines to go over the monthly budget
+    onUsage: (usage: AnalysisUsage, item: HistoryItem) => void;
+}
+
+const KINDS: { id: PromptKind, label: string }[] = [
+    { id: 'extraction', label: 'Extração' },
+    { id: 'narrative', label: 'Narrativa' }
+];
+
+const formatShare = (value: number | undefined) => value === undefined ? '—' : `${(value * 100).toLocaleString('pt-BR', { maximumFractionDigits: 1 })}%`;
+const formatAverage = (value: number | undefined) => value === undefined ? '—' : value.toLocaleString('pt-BR', { maximumFractionDigits: 1 });
+
+const describeRun = (kind: PromptKind, run: PromptRunMetrics, referenceAccounts: number): string => {
+    if (run.error) return `Erro: ${run.error}`;
+    if (kind === 'extraction') return `${run.matched_accounts}/${referenceAccounts} contas reencontradas · ${run.accounts} lidas · ${run.is_balanced ? 'balanceado' : 'não balanceado'}`;
+    return `${run.observations} destaques · ${run.spell_check} correções · ${run.account_audits} sugestões${run.period_matches === false ? ' · período diverge' : ''}`;
+};
+
+const summaryLines = (kind: PromptKind): { label: string, value: (s: ExperimentSideSummary) => string }[] => [
+    ...(kind === 'extraction' ? [
+        { label: 'Contas da análise salva reencontradas', value: (s: ExperimentSideSummary) => formatShare(s.matched_share) },
+        { label: 'Documentos balanceados', value: (s: ExperimentSideSummary) => `${s.balanced}/${s.runs - s.errors}` }
+    ] : [
+        { label: 'Destaques por análise', value: (s: ExperimentSideSummary) => formatAverage(s.observations) },
+        { label: 'Correções ortográficas por análise', value: (s: ExperimentSideSummary) => formatAverage(s.spell_check) },
+        { label: 'Sugestões por conta por análise', value: (s: ExperimentSideSummary) => formatAverage(s.account_audits) },
+        { label: 'Período igual ao salvo', value: (s: ExperimentSideSummary) => `${s.period_matches}/${s.runs - s.errors}` }
+    ]),
+    { label: 'Execuções com erro', value: s => String(s.errors) },
+    { label: 'Custo', value: s => formatUsd(s.cost_usd) }
+];
+
+/**
+ * The prompt registry on screen: the versions of each prompt, A/B tests of a
+ * candidate against the default on a sample of the history, and promotion of
+ * a tested candidate to default.
+ */
+const PromptLab: React.FC<Props> = ({ isOpen, onClose, history, getFullResult, confirmBudget, onUsage }) => {
+    const [kind, setKind] = useState<PromptKind>('extraction');
+    const [defaults, setDefaults] = useState(() => loadPromptDefaults());
+    const [experiments, setExperiments] = useState<PromptExperiment[]>(() => loadExperiments());
+    const [candidate, setCandidate] = useState<string | null>(null);
+    const [sampleSize, setSampleSize] = useState(5);
+    // Extraction needs the original files: they are matched to the history by content hash
+    const [documents, setDocuments] = useState<ExperimentSubject[]>([]);
+    const [unmatched, setUnmatched] = useState<string[]>([]);
+    const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+    const [controller, setController] = useState<AbortController | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Reading every saved result is not free, so it waits until the panel is open
+    const subjects: ExperimentSubject[] = useMemo(() => !isOpen ? [] : kind === 'extraction'
+        ? documents
+        : history.flatMap((item): ExperimentSubject[] => { const reference = getFullResult(item); return reference ? [{ item, reference }] : []; }),
+    [isOpen, kind, documents, history, getFullResult]);
+    const latest = experiments.find(e => e.kind === kind);
+    const latestSummary = useMemo(() => latest ? summarizeExperiment(latest) : null, [latest]);
+
+    const switchKind = (next: PromptKind) => {
+        setKind(next);
+        setCandidate(null);
+        setError(null);
+    };
+
+    const addFiles = async (fileList: FileList | null) => {
+        if (!fileList || fileList.length === 0) return;
+        const matched: ExperimentSubject[] = [];
+        const missing: string[] = [];
+        for (const file of Array.from(fileList)) {
+            try {
+                const item = findAnalysisByHash(history, await computeContentHash(file));
+                const reference = item ? getFullResult(item) : null;
+                if (!item || !reference) { missing.push(file.name); continue; }
+                const { base64, mimeType } = await readQueuedFile(file);
+                matched.push({ item, reference, document: { base64, mimeType } });
+            } catch (e) {
+                missing.push(file.name);
+            }
+        }
+        setDocuments(prev => [...prev.filter(s => !matched.some(m => m.item.id === s.item.id)), ...matched]);
+        setUnmatched(missing);
+    };
+
+    const run = async () => {
+        if (!candidate) return;
+        const sample = sampleSubjects(subjects, Math.min(sampleSize, MAX_SAMPLE_SIZE));
+        if (sample.length === 0) return;
+        // Each extraction run is a full analysis; narrative runs are single calls
+        if (!confirmBudget(kind === 'extraction' ? sample.length * 2 : 0)) return;
+        const next = new AbortController();
+        setController(next);
+        setError(null);
+        try {
+            const experiment = await runPromptExperiment({
+                kind, candidate, subjects: sample,
+                privacyFor: item => loadPrivacySettings(item.headerData),
+                signal: next.signal,
+                onProgress: (done, total) => setProgress({ done, total }),
+                onUsage
+            });
+            setExperiments(prev => saveExperiment(prev, experiment));
+        } catch (e: any) {
+            if (!isCancelled(e)) setError(e?.message || 'Falha no teste.');
+        } finally {
+            setController(null);
+            setProgress(null);
+        }
+    };
+
+    const promote = (version: string) => {
+        if (!window.confirm(`Usar ${version} como padrão nas próximas análises deste navegador?`)) return;
+        setDefaults(setDefaultPrompt(kind, version));
+        setCandidate(null);
+    };
+
+    // Closing stops a running test; the runs already paid for stay in the usage report
+    const close = () => {
+        controller?.abort();
+        onClose();
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={close} />
+            <div className="relative w-full max-w-3xl max-h-[85vh] flex flex-col bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border dark:border-slate-700">
+                <div className="px-6 py-5 border-b dark:border-slate-700 flex items-center justify-between">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-800 dark:text-white">Prompts da análise</h2>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">Versões registradas, testes A/B no histórico e versão padrão</p>
+                    </div>
+                    <button onClick={close} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition-colors">
+                        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </div>
+
+                <div className="px-6 pt-4 flex bg-white dark:bg-slate-800">
+                    <div className="flex bg-slate-100 dark:bg-slate-900 rounded-lg p-1">
+                        {KINDS.map(k => (
+                            <button key={k.id} onClick={() => switchKind(k.id)} disabled={!!controller}
+                                className={`px-4 py-1.5 text-xs font-bold rounded-md transition-all ${kind === k.id ? 'bg-white dark:bg-slate-800 text-blue-600 shadow-sm' : 'text-slate-500'}`}>
+                                {k.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex-1 overflow-y-auto px-6 py-4 space-y-6">
+                    {/* VERSIONS */}
+                    <div className="space-y-2">
+                        {listPrompts(kind).map(prompt => {
+                            const isDefault = defaults[kind] === prompt.version;
+                            const tested = wasTested(experiments, kind, prompt.version);
+                            return (
+                                <div key={prompt.version} className={`p-3 rounded-xl border ${candidate === prompt.version ? 'border-blue-400 bg-blue-50/50 dark:bg-blue-900/10' : 'dark:border-slate-700'}`}>
+                                    <div className="flex items-start justify-between gap-4">
+                                        <div>
+                                            <p className="text-sm font-bold text-slate-800 dark:text-white">
+                                                <span className="font-mono text-xs text-slate-500 mr-2">{prompt.version}</span>{prompt.label}
+                                                {isDefault && <span className="ml-2 px-2 py-0.5 rounded-full bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300 text-[10px] font-black uppercase">Padrão</span>}
+                                            </p>
+                                            <p className="text-xs text-slate-500 mt-1">{prompt.notes}</p>
+                                        </div>
+                                        {!isDefault && (
+                                            <div className="flex gap-2 shrink-0">
+                                                <button onClick={() => setCandidate(prompt.version)} disabled={!!controller}
+                                                    className="px-3 py-1.5 border rounded-lg text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 disabled:opacity-50">
+                                                    Testar
+                                                </button>
+                                                <button onClick={() => promote(prompt.version)} disabled={!tested || !!controller}
+                                                    title={tested ? undefined : 'Teste a versão no histórico antes de torná-la padrão'}
+                                                    className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-xs font-bold disabled:opacity-40 disabled:cursor-not-allowed">
+                                                    Tornar padrão
+                                                </button>
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+
+                    {/* EXPERIMENT */}
+                    {candidate && (
+                        <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-900 space-y-3">
+                            <p className="text-sm font-bold text-slate-700 dark:text-slate-200">
+                                Teste A/B: <span className="font-mono">{candidate}</span> × <span className="font-mono">{defaults[kind]}</span> (padrão)
+                            </p>
+                            {kind === 'extraction' ? (
+                                <div className="text-xs text-slate-500 space-y-1">
+                                    <p>A extração precisa dos arquivos originais. Selecione arquivos já analisados; eles são reconhecidos no histórico pelo conteúdo.</p>
+                                    <input type="file" multiple accept=".pdf,.csv,.txt,.xlsx,.xls" disabled={!!controller}
+                                        onChange={e => { addFiles(e.target.files); e.target.value = ''; }} className="text-xs" />
+                                    <p>{documents.length} arquivo(s) com análise no histórico.</p>
+                                    {unmatched.length > 0 && <p className="text-amber-600">Sem análise salva correspondente: {unmatched.join(', ')}.</p>}
+                                </div>
+                            ) : (
+                                <p className="text-xs text-slate-500">A narrativa é refeita sobre as análises salvas: {subjects.length} disponível(is) no histórico.</p>
+                            )}
+                            <div className="flex items-end gap-3">
+                                <label className="text-xs text-slate-500">
+                                    <span className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1">Amostra</span>
+                                    <input type="number" min={1} max={MAX_SAMPLE_SIZE} value={sampleSize} disabled={!!controller}
+                                        onChange={e => setSampleSize(Math.max(1, Math.min(MAX_SAMPLE_SIZE, Number(e.target.value) || 1)))}
+                                        className="w-20 px-3 py-1.5 bg-white dark:bg-slate-800 border-transparent focus:ring-2 focus:ring-blue-500 rounded-lg text-sm font-mono text-right" />
+                                </label>
+                                {controller ? (
+                                    <button onClick={() => controller.abort()} className="px-4 py-1.5 border border-red-300 text-red-600 rounded-lg text-xs font-bold hover:bg-red-50">
+                                        Cancelar{progress && ` (${progress.done}/${progress.total})`}
+                                    </button>
+                                ) : (
+                                    <button onClick={run} disabled={subjects.length === 0}
+                                        className="px-4 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-xs font-bold disabled:opacity-40">
+                                        Executar teste em {Math.min(sampleSize, subjects.length)} análise(s)
+                                    </button>
+                                )}
+                            </div>
+                            <p className="text-[10px] text-slate-400">Cada análise da amostra roda as duas versões; o consumo entra no relatório de consumo.</p>
+                            {error && <p className="text-xs text-red-600 font-bold">{error}</p>}
+                        </div>
+                    )}
+
+                    {/* LATEST RESULT */}
+                    {latest && latestSummary && (
+                        <div className="space-y-3">
+                            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                                Último teste · {new Date(latest.ran_at).toLocaleString('pt-BR')}
+                            </p>
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400 text-left">
+                                        <th className="py-2"></th>
+                                        <th className="py-2 text-right font-mono normal-case">{latest.baseline_version} (padrão)</th>
+                                        <th className="py-2 text-right font-mono normal-case">{latest.candidate_version}</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y dark:divide-slate-700">
+                                    {summaryLines(latest.kind).map(line => (
+                                        <tr key={line.label} className="text-slate-700 dark:text-slate-200">
+                                            <td className="py-2">{line.label}</td>
+                                            <td className="py-2 text-right font-mono">{line.value(latestSummary.baseline)}</td>
+                                            <td className="py-2 text-right font-mono font-bold">{line.value(latestSummary.candidate)}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <div className="divide-y dark:divide-slate-700 text-xs">
+                                {latest.rows.map(row => (
+                                    <div key={row.history_id} className="py-2">
+                                        <p className="font-bold text-slate-700 dark:text-slate-200 truncate" title={row.file_name}>{row.company_name || 'Empresa não informada'} · {row.file_name}</p>
+                                        <p className="text-slate-500"><span className="font-mono">{latest.baseline_version}</span>: {describeRun(latest.kind, row.baseline, row.reference_accounts)}</p>
+                                        <p className="text-slate-500"><span className="font-mono">{latest.candidate_version}</span>: {describeRun(latest.kind, row.candidate, row.reference_accounts)}</p>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PromptLab;
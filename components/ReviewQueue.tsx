@@ -0,0 +1,167 @@
+import React, { useMemo, useState } from 'react';
+import { AnalysisResult, ExtractedAccount } from '../types';
+import { CONFIDENCE_SIGNAL_LABELS, ReviewDecision, applyReviewDecisions, isDoubtful } from '../services/confidenceService';
+import { parseFinancialNumber } from '../services/parsingService';
+
+interface Props {
+    result: AnalysisResult;
+    fileName: string;
+    onComplete: (result: AnalysisResult) => void;
+    onCancel: () => void;
+}
+
+type Draft = { code: string, name: string, initial: string, debit: string, credit: string, final: string };
+
+const formatNumber = (val: number) => val.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+const toDraft = (acc: ExtractedAccount): Draft => ({
+    code: acc.account_code || '',
+    name: acc.account_name,
+    initial: formatNumber(acc.initial_balance),
+    debit: formatNumber(acc.debit_value),
+    credit: formatNumber(acc.credit_value),
+    final: formatNumber(acc.final_balance)
+});
+
+const ReviewQueue: React.FC<Props> = ({ result, fileName, onComplete, onCancel }) => {
+    const queue = useMemo(
+        () => result.accounts.map((acc, idx) => ({ acc, idx })).filter(({ acc }) => isDoubtful(acc)),
+        [result]
+    );
+    const [decisions, setDecisions] = useState<Record<number, ReviewDecision>>({});
+    const [editing, setEditing] = useState<{ idx: number, draft: Draft } | null>(null);
+
+    const decide = (idx: number, decision: ReviewDecision) => setDecisions(prev => ({ ...prev, [idx]: decision }));
+    const pending = queue.filter(({ idx }) => !decisions[idx]).length;
+
+    const saveEdit = () => {
+        if (!editing) return;
+        const { draft } = editing;
+        decide(editing.idx, {
+            action: 'edit',
+            account_code: draft.code.trim(),
+            account_name: draft.name.trim() || result.accounts[editing.idx].account_name,
+            initial_balance: parseFinancialNumber(draft.initial),
+            debit_value: parseFinancialNumber(draft.debit),
+            credit_value: parseFinancialNumber(draft.credit),
+            final_balance: parseFinancialNumber(draft.final)
+        });
+        setEditing(null);
+    };
+
+    const acceptRemaining = () => {
+        const next = { ...decisions };
+        queue.forEach(({ idx }) => { if (!next[idx]) next[idx] = { action: 'accept' }; });
+        setDecisions(next);
+    };
+
+    const decisionLabel = (d: ReviewDecision | undefined) =>
+        !d ? null : d.action === 'accept' ? 'Aceita' : d.action === 'discard' ? 'Descartada' : 'Corrigida';
+
+    const inputClass = "w-full p-1.5 border rounded text-xs font-mono dark:bg-slate-700 dark:text-white dark:border-slate-600";
+
+    return (
+        <div className="space-y-6 animate-fadeIn">
+            <div className="flex flex-col md:flex-row justify-between md:items-center bg-white dark:bg-slate-800 p-4 rounded-xl shadow-sm border dark:border-slate-700 gap-4">
+                <div>
+                    <h2 className="text-xl font-bold text-slate-800 dark:text-white">Revisão de linhas duvidosas</h2>
+                    <p className="text-sm text-slate-500">
+                        {fileName} · {queue.length} de {result.accounts.length} linha(s) com baixa confiança na extração. Confira cada uma antes de concluir a análise.
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={onCancel} className="px-4 py-2 border rounded hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300">Cancelar</button>
+                    <button onClick={acceptRemaining} disabled={pending === 0} className="px-4 py-2 border rounded hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 disabled:opacity-50">Aceitar restantes</button>
+                    <button
+                        onClick={() => onComplete(applyReviewDecisions(result, decisions))}
+                        disabled={pending > 0 || editing !== null}
+                        className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 font-bold"
+                    >
+                        {pending > 0 ? `${pending} pendente(s)` : 'Concluir análise'}
+                    </button>
+                </div>
+            </div>
+
+            <div className="space-y-3">
+                {queue.map(({ acc, idx }) => {
+                    const decision = decisions[idx];
+                    const isEditing = editing?.idx === idx;
+                    return (
+                        <div key={idx} className={`bg-white dark:bg-slate-800 rounded-xl shadow-sm border dark:border-slate-700 p-4 ${decision ? 'opacity-60' : ''}`}>
+                            <div className="flex flex-col md:flex-row justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="font-bold text-slate-800 dark:text-white truncate">
+                                        <span className="font-mono text-xs text-slate-500 mr-2">{acc.account_code}</span>
+                                        {acc.account_name}
+                                    </p>
+                                    <div className="flex flex-wrap gap-2 mt-2">
+                                        <span className="text-[10px] font-black px-2 py-0.5 rounded bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300">
+                                            Confiança {Math.round((acc.confidence || 0) * 100)}%
+                                        </span>
+                                        {(acc.confidence_signals || []).map(s => (
+                                            <span key={s} className="text-[10px] font-bold px-2 py-0.5 rounded bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300">{CONFIDENCE_SIGNAL_LABELS[s]}</span>
+                                        ))}
+                                        {decision && <span className="text-[10px] font-black px-2 py-0.5 rounded bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300">{decisionLabel(decision)}</span>}
+                                    </div>
+                                    {acc.provenance && (
+                                        <pre className="mt-2 whitespace-pre-wrap break-all font-mono text-[11px] bg-slate-50 dark:bg-slate-900 p-2 rounded border dark:border-slate-700 text-slate-600 dark:text-slate-400">
+                                            {acc.provenance.pages.length > 0 && `p. ${acc.provenance.pages.join(', ')} · `}{acc.provenance.raw_line}
+                                        </pre>
+                                    )}
+                                </div>
+                                <div className="flex md:flex-col gap-2 shrink-0">
+                                    {decision ? (
+                                        <button onClick={() => setDecisions(prev => { const next = { ...prev }; delete next[idx]; return next; })} className="px-3 py-1.5 border rounded text-xs text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700">Desfazer</button>
+                                    ) : (
+                                        <>
+                                            <button onClick={() => decide(idx, { action: 'accept' })} className="px-3 py-1.5 bg-emerald-600 hover:bg-emerald-700 text-white rounded text-xs font-bold">Aceitar</button>
+                                            <button onClick={() => setEditing({ idx, draft: toDraft(acc) })} disabled={editing !== null} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs font-bold disabled:opacity-50">Editar</button>
+                                            <button onClick={() => decide(idx, { action: 'discard' })} className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white rounded text-xs font-bold">Descartar</button>
+                                        </>
+                                    )}
+                                </div>
+                            </div>
+
+                            {isEditing && editing ? (
+                                <div className="mt-3 grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+                                    {([
+                                        ['code', 'Código'], ['name', 'Conta'], ['initial', 'Saldo Anterior'],
+                                        ['debit', 'Débito'], ['credit', 'Crédito'], ['final', 'Saldo Atual']
+                                    ] as [keyof Draft, string][]).map(([field, label]) => (
+                                        <label key={field} className="text-[10px] font-bold uppercase text-slate-400">
+                                            {label}
+                                            <input
+                                                value={editing.draft[field]}
+                                                onChange={e => setEditing({ idx, draft: { ...editing.draft, [field]: e.target.value } })}
+                                                className={inputClass}
+                                            />
+                                        </label>
+                                    ))}
+                                    <div className="col-span-2 md:col-span-6 flex justify-end gap-2">
+                                        <button onClick={() => setEditing(null)} className="px-3 py-1.5 border rounded text-xs text-slate-600 dark:text-slate-300">Cancelar</button>
+                                        <button onClick={saveEdit} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded text-xs font-bold">Salvar correção</button>
+                                    </div>
+                                </div>
+                            ) : (
+                                <div className="mt-3 grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+                                    {[
+                                        { label: 'Saldo Anterior', value: acc.initial_balance }, { label: 'Débito', value: acc.debit_value },
+                                        { label: 'Crédito', value: acc.credit_value }, { label: 'Saldo Atual', value: acc.final_balance }
+                                    ].map(v => (
+                                        <div key={v.label}>
+                                            <p className="text-[10px] font-bold uppercase text-slate-400">{v.label}</p>
+                                            <p className="font-mono text-slate-700 dark:text-slate-200">{formatCurrency(v.value)}</p>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default ReviewQueue;
@@ -0,0 +1,129 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { UsageEntry } from '../types';
+import { UsageGrouping, formatMonthKey, formatTokens, formatUsd, groupUsage, monthSpend } from '../services/usageService';
+
+interface Props {
+    isOpen: boolean;
+    onClose: () => void;
+    entries: UsageEntry[];
+    budget: number; // US$ per month; 0 = no budget
+    onBudgetChange: (value: number) => void;
+}
+
+const GROUPINGS: { id: UsageGrouping, label: string }[] = [
+    { id: 'collaborator', label: 'Colaborador' },
+    { id: 'company', label: 'Empresa' },
+    { id: 'month', label: 'Mês' }
+];
+
+const UsageReport: React.FC<Props> = ({ isOpen, onClose, entries, budget, onBudgetChange }) => {
+    const [grouping, setGrouping] = useState<UsageGrouping>('collaborator');
+    const [budgetInput, setBudgetInput] = useState('');
+
+    useEffect(() => {
+        if (isOpen) setBudgetInput(budget > 0 ? budget.toLocaleString('pt-BR') : '');
+    }, [isOpen, budget]);
+
+    const groups = useMemo(() => groupUsage(entries, grouping), [entries, grouping]);
+    const spent = useMemo(() => monthSpend(entries), [entries]);
+    const share = budget > 0 ? Math.min(spent / budget, 1) : 0;
+
+    const saveBudget = () => {
+        const value = Number(budgetInput.replace(/\./g, '').replace(',', '.'));
+        onBudgetChange(Number.isFinite(value) && value > 0 ? value : 0);
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+            <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={onClose} />
+            <div className="relative w-full max-w-2xl max-h-[85vh] flex flex-col bg-white dark:bg-slate-800 rounded-2xl shadow-2xl border dark:border-slate-700">
+                <div className="px-6 py-5 border-b dark:border-slate-700 flex items-center justify-between">
+                    <div>
+                        <h2 className="text-xl font-bold text-slate-800 dark:text-white">Consumo de IA</h2>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">Tokens e custo estimado das chamadas ao modelo</p>
+                    </div>
+                    <button onClick={onClose} className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-full transition-colors">
+                        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </div>
+
+                {/* BUDGET */}
+                <div className="px-6 py-4 border-b dark:border-slate-700 space-y-3">
+                    <div className="flex items-end justify-between gap-4">
+                        <div>
+                            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Gasto neste mês</p>
+                            <p className="text-2xl font-black text-slate-800 dark:text-white">{formatUsd(spent)}</p>
+                        </div>
+                        <div className="flex items-end gap-2">
+                            <label className="text-xs text-slate-500">
+                                <span className="block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1">Orçamento mensal (US$)</span>
+                                <input
+                                    type="text" inputMode="decimal" placeholder="Sem limite"
+                                    value={budgetInput} onChange={e => setBudgetInput(e.target.value)}
+                                    onKeyDown={e => { if (e.key === 'Enter') saveBudget(); }}
+                                    className="w-32 px-3 py-1.5 bg-slate-100 dark:bg-slate-900 border-transparent focus:ring-2 focus:ring-blue-500 rounded-lg text-sm font-mono text-right"
+                                />
+                            </label>
+                            <button onClick={saveBudget} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-xs font-bold">Salvar</button>
+                        </div>
+                    </div>
+                    {budget > 0 && (
+                        <div>
+                            <div className="h-2 rounded-full bg-slate-100 dark:bg-slate-900 overflow-hidden">
+                                <div className={`h-full ${spent > budget ? 'bg-red-500' : share > 0.8 ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${share * 100}%` }} />
+                            </div>
+                            <p className={`text-xs mt-1 ${spent > budget ? 'text-red-600 font-bold' : 'text-slate-500'}`}>
+                                {spent > budget ? `Orçamento ultrapassado em ${formatUsd(spent - budget)}` : `${formatUsd(budget - spent)} disponíveis de ${formatUsd(budget)}`}
+                            </p>
+                        </div>
+                    )}
+                </div>
+
+                {/* REPORT */}
+                <div className="px-6 pt-4 flex bg-white dark:bg-slate-800">
+                    <div className="flex bg-slate-100 dark:bg-slate-900 rounded-lg p-1">
+                        {GROUPINGS.map(g => (
+                            <button key={g.id} onClick={() => setGrouping(g.id)}
+                                className={`px-4 py-1.5 text-xs font-bold rounded-md transition-all ${grouping === g.id ? 'bg-white dark:bg-slate-800 text-blue-600 shadow-sm' : 'text-slate-500'}`}>
+                                {g.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="flex-1 overflow-y-auto px-6 py-4">
+                    {groups.length === 0 ? (
+                        <p className="text-sm text-slate-500 text-center py-10">Nenhum consumo registrado ainda.</p>
+                    ) : (
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-[10px] font-black uppercase tracking-widest text-slate-400 text-left">
+                                    <th className="py-2">{GROUPINGS.find(g => g.id === grouping)?.label}</th>
+                                    <th className="py-2 text-right">Análises</th>
+                                    <th className="py-2 text-right">Chamadas</th>
+                                    <th className="py-2 text-right">Tokens (entrada / saída)</th>
+                                    <th className="py-2 text-right">Custo</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y dark:divide-slate-700">
+                                {groups.map(group => (
+                                    <tr key={group.key} className="text-slate-700 dark:text-slate-200">
+                                        <td className="py-2 font-bold truncate max-w-[200px]" title={group.key}>{grouping === 'month' ? formatMonthKey(group.key) : group.key}</td>
+                                        <td className="py-2 text-right font-mono">{group.analyses}</td>
+                                        <td className="py-2 text-right font-mono">{group.totals.calls}</td>
+                                        <td className="py-2 text-right font-mono">{formatTokens(group.totals.input_tokens)} / {formatTokens(group.totals.output_tokens)}</td>
+                                        <td className="py-2 text-right font-mono font-bold">{formatUsd(group.totals.cost_usd)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    <p className="text-[10px] text-slate-400 mt-4">Custo estimado pela tabela de preços dos modelos; modelos sem preço cadastrado contam apenas tokens. Conversas no chat, comparações e testes de prompt entram no consumo, mas não na contagem de análises.</p>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default UsageReport;
@@ -0,0 +1,33 @@
+import http from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+// Tokens are compared as digests so the comparison takes the same time whatever the token length
+const digest = (token: string) => createHash('sha256').update(token).digest();
+
+/**
+ * Integration clients of the REST API, from API_TOKENS: "erp=token1,workflow=token2".
+ * Returns the client a request authenticates as (Authorization: Bearer <token>), or
+ * null. Without API_TOKENS nobody gets in.
+ */
+export const createTokenAuthenticator = (value: string | undefined) => {
+    const clients: { name: string, digest: Buffer }[] = [];
+    (value || '').split(',').forEach((pair, index) => {
+        if (!pair.trim()) return;
+        const separator = pair.indexOf('=');
+        const name = pair.slice(0, separator).trim();
+        const token = pair.slice(separator + 1).trim();
+        // An entry without a name would otherwise become a credential of its own; its value is never printed
+        if (separator <= 0 || !name || !token) {
+            console.warn(`API_TOKENS entry ${index + 1} ignored: expected name=token`);
+            return;
+        }
+        clients.push({ name, digest: digest(token) });
+    });
+
+    return (req: http.IncomingMessage): string | null => {
+        const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '');
+        if (!match) return null;
+        const presented = digest(match[1]);
+        return clients.find(c => timingSafeEqual(c.digest, presented))?.name ?? null;
+    };
+};
@@ -0,0 +1,51 @@
+import { existsSync, mkdirSync, readFileSync } from 'node:fs';
+import { rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { HistoryItem } from '../types';
+import { onlyDigits } from '../services/documentMetadataService';
+
+interface StoredAnalysis {
+    client: string; // API client that submitted it; other clients do not see it
+    item: HistoryItem; // Always with fullResult
+}
+
+export interface HistoryStore {
+    add: (client: string, item: HistoryItem) => void;
+    get: (client: string, id: string) => HistoryItem | undefined;
+    // Newest first
+    list: (client: string, filter?: { cnpj?: string }) => HistoryItem[];
+}
+
+/**
+ * The API's counterpart of the browser history: analyses kept in one JSON file
+ * under `dir`, rewritten after every change. Writes are chained so two finishing
+ * jobs never interleave.
+ */
+export const createFileHistoryStore = (dir: string): HistoryStore => {
+    const file = path.join(dir, 'analyses.json');
+    mkdirSync(dir, { recursive: true });
+    let entries: StoredAnalysis[] = existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : [];
+    let writing = Promise.resolve();
+
+    const persist = () => {
+        const snapshot = JSON.stringify(entries);
+        writing = writing
+            .then(async () => {
+                await writeFile(`${file}.tmp`, snapshot);
+                await rename(`${file}.tmp`, file);
+            })
+            .catch(e => console.error("Could not save the API history", e));
+    };
+
+    return {
+        add: (client, item) => {
+            entries = [{ client, item }, ...entries];
+            persist();
+        },
+        get: (client, id) => entries.find(e => e.client === client && e.item.id === id)?.item,
+        list: (client, filter = {}) => entries
+            .filter(e => e.client === client)
+            .filter(e => !filter.cnpj || onlyDigits(e.item.headerData.cnpj) === onlyDigits(filter.cnpj))
+            .map(e => e.item)
+    };
+};
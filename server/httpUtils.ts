@@ -0,0 +1,42 @@
+import http from 'node:http';
+import { isRateLimited } from '../services/rateLimitService';
+
+// Cloud Run refuses bigger requests anyway; a scanned PDF in base64 fits well below it
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+
+// The status travels with the error and becomes the response status
+export const httpError = (status: number, message: string): Error => Object.assign(new Error(message), { status });
+
+export const sendJson = (res: http.ServerResponse, status: number, payload: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(payload));
+};
+
+export const readBody = (req: http.IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(httpError(413, "Arquivo grande demais para enviar à IA."));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+});
+
+export const readJson = async <T>(req: http.IncomingMessage): Promise<T> => {
+    const raw = await readBody(req);
+    try { return JSON.parse(raw); }
+    catch { throw httpError(400, "Corpo da requisição não é um JSON válido."); }
+};
+
+// Upstream statuses are passed on so the browser's backoff treats them as before
+export const statusOf = (error: any): number => {
+    const status = Number(error?.status || error?.code);
+    if (status >= 400 && status < 600) return status;
+    return isRateLimited(error) ? 429 : 502;
+};
@@ -0,0 +1,138 @@
+import http from 'node:http';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { configureLlm, modelForTask, LlmRequest, LlmTask } from '../services/llmProvider';
+import { ProxyRequestBody, ProxyStreamEvent, TASK_ENDPOINTS } from '../services/proxyProvider';
+import { createUpstreamProvider } from './upstreamProvider';
+import { createSessionRateLimiter } from './sessionRateLimiter';
+import { isAppRequest } from './promptGuard';
+import { httpError, readJson, sendJson, statusOf } from './httpUtils';
+import { handleRestApi } from './restApi';
+
+const PORT = Number(process.env.PORT) || 8080;
+const DIST_DIR = fileURLToPath(new URL('../dist/', import.meta.url));
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8', '.js': 'text/javascript', '.css': 'text/css', '.json': 'application/json',
+    '.svg': 'image/svg+xml', '.png': 'image/png', '.jpg': 'image/jpeg', '.ico': 'image/x-icon',
+    '.woff2': 'font/woff2', '.mjs': 'text/javascript', '.wasm': 'application/wasm'
+};
+
+const upstream = createUpstreamProvider();
+// Analyses run through the REST API call the model from here, without the proxy hop
+configureLlm({ provider: upstream });
+const limiter = createSessionRateLimiter({
+    perMinute: Number(process.env.RATE_LIMIT_PER_MINUTE) || 60,
+    globalPerMinute: Number(process.env.RATE_LIMIT_GLOBAL_PER_MINUTE) || 600
+});
+// Proxies in front of the server that append the caller to X-Forwarded-For (Cloud Run: 1)
+const TRUST_PROXY_HOPS = Number(process.env.TRUST_PROXY_HOPS) || 0;
+
+const ENDPOINT_TASKS = new Map<string, LlmTask[]>();
+(Object.entries(TASK_ENDPOINTS) as [LlmTask, string][]).forEach(([task, endpoint]) => {
+    ENDPOINT_TASKS.set(endpoint, [...(ENDPOINT_TASKS.get(endpoint) || []), task]);
+});
+
+const validateRequest = (body: ProxyRequestBody, endpoint: string): ProxyRequestBody => {
+    if (!ENDPOINT_TASKS.get(endpoint)?.includes(body?.task) || !Array.isArray(body.parts)) {
+        throw httpError(400, `Requisição inválida para /api/${endpoint}.`);
+    }
+    if (!isAppRequest(body)) throw httpError(400, 'A requisição não corresponde a um prompt do aplicativo.');
+    return body;
+};
+
+// The caller's address as the trusted proxies saw it; entries further left are whatever the caller sent
+const clientAddress = (req: http.IncomingMessage): string => {
+    const forwarded = String(req.headers['x-forwarded-for'] || '').split(',').map(a => a.trim()).filter(Boolean);
+    if (TRUST_PROXY_HOPS > 0 && forwarded.length > 0) return forwarded[Math.max(0, forwarded.length - TRUST_PROXY_HOPS)];
+    return req.socket.remoteAddress || 'unknown';
+};
+
+/**
+ * One model call on behalf of the browser, only for prompts the app builds
+ * (server/promptGuard.ts). The model comes from the server's LLM_MODELS, never
+ * from the request. With `stream`, the answer is sent as
+ * newline-delimited JSON events (services/proxyProvider.ts reads them).
+ */
+const handleModelCall = async (req: http.IncomingMessage, res: http.ServerResponse, endpoint: string) => {
+    // Keyed on the address, not on anything the caller chooses, so a new id per call buys nothing
+    const waitMs = limiter.take(clientAddress(req));
+    if (waitMs > 0) {
+        const seconds = Math.ceil(waitMs / 1000);
+        sendJson(res, 429, { error: `Limite de chamadas à IA atingido. Tente de novo em ${seconds}s.` }, { 'Retry-After': String(seconds) });
+        return;
+    }
+
+    const body = validateRequest(await readJson<ProxyRequestBody>(req), endpoint);
+    const controller = new AbortController();
+    // The browser gave up (cancel, timeout, closed tab): stop paying for the answer
+    res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+
+    const model = modelForTask(body.task);
+    const request: LlmRequest = {
+        task: body.task, model, parts: body.parts, systemInstruction: body.systemInstruction, history: body.history,
+        temperature: body.temperature, maxOutputTokens: body.maxOutputTokens, json: body.json,
+        responseSchema: body.responseSchema, webSearch: body.webSearch, signal: controller.signal
+    };
+
+    if (!body.stream) {
+        const response = await upstream.generate(request);
+        sendJson(res, 200, { ...response, model });
+        return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+    const send = (event: ProxyStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+    let sent = '';
+    const forward = (text: string) => {
+        if (text.length > sent.length) send({ delta: text.slice(sent.length) });
+        sent = text;
+    };
+    try {
+        const response = await upstream.generate({ ...request, onText: forward });
+        forward(response.text); // Providers that cannot stream only answer at the end
+        send({ done: { ...response, model } });
+    } catch (error: any) {
+        if (!controller.signal.aborted) send({ error: { message: error?.message || 'Erro do provedor.', status: statusOf(error) } });
+    }
+    res.end();
+};
+
+const serveStatic = async (res: http.ServerResponse, urlPath: string) => {
+    const file = path.resolve(DIST_DIR, `.${decodeURIComponent(urlPath)}`);
+    const isAsset = file.startsWith(DIST_DIR) && path.extname(file) !== '';
+    try {
+        const content = await readFile(isAsset ? file : path.join(DIST_DIR, 'index.html'));
+        res.writeHead(200, {
+            'Content-Type': CONTENT_TYPES[isAsset ? path.extname(file) : '.html'] || 'application/octet-stream',
+            // Vite fingerprints everything under /assets; index.html must always be fresh
+            'Cache-Control': urlPath.startsWith('/assets/') ? 'public, max-age=31536000, immutable' : 'no-cache'
+        });
+        res.end(content);
+    } catch {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found');
+    }
+};
+
+const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const { pathname } = url;
+    const apiMatch = pathname.match(/^\/api\/([\w-]+)\/?$/);
+
+    try {
+        if (pathname === '/api/v1' || pathname.startsWith('/api/v1/')) { await handleRestApi(req, res, url); return; }
+        if (pathname === '/api/health') { sendJson(res, 200, { ok: true, provider: upstream.name }); return; }
+        if (apiMatch && req.method === 'POST' && ENDPOINT_TASKS.has(apiMatch[1])) { await handleModelCall(req, res, apiMatch[1]); return; }
+        if (pathname.startsWith('/api/')) { sendJson(res, 404, { error: 'Rota não encontrada.' }); return; }
+        await serveStatic(res, pathname);
+    } catch (error: any) {
+        const status = statusOf(error);
+        if (status >= 500) console.warn(`${req.method} ${pathname} failed:`, error?.message || error);
+        if (!res.headersSent) sendJson(res, status, { error: error?.message || 'Erro interno.' });
+        else res.end();
+    }
+});
+
+server.listen(PORT, () => console.log(`AuditAI server on port ${PORT} (model provider: ${upstream.name})`));
@@ -0,0 +1,108 @@
+import { randomUUID } from 'node:crypto';
+import { ExtractionProgress, HeaderData, PrivacySettings } from '../types';
+import { isCancelled } from '../services/cancellationService';
+import { httpError } from './httpUtils';
+
+// Finished jobs kept for polling; the analyses themselves live in the history store
+const MAX_FINISHED_JOBS = 500;
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface AnalysisJob {
+    id: string;
+    client: string;
+    status: JobStatus;
+    file_name: string;
+    created_at: string;
+    started_at?: string;
+    finished_at?: string;
+    progress?: ExtractionProgress;
+    error?: string;
+    analysis_id?: string; // Set when done
+}
+
+export interface JobInput {
+    file_name: string;
+    mime_type: string;
+    content_base64: string;
+    header: HeaderData;
+    privacy: PrivacySettings;
+}
+
+export interface JobQueue {
+    submit: (client: string, input: JobInput) => AnalysisJob;
+    get: (client: string, id: string) => AnalysisJob | undefined;
+    cancel: (client: string, id: string) => AnalysisJob | undefined;
+}
+
+/**
+ * The API's analysis queue, one document at a time like the browser's batch
+ * queue. `process` returns the id of the saved analysis. Jobs live in memory
+ * only: a restart drops the ones still waiting. Waiting jobs hold their whole
+ * document, so their number is capped per client and in total; `submit`
+ * throws a 429 when the queue is full.
+ */
+export const createJobQueue = (options: {
+    process: (job: AnalysisJob, input: JobInput, signal: AbortSignal, onProgress: (progress: ExtractionProgress) => void) => Promise<string>,
+    maxQueuedPerClient: number,
+    maxQueued: number
+}): JobQueue => {
+    const jobs = new Map<string, { job: AnalysisJob, input?: JobInput, controller?: AbortController }>();
+    let running = false;
+
+    const finish = (entry: { job: AnalysisJob, input?: JobInput }, patch: Partial<AnalysisJob>) => {
+        Object.assign(entry.job, patch, { finished_at: new Date().toISOString() });
+        entry.input = undefined; // The document is not needed any more
+        const finished = [...jobs.values()].filter(e => e.job.finished_at);
+        finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach(e => jobs.delete(e.job.id));
+    };
+
+    const run = async () => {
+        if (running) return;
+        running = true;
+        let next: ReturnType<typeof jobs.get>;
+        while ((next = [...jobs.values()].find(e => e.job.status === 'queued'))) {
+            const entry = next;
+            const controller = new AbortController();
+            entry.controller = controller;
+            // The entry outlives the analysis for polling; the document only lives as long as the analysis
+            const input = entry.input!;
+            entry.input = undefined;
+            Object.assign(entry.job, { status: 'running', started_at: new Date().toISOString() });
+            try {
+                const analysisId = await options.process(entry.job, input, controller.signal, progress => { entry.job.progress = progress; });
+                finish(entry, { status: 'done', analysis_id: analysisId });
+            } catch (e: any) {
+                finish(entry, isCancelled(e) ? { status: 'cancelled' } : { status: 'failed', error: e?.message || 'Erro na análise.' });
+            }
+            entry.controller = undefined;
+        }
+        running = false;
+    };
+
+    const find = (client: string, id: string) => {
+        const entry = jobs.get(id);
+        return entry?.job.client === client ? entry : undefined;
+    };
+
+    return {
+        submit: (client, input) => {
+            const queued = [...jobs.values()].filter(e => e.job.status === 'queued');
+            if (queued.filter(e => e.job.client === client).length >= options.maxQueuedPerClient) {
+                throw httpError(429, `Limite de ${options.maxQueuedPerClient} documentos na fila atingido. Aguarde o término dos anteriores.`);
+            }
+            if (queued.length >= options.maxQueued) throw httpError(429, 'A fila de análises está cheia. Tente de novo em alguns minutos.');
+            const job: AnalysisJob = { id: randomUUID(), client, status: 'queued', file_name: input.file_name, created_at: new Date().toISOString() };
+            jobs.set(job.id, { job, input });
+            run();
+            return job;
+        },
+        get: (client, id) => find(client, id)?.job,
+        cancel: (client, id) => {
+            const entry = find(client, id);
+            if (entry?.job.status === 'queued') finish(entry, { status: 'cancelled' });
+            if (entry?.job.status === 'running') entry.controller?.abort();
+            return entry?.job;
+        }
+    };
+};
@@ -0,0 +1,299 @@
+// OpenAPI description of the REST API in server/restApi.ts, served at /api/v1/openapi.json
+
+const json = (schema: Record<string, unknown>, description: string) => ({
+    description,
+    content: { 'application/json': { schema } }
+});
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const errorResponse = (description: string) => json(ref('Error'), description);
+const idsBody = (min: number, max: number, extra: Record<string, unknown> = {}) => ({
+    required: true,
+    content: {
+        'application/json': {
+            schema: {
+                type: 'object',
+                required: ['analysis_ids'],
+                properties: { analysis_ids: { type: 'array', items: { type: 'string' }, minItems: min, maxItems: max }, ...extra }
+            }
+        }
+    }
+});
+
+// Balances are magnitudes with the side in `type`, as buildAccount and the SPED reader return them; DRE lines are signed
+const balance = { type: 'number', description: 'Valor em reais, sem sinal: o lado (devedor ou credor) é dado por `type`. Um valor negativo só reproduz o sinal impresso no documento' };
+const statementBalance = {
+    type: 'number',
+    description: 'Valor em reais. Em balanços e balancetes, como initial_balance: sem sinal, com o lado dado por `type`. '
+        + 'Em DREs, com sinal: receitas (linhas credoras) positivas, custos e despesas (linhas devedoras) negativos'
+};
+
+export const OPENAPI_DOCUMENT = {
+    openapi: '3.0.3',
+    info: {
+        title: 'AuditAI — API de análise contábil',
+        version: '1.0.0',
+        description: 'Envio de balancetes, balanços, DREs e arquivos SPED ECD para análise, com o mesmo pipeline do aplicativo. '
+            + 'A análise é assíncrona: o envio devolve uma tarefa, que é consultada até terminar e aponta para a análise salva.'
+    },
+    servers: [{ url: '/api/v1' }],
+    security: [{ bearerAuth: [] }],
+    paths: {
+        '/analyses': {
+            post: {
+                summary: 'Envia um documento para análise',
+                requestBody: { required: true, content: { 'application/json': { schema: ref('AnalysisRequest') } } },
+                responses: {
+                    202: json(ref('Job'), 'Tarefa criada; acompanhe em /jobs/{id} (cabeçalho Location)'),
+                    400: errorResponse('Campos obrigatórios ausentes'),
+                    401: errorResponse('Token ausente ou inválido'),
+                    413: errorResponse('Arquivo grande demais'),
+                    415: errorResponse('Tipo de arquivo não suportado'),
+                    429: errorResponse('Fila cheia: o cliente ou o servidor já tem o máximo de documentos aguardando')
+                }
+            },
+            get: {
+                summary: 'Lista as análises salvas do cliente, da mais recente para a mais antiga',
+                parameters: [{ name: 'cnpj', in: 'query', required: false, schema: { type: 'string' }, description: 'Filtra pelo CNPJ (com ou sem máscara)' }],
+                responses: {
+                    200: json({ type: 'object', properties: { analyses: { type: 'array', items: ref('AnalysisSummaryView') } } }, 'Análises'),
+                    401: errorResponse('Token ausente ou inválido')
+                }
+            }
+        },
+        '/analyses/{id}': {
+            get: {
+                summary: 'Devolve uma análise com o resultado completo',
+                parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+                responses: {
+                    200: json(ref('Analysis'), 'Análise'),
+                    401: errorResponse('Token ausente ou inválido'),
+                    404: errorResponse('Análise não encontrada')
+                }
+            }
+        },
+        '/jobs/{id}': {
+            get: {
+                summary: 'Consulta o andamento de uma tarefa de análise',
+                parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+                responses: {
+                    200: json(ref('Job'), 'Tarefa'),
+                    401: errorResponse('Token ausente ou inválido'),
+                    404: errorResponse('Tarefa não encontrada')
+                }
+            },
+            delete: {
+                summary: 'Cancela uma tarefa na fila ou em andamento',
+                parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+                responses: {
+                    200: json(ref('Job'), 'Tarefa (uma tarefa em andamento passa a "cancelled" quando a análise para)'),
+                    401: errorResponse('Token ausente ou inválido'),
+                    404: errorResponse('Tarefa não encontrada')
+                }
+            }
+        },
+        '/comparisons': {
+            post: {
+                summary: 'Compara duas análises salvas, o período mais antigo primeiro',
+                requestBody: idsBody(2, 2),
+                responses: {
+                    200: json(ref('ComparisonResult'), 'Comparação conta a conta'),
+                    400: errorResponse('Quantidade de ids inválida'),
+                    401: errorResponse('Token ausente ou inválido'),
+                    404: errorResponse('Alguma análise não foi encontrada')
+                }
+            }
+        },
+        '/consolidations': {
+            post: {
+                summary: 'Consolida as DREs de várias empresas',
+                requestBody: idsBody(2, 50, { group_name: { type: 'string' } }),
+                responses: {
+                    200: json(ref('ConsolidationResult'), 'DRE consolidada'),
+                    400: errorResponse('Quantidade de ids inválida'),
+                    401: errorResponse('Token ausente ou inválido'),
+                    404: errorResponse('Alguma análise não foi encontrada')
+                }
+            }
+        },
+        '/openapi.json': {
+            get: {
+                summary: 'Esta descrição',
+                security: [],
+                responses: { 200: { description: 'Documento OpenAPI' } }
+            }
+        }
+    },
+    components: {
+        securitySchemes: {
+            bearerAuth: { type: 'http', scheme: 'bearer', description: 'Token do cliente, configurado em API_TOKENS no servidor' }
+        },
+        schemas: {
+            Error: { type: 'object', properties: { error: { type: 'string' } } },
+            AnalysisRequest: {
+                type: 'object',
+                required: ['file_name', 'content_base64'],
+                properties: {
+                    file_name: { type: 'string' },
+                    mime_type: {
+                        type: 'string', default: 'application/pdf',
+                        enum: ['application/pdf', 'text/csv', 'application/csv', 'text/plain', 'image/png', 'image/jpeg', 'image/webp'],
+                        description: 'text/plain para arquivos SPED ECD'
+                    },
+                    content_base64: { type: 'string', format: 'byte' },
+                    company_name: { type: 'string', description: 'Quando omitido, vem do cabeçalho do documento' },
+                    cnpj: { type: 'string', description: 'Quando omitido, vem do cabeçalho do documento' },
+                    collaborator_name: { type: 'string', description: 'Padrão: o nome do cliente da API' },
+                    allow_images: { type: 'boolean', default: true, description: 'false impede o envio de páginas digitalizadas e imagens à IA' },
+                    masked_names: { type: 'array', items: { type: 'string' }, description: 'Nomes a ocultar da IA além de CPFs, CNPJs e contas bancárias' }
+                }
+            },
+            Job: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string' },
+                    status: { type: 'string', enum: ['queued', 'running', 'done', 'failed', 'cancelled'] },
+                    file_name: { type: 'string' },
+                    created_at: { type: 'string', format: 'date-time' },
+                    started_at: { type: 'string', format: 'date-time' },
+                    finished_at: { type: 'string', format: 'date-time' },
+                    progress: {
+                        type: 'object',
+                        properties: {
+                            stage: { type: 'string', enum: ['reading', 'extracting', 'normalizing', 'narrative'] },
+                            total_pages: { type: 'integer' },
+                            done_pages: { type: 'integer' },
+                            failed_pages: { type: 'array', items: { type: 'integer' } }
+                        }
+                    },
+                    error: { type: 'string' },
+                    analysis_id: { type: 'string', description: 'Presente quando status = done' }
+                }
+            },
+            AnalysisSummaryView: {
+                type: 'object',
+                properties: {
+                    id: { type: 'string' },
+                    created_at: { type: 'string', format: 'date-time' },
+                    company_name: { type: 'string' },
+                    cnpj: { type: 'string' },
+                    collaborator_name: { type: 'string' },
+                    file_name: { type: 'string' },
+                    document_type: { type: 'string' },
+                    period: { type: 'string' },
+                    usage: ref('Usage')
+                }
+            },
+            Analysis: {
+                allOf: [ref('AnalysisSummaryView'), { type: 'object', properties: { result: ref('AnalysisResult') } }]
+            },
+            Usage: {
+                type: 'object',
+                properties: {
+                    calls: { type: 'integer' },
+                    input_tokens: { type: 'integer' },
+                    output_tokens: { type: 'integer' },
+                    cost_usd: { type: 'number' }
+                }
+            },
+            AnalysisResult: {
+                type: 'object',
+                properties: {
+                    summary: {
+                        type: 'object',
+                        properties: {
+                            document_type: { type: 'string', enum: ['Balanço Patrimonial', 'Balancete', 'DRE', 'Outro'] },
+                            period: { type: 'string' },
+                            total_debits: { type: 'number' },
+                            total_credits: { type: 'number' },
+                            is_balanced: { type: 'boolean' },
+                            discrepancy_amount: { type: 'number' },
+                            observations: { type: 'array', items: { type: 'string' } },
+                            specific_result_value: { type: 'number' },
+                            specific_result_label: { type: 'string' }
+                        }
+                    },
+                    accounts: { type: 'array', items: ref('Account') },
+                    spell_check: { type: 'array', items: { type: 'object' } },
+                    extraction_report: { type: 'object' },
+                    layout_profile: { type: 'string' },
+                    document_metadata: { type: 'object' },
+                    usage: ref('Usage'),
+                    provenance: {
+                        type: 'object',
+                        description: 'Versões que produziram o resultado; ausente em análises antigas',
+                        properties: {
+                            prompt_versions: {
+                                type: 'object',
+                                properties: { extraction: { type: 'string' }, narrative: { type: 'string' } },
+                                description: 'Só os prompts enviados: PDFs com camada de texto e SPED não usam o de extração'
+                            },
+                            models: { type: 'object', additionalProperties: { type: 'string' }, description: 'Modelo por tarefa' },
+                            parser_version: { type: 'integer' }
+                        }
+                    }
+                }
+            },
+            Account: {
+                type: 'object',
+                properties: {
+                    account_code: { type: 'string', nullable: true },
+                    account_name: { type: 'string' },
+                    initial_balance: balance,
+                    debit_value: { type: 'number' },
+                    credit_value: { type: 'number' },
+                    final_balance: statementBalance,
+                    previous_balance: { ...statementBalance, description: 'Período anterior de uma demonstração comparativa; mesma convenção de final_balance' },
+                    type: { type: 'string', enum: ['Debit', 'Credit', 'Unknown'] },
+                    level: { type: 'integer' },
+                    is_synthetic: { type: 'boolean' },
+                    possible_inversion: { type: 'boolean' },
+                    confidence: { type: 'number', minimum: 0, maximum: 1 },
+                    audit_notes: { type: 'string' }
+                }
+            },
+            ComparisonResult: {
+                type: 'object',
+                properties: {
+                    period1Label: { type: 'string' },
+                    period2Label: { type: 'string' },
+                    documentType: { type: 'string' },
+                    rows: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                code: { type: 'string' }, name: { type: 'string' },
+                                val1: { type: 'number', description: 'final_balance da conta no período anterior: sem sinal em balanços e balancetes, com sinal em DREs' },
+                                val2: { type: 'number', description: 'final_balance da conta no período mais recente, na mesma convenção de val1' },
+                                varAbs: { type: 'number' }, varPct: { type: 'number' },
+                                is_synthetic: { type: 'boolean' }, level: { type: 'integer' }
+                            }
+                        }
+                    }
+                }
+            },
+            ConsolidationResult: {
+                type: 'object',
+                properties: {
+                    groupName: { type: 'string' },
+                    generatedAt: { type: 'string', format: 'date-time' },
+                    companies: {
+                        type: 'array',
+                        items: { type: 'object', properties: { id: { type: 'string' }, name: { type: 'string' }, cnpj: { type: 'string' }, period: { type: 'string' } } }
+                    },
+                    rows: {
+                        type: 'array',
+                        items: {
+                            type: 'object',
+                            properties: {
+                                code: { type: 'string' }, name: { type: 'string' }, is_synthetic: { type: 'boolean' }, level: { type: 'integer' },
+                                values: { type: 'object', additionalProperties: { type: 'number' }, description: 'Valor por id de análise' },
+                                total: { type: 'number' }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }
+};
@@ -0,0 +1,60 @@
+import { ProxyRequestBody } from '../services/proxyProvider';
+import { EXTRACTION_RESPONSE_SCHEMA } from '../services/extractionSchema';
+import { INSIGHT_OPENINGS, PROMPT_REGISTRY, SYSTEM_INSTRUCTIONS } from '../services/promptRegistry';
+import { PLACEHOLDER_NOTE } from '../services/redactionService';
+
+// The whole-PDF extraction, the largest answer the app asks for
+const MAX_OUTPUT_TOKENS = 65000;
+const FILLED_IN = '\u0000';
+
+// What a template prints before its first filled-in value; extraction prompts take none, so all of it.
+// The stand-in input only has to answer every property read.
+const openingOf = (build: (input: never) => string): string =>
+    build(new Proxy({}, { get: () => FILLED_IN }) as never).split(FILLED_IN)[0];
+
+const EXTRACTION_OPENINGS = PROMPT_REGISTRY.extraction.map(p => openingOf(p.build));
+const NARRATIVE_OPENINGS = PROMPT_REGISTRY.narrative.map(p => openingOf(p.build));
+// requestRedactedText appends the placeholder note to every system instruction
+const withNote = (instruction: string) => `${instruction}\n${PLACEHOLDER_NOTE}`;
+const INSIGHT_INSTRUCTIONS = new Map((Object.keys(INSIGHT_OPENINGS) as (keyof typeof INSIGHT_OPENINGS)[])
+    .map(key => [withNote(SYSTEM_INSTRUCTIONS[key]), INSIGHT_OPENINGS[key]]));
+const CHAT_INSTRUCTION = withNote(SYSTEM_INSTRUCTIONS.chat);
+const EXTRACTION_SCHEMA = JSON.stringify(EXTRACTION_RESPONSE_SCHEMA);
+
+const startsWithAny = (text: string | undefined, openings: string[]) => !!text && openings.some(o => text.startsWith(o));
+
+/**
+ * Whether a proxied call is one the app builds: the registered extraction and
+ * narrative prompts under their own settings, or an insight under one of the
+ * app's system instructions and opening with that insight's prompt. Anything
+ * else would turn the server into an open model endpoint paid with its key.
+ *
+ * The chat is the exception: the analyst types the message, so any text passes
+ * under the chat instruction. That route is an open relay for whoever reaches
+ * the server, bounded only by the rate limits.
+ */
+export const isAppRequest = (body: ProxyRequestBody): boolean => {
+    if (body.maxOutputTokens !== undefined && (typeof body.maxOutputTokens !== 'number' || body.maxOutputTokens > MAX_OUTPUT_TOKENS)) return false;
+    const texts = body.parts.map(p => p?.text);
+    const files = body.parts.filter(p => p?.inlineData);
+
+    switch (body.task) {
+        case 'extraction':
+            return !body.systemInstruction && !body.history?.length && !body.webSearch
+                && JSON.stringify(body.responseSchema) === EXTRACTION_SCHEMA
+                && files.every(p => /^(image\/[\w.+-]+|application\/pdf)$/.test(p.inlineData!.mimeType))
+                && texts.some(t => startsWithAny(t, EXTRACTION_OPENINGS));
+        case 'narrative':
+            return !body.systemInstruction && !body.history?.length && !body.webSearch && !body.responseSchema
+                && body.parts.length === 1 && startsWithAny(texts[0], NARRATIVE_OPENINGS);
+        case 'insight': {
+            const opening = INSIGHT_INSTRUCTIONS.get(body.systemInstruction || '');
+            return opening !== undefined && !body.responseSchema && !body.history?.length && !body.webSearch
+                && body.parts.length === 1 && startsWithAny(texts[0], [opening]);
+        }
+        case 'chat':
+            return body.systemInstruction === CHAT_INSTRUCTION && !body.responseSchema && files.length === 0;
+        default:
+            return false;
+    }
+};
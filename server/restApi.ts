@@ -0,0 +1,147 @@
+import http from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { AnalysisResult, HistoryItem } from '../types';
+import { analyzeDocument } from '../services/geminiService';
+import { PARSER_VERSION } from '../services/parsingService';
+import { prefillHeader } from '../services/documentMetadataService';
+import { compareHistoryItems } from '../services/comparisonService';
+import { consolidateDREs } from '../services/consolidationService';
+import { periodLabel } from '../services/periodService';
+import { DEFAULT_PRIVACY } from '../services/redactionService';
+import { createTokenAuthenticator } from './apiTokens';
+import { createFileHistoryStore } from './historyStore';
+import { AnalysisJob, createJobQueue } from './jobQueue';
+import { httpError, readJson, sendJson } from './httpUtils';
+import { OPENAPI_DOCUMENT } from './openapi';
+
+// What analyzeDocument reads on its own; spreadsheets need the column mapping wizard of the app
+const SUPPORTED_TYPES = ['application/pdf', 'text/csv', 'application/csv', 'text/plain', 'image/png', 'image/jpeg', 'image/webp'];
+
+interface AnalysisRequest {
+    file_name?: string;
+    mime_type?: string;
+    content_base64?: string;
+    company_name?: string;
+    cnpj?: string;
+    collaborator_name?: string;
+    allow_images?: boolean;
+    masked_names?: string[];
+}
+
+const authenticate = createTokenAuthenticator(process.env.API_TOKENS);
+const store = createFileHistoryStore(process.env.DATA_DIR || 'data');
+
+const jobs = createJobQueue({
+    process: async (job, input, signal, onProgress) => {
+        const result = await analyzeDocument(input.content_base64, input.mime_type, { signal, onProgress, privacy: input.privacy });
+        const item: HistoryItem = {
+            id: randomUUID(), timestamp: new Date().toISOString(),
+            // Company and CNPJ left blank in the request are taken from the document header
+            headerData: prefillHeader(input.header, result.document_metadata),
+            fileName: job.file_name, summary: result.summary, fullResult: result,
+            parserVersion: PARSER_VERSION, usage: result.usage
+        };
+        store.add(job.client, item);
+        return item.id;
+    },
+    maxQueuedPerClient: Number(process.env.API_MAX_QUEUED_PER_CLIENT) || 10,
+    maxQueued: Number(process.env.API_MAX_QUEUED) || 50
+});
+
+const toJobView = ({ client, ...job }: AnalysisJob) => job;
+
+const toAnalysisView = (item: HistoryItem, withResult: boolean) => ({
+    id: item.id,
+    created_at: item.timestamp,
+    company_name: item.headerData.companyName,
+    cnpj: item.headerData.cnpj,
+    collaborator_name: item.headerData.collaboratorName,
+    file_name: item.fileName,
+    document_type: item.summary.document_type,
+    period: periodLabel(item.summary),
+    usage: item.usage,
+    ...(withResult ? { result: item.fullResult } : {})
+});
+
+const loadAnalyses = (client: string, ids: unknown, min: number, max: number): { item: HistoryItem, result: AnalysisResult }[] => {
+    if (!Array.isArray(ids) || ids.length < min || ids.length > max) {
+        throw httpError(400, min === max ? `Informe ${min} ids em "analysis_ids".` : `Informe de ${min} a ${max} ids em "analysis_ids".`);
+    }
+    return ids.map(id => {
+        const item = store.get(client, String(id));
+        if (!item?.fullResult) throw httpError(404, `Análise ${id} não encontrada.`);
+        return { item, result: item.fullResult };
+    });
+};
+
+const submitAnalysis = async (req: http.IncomingMessage, client: string) => {
+    const body = await readJson<AnalysisRequest>(req);
+    if (!body.content_base64 || !body.file_name) throw httpError(400, 'Informe "file_name" e "content_base64".');
+    const mimeType = body.mime_type || 'application/pdf';
+    if (!SUPPORTED_TYPES.includes(mimeType)) throw httpError(415, `Tipo de arquivo não suportado pela API: ${mimeType}.`);
+
+    return jobs.submit(client, {
+        file_name: body.file_name,
+        mime_type: mimeType,
+        content_base64: body.content_base64,
+        header: { companyName: body.company_name || '', cnpj: body.cnpj || '', collaboratorName: body.collaborator_name || client },
+        privacy: {
+            allow_images: body.allow_images ?? DEFAULT_PRIVACY.allow_images,
+            masked_names: Array.isArray(body.masked_names) ? body.masked_names.map(String) : []
+        }
+    });
+};
+
+/**
+ * The versioned REST API under /api/v1 (see server/openapi.ts). Everything but
+ * the OpenAPI document needs a client token, and each client only sees its own
+ * jobs and analyses.
+ */
+export const handleRestApi = async (req: http.IncomingMessage, res: http.ServerResponse, url: URL) => {
+    const route = url.pathname.replace(/^\/api\/v1/, '').replace(/\/+$/, '');
+    const method = req.method || 'GET';
+
+    if (route === '/openapi.json' && method === 'GET') { sendJson(res, 200, OPENAPI_DOCUMENT); return; }
+
+    const client = authenticate(req);
+    if (!client) { sendJson(res, 401, { error: 'Token de API ausente ou inválido.' }, { 'WWW-Authenticate': 'Bearer' }); return; }
+
+    const [, resource, id] = route.split('/');
+
+    if (resource === 'analyses' && !id && method === 'POST') {
+        const job = await submitAnalysis(req, client);
+        sendJson(res, 202, toJobView(job), { Location: `/api/v1/jobs/${job.id}` });
+        return;
+    }
+    if (resource === 'analyses' && !id && method === 'GET') {
+        const items = store.list(client, { cnpj: url.searchParams.get('cnpj') || undefined });
+        sendJson(res, 200, { analyses: items.map(item => toAnalysisView(item, false)) });
+        return;
+    }
+    if (resource === 'analyses' && id && method === 'GET') {
+        const item = store.get(client, id);
+        if (!item) throw httpError(404, 'Análise não encontrada.');
+        sendJson(res, 200, toAnalysisView(item, true));
+        return;
+    }
+    if (resource === 'jobs' && id && (method === 'GET' || method === 'DELETE')) {
+        const job = method === 'GET' ? jobs.get(client, id) : jobs.cancel(client, id);
+        if (!job) throw httpError(404, 'Tarefa não encontrada.');
+        sendJson(res, 200, toJobView(job));
+        return;
+    }
+    if (resource === 'comparisons' && !id && method === 'POST') {
+        const body = await readJson<{ analysis_ids?: unknown }>(req);
+        const [first, second] = loadAnalyses(client, body.analysis_ids, 2, 2);
+        sendJson(res, 200, compareHistoryItems(first, second));
+        return;
+    }
+    if (resource === 'consolidations' && !id && method === 'POST') {
+        const body = await readJson<{ analysis_ids?: unknown, group_name?: string }>(req);
+        const consolidated = consolidateDREs(loadAnalyses(client, body.analysis_ids, 2, 50));
+        if (body.group_name) consolidated.groupName = body.group_name;
+        sendJson(res, 200, consolidated);
+        return;
+    }
+    throw httpError(404, 'Rota não encontrada.');
+};
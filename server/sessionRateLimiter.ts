@@ -0,0 +1,38 @@
+const WINDOW_MS = 60_000;
+
+export interface SessionRateLimiter {
+    // Milliseconds until the client may call again, or 0 when this call is allowed (and counted)
+    take: (clientKey: string) => number;
+}
+
+/**
+ * Sliding one-minute window of calls per client, plus one for all clients
+ * together so that many addresses cannot add up to an unbounded bill. Clients
+ * that went quiet are dropped as they are met, so the map does not grow with
+ * every address ever seen.
+ */
+export const createSessionRateLimiter = (options: { perMinute: number, globalPerMinute: number }): SessionRateLimiter => {
+    const calls = new Map<string, number[]>();
+    let allCalls: number[] = [];
+
+    const prune = (now: number) => {
+        calls.forEach((times, id) => {
+            if (times.length === 0 || times[times.length - 1] <= now - WINDOW_MS) calls.delete(id);
+        });
+    };
+
+    return {
+        take: (clientKey) => {
+            const now = Date.now();
+            if (calls.size > 1000) prune(now);
+            allCalls = allCalls.filter(t => t > now - WINDOW_MS);
+            const recent = (calls.get(clientKey) || []).filter(t => t > now - WINDOW_MS);
+            calls.set(clientKey, recent);
+            if (recent.length >= options.perMinute) return recent[0] + WINDOW_MS - now;
+            if (allCalls.length >= options.globalPerMinute) return allCalls[0] + WINDOW_MS - now;
+            recent.push(now);
+            allCalls.push(now);
+            return 0;
+        }
+    };
+};
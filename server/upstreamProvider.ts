@@ -0,0 +1,13 @@
+import { createGeminiProvider } from "../services/geminiProvider";
+import { createOpenAiCompatibleProvider } from "../services/openAiCompatibleProvider";
+import type { LlmProvider } from "../services/llmProvider";
+
+/**
+ * The backend the server forwards model calls to, from its runtime environment:
+ * LLM_PROVIDER picks gemini (the default, with API_KEY or GEMINI_API_KEY) or
+ * openai for any OpenAI-compatible endpoint such as a local server.
+ */
+export const createUpstreamProvider = (): LlmProvider =>
+    process.env.LLM_PROVIDER === 'openai'
+        ? createOpenAiCompatibleProvider({ baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1', apiKey: process.env.LLM_API_KEY })
+        : createGeminiProvider({ apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY });
@@ -0,0 +1,86 @@
+import { BatchItem } from "../types";
+
+export interface BatchQueueOptions {
+    // Analyses one item and returns how it ended (done, review, conflict...). Throwing marks it as an error.
+    // The signal is aborted when the analyst cancels the item while it is being processed.
+    process: (item: BatchItem, signal: AbortSignal) => Promise<Partial<BatchItem>>;
+    onChange: (items: BatchItem[]) => void;
+}
+
+// A function patch sees the item as it is now, e.g. to fill only the fields still blank
+type BatchItemPatch = Partial<BatchItem> | ((item: BatchItem) => Partial<BatchItem>);
+
+export interface BatchQueue {
+    add: (items: BatchItem[]) => void;
+    update: (id: string, patch: BatchItemPatch) => void;
+    start: () => void;
+    retry: (id: string) => void;
+    cancel: (id: string) => void;
+    remove: (id: string) => void;
+    clearFinished: () => void;
+}
+
+/**
+ * Runs the batch upload queue one file at a time, independently of what the
+ * screen is showing. Items are read when their turn comes, so company and period
+ * edits made while they wait are honoured. Cancelling the item being processed
+ * aborts its analysis, and whatever it returns afterwards is dropped.
+ */
+export const createBatchQueue = (options: BatchQueueOptions): BatchQueue => {
+    let items: BatchItem[] = [];
+    let running = false;
+    let current: { id: string, controller: AbortController } | null = null;
+
+    const emit = () => options.onChange([...items]);
+    const find = (id: string) => items.find(i => i.id === id);
+
+    const update = (id: string, patch: BatchItemPatch) => {
+        items = items.map(i => i.id === id ? { ...i, ...(typeof patch === 'function' ? patch(i) : patch) } : i);
+        emit();
+    };
+
+    const run = async () => {
+        if (running) return;
+        running = true;
+        let next: BatchItem | undefined;
+        while ((next = items.find(i => i.status === 'queued'))) {
+            const id = next.id;
+            update(id, { status: 'processing', error: undefined });
+            current = { id, controller: new AbortController() };
+            try {
+                const outcome = await options.process(find(id)!, current.controller.signal);
+                if (find(id)?.status === 'processing') update(id, outcome);
+            } catch (e: any) {
+                if (find(id)?.status === 'processing') update(id, { status: 'error', error: e.message || 'Erro na análise.' });
+            }
+            current = null;
+        }
+        running = false;
+    };
+
+    return {
+        add: (newItems) => { items = [...items, ...newItems]; emit(); },
+        update,
+        start: () => { run(); },
+        retry: (id) => {
+            const item = find(id);
+            if (!item || !['error', 'cancelled'].includes(item.status)) return;
+            update(id, { status: 'queued', error: undefined });
+            run();
+        },
+        cancel: (id) => {
+            const item = find(id);
+            if (!item || (item.status !== 'queued' && item.status !== 'processing')) return;
+            update(id, { status: 'cancelled', result: undefined });
+            if (current?.id === id) current.controller.abort();
+        },
+        remove: (id) => {
+            items = items.filter(i => i.id !== id || i.status === 'processing');
+            emit();
+        },
+        clearFinished: () => {
+            items = items.filter(i => i.status !== 'done' && i.status !== 'cancelled');
+            emit();
+        }
+    };
+};
@@ -0,0 +1,34 @@
+// Raised when the analyst cancels; callers tell it apart from real failures with isCancelled
+export const cancelledError = (): Error => Object.assign(new Error("Análise cancelada."), { name: 'AbortError' });
+
+export const isCancelled = (error: unknown): boolean => (error as Error | null)?.name === 'AbortError';
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw cancelledError();
+};
+
+// setTimeout that stops waiting (and rejects) as soon as the signal is aborted
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) { reject(cancelledError()); return; }
+    const onAbort = () => { clearTimeout(timer); reject(cancelledError()); };
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Settles with `promise`, or rejects as soon as the signal is aborted. The work
+ * behind the promise is not stopped by this; it is for steps that take no
+ * signal of their own.
+ */
+export const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(cancelledError());
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(cancelledError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+            error => { signal.removeEventListener('abort', onAbort); reject(error); }
+        );
+    });
+};
@@ -0,0 +1,68 @@
+import { AnalysisResult, ComparisonResult, ComparisonRow, ExtractedAccount, HistoryItem } from "../types";
+import { compareHistoryByPeriod, periodLabel } from "./periodService";
+
+const toRow = (code: string, name: string, val1: number, val2: number, is_synthetic: boolean, level: number): ComparisonRow => {
+    const varAbs = val2 - val1;
+    const varPct = val1 !== 0 ? (varAbs / Math.abs(val1)) * 100 : (val2 !== 0 ? 100 : 0);
+    return { code, name, val1, val2, varAbs, varPct, is_synthetic, level };
+};
+
+/**
+ * Lines up the final balances of two analyses by account code (or name, for rows
+ * without a code).
+ */
+export const buildComparisonRows = (older: ExtractedAccount[], newer: ExtractedAccount[]): ComparisonRow[] => {
+    const map1 = new Map(older.map(a => [a.account_code || a.account_name, a]));
+    const map2 = new Map(newer.map(a => [a.account_code || a.account_name, a]));
+    const allKeys = new Set([...map1.keys(), ...map2.keys()]);
+
+    const rows: ComparisonRow[] = [];
+    allKeys.forEach(key => {
+        const acc1 = map1.get(key);
+        const acc2 = map2.get(key);
+        rows.push(toRow(
+            acc2?.account_code || acc1?.account_code || '',
+            acc2?.account_name || acc1?.account_name || 'Desconhecido',
+            acc1 ? acc1.final_balance : 0,
+            acc2 ? acc2.final_balance : 0,
+            (acc1?.is_synthetic || acc2?.is_synthetic) || false,
+            acc1?.level || acc2?.level || 1
+        ));
+    });
+
+    rows.sort((a, b) => a.code.localeCompare(b.code, undefined, { numeric: true }));
+    return rows;
+};
+
+/**
+ * Comparison of two saved analyses, the earlier period first whatever the
+ * order they were picked in.
+ */
+export const compareHistoryItems = (
+    first: { item: HistoryItem, result: AnalysisResult },
+    second: { item: HistoryItem, result: AnalysisResult }
+): ComparisonResult => {
+    const [older, newer] = [first, second].sort((a, b) => compareHistoryByPeriod(a.item, b.item));
+    const rows = buildComparisonRows(older.result.accounts, newer.result.accounts);
+    // Two runs over the same period are told apart by when they were analysed
+    const [label1, label2] = [periodLabel(older.item.summary), periodLabel(newer.item.summary)];
+    const withDate = (label: string, item: HistoryItem) => label1 === label2 ? `${label} (${new Date(item.timestamp).toLocaleDateString('pt-BR')})` : label;
+    return { period1Label: withDate(label1, older.item), period2Label: withDate(label2, newer.item), rows, documentType: older.item.summary.document_type };
+};
+
+/**
+ * Comparison between the two period columns of a single comparative statement.
+ */
+export const buildComparativeComparison = (result: AnalysisResult): ComparisonResult | null => {
+    if (!result.comparative) return null;
+    const rows = result.accounts
+        .filter(a => a.previous_balance !== undefined)
+        .map(a => toRow(a.account_code || '', a.account_name, a.previous_balance || 0, a.final_balance, a.is_synthetic, a.level));
+
+    return {
+        period1Label: result.comparative.previous_label,
+        period2Label: result.comparative.current_label,
+        rows,
+        documentType: result.summary.document_type
+    };
+};
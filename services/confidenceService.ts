@@ -0,0 +1,115 @@
+import { AnalysisResult, ConfidenceSignal, ExtractedAccount } from "../types";
+import { checkInversion, hasOcrSubstitution, recomputeSummary } from "./parsingService";
+
+// Rows scoring below this go to the review queue before the analysis is saved
+export const REVIEW_THRESHOLD = 0.75;
+// Rounding slack (in R$) for the initial + debit − credit = final check
+const BALANCE_TOLERANCE = 0.05;
+
+const PENALTIES: Record<ConfidenceSignal, number> = {
+    ocr_substitution: 0.3,
+    column_count: 0.3,
+    missing_code: 0.15,
+    balance_check: 0.4
+};
+
+export const CONFIDENCE_SIGNAL_LABELS: Record<ConfidenceSignal, string> = {
+    ocr_substitution: 'Letra lida como número (O→0, l→1)',
+    column_count: 'Quantidade de colunas fora do padrão',
+    missing_code: 'Sem código de conta',
+    balance_check: 'Anterior + Débito − Crédito ≠ Atual'
+};
+
+export type ReviewDecision =
+    | { action: 'accept' }
+    | { action: 'discard' }
+    | { action: 'edit', account_code: string, account_name: string, initial_balance: number, debit_value: number, credit_value: number, final_balance: number };
+
+// The most common number of amounts per line is taken as the layout the document really has
+const dominantCount = (counts: number[]): number => {
+    const freq = new Map<number, number>();
+    counts.forEach(c => freq.set(c, (freq.get(c) || 0) + 1));
+    let best = 0, bestFreq = 0;
+    freq.forEach((f, c) => { if (f > bestFreq) { best = c; bestFreq = f; } });
+    return best;
+};
+
+// Balances are printed unsigned with the side given apart, so both natures and a change of side are accepted
+const balanceCloses = (acc: ExtractedAccount): boolean => {
+    const i = acc.initial_balance, d = acc.debit_value, c = acc.credit_value, f = Math.abs(acc.final_balance);
+    return [i + d - c, i - d + c, -i + d - c].some(v => Math.abs(Math.abs(v) - f) < BALANCE_TOLERANCE);
+};
+
+/**
+ * Scores every parsed account from 0 to 1 and records why it was doubted:
+ * - letters read as digits by parseFinancialNumber (O→0, l→1);
+ * - a number of amounts that does not fit the document type or differs from the rest of the document;
+ * - no account code, when most of the document has one;
+ * - a balancete row where initial + debit − credit does not reach the final balance.
+ */
+export const scoreAccounts = (accounts: ExtractedAccount[], docType: string) => {
+    const textRows = accounts.filter(a => a.provenance && a.provenance.strategy !== 'layout_profile' && a.provenance.strategy !== 'column_mapping');
+    const typicalCount = dominantCount(textRows.map(a => a.provenance!.raw_values.length));
+    const maxCount = docType === 'Balancete' ? 4 : 2;
+    const mostHaveCodes = accounts.filter(a => a.account_code).length > accounts.length / 2;
+
+    accounts.forEach(acc => {
+        const signals: ConfidenceSignal[] = [];
+        const rawValues = acc.provenance?.raw_values || [];
+
+        if (rawValues.some(hasOcrSubstitution)) signals.push('ocr_substitution');
+        if (textRows.includes(acc) && (rawValues.length > maxCount || rawValues.length !== typicalCount)) signals.push('column_count');
+        if (!acc.account_code && mostHaveCodes) signals.push('missing_code');
+        // Only rows carrying the movement columns can be checked; "anterior | atual" layouts have none
+        if (docType !== 'DRE' && (acc.debit_value !== 0 || acc.credit_value !== 0) && !balanceCloses(acc)) {
+            signals.push('balance_check');
+        }
+
+        const score = signals.reduce((s, signal) => s - PENALTIES[signal], 1);
+        acc.confidence = Math.max(0, Math.round(score * 100) / 100);
+        acc.confidence_signals = signals;
+    });
+};
+
+export const isDoubtful = (acc: ExtractedAccount): boolean =>
+    acc.confidence !== undefined && acc.confidence < REVIEW_THRESHOLD && !acc.review_status;
+
+/**
+ * Applies the review queue decisions (keyed by account index) and recomputes the
+ * summary. Rows without a decision are kept as extracted.
+ */
+export const applyReviewDecisions = (result: AnalysisResult, decisions: Record<number, ReviewDecision>): AnalysisResult => {
+    let accepted = 0, edited = 0, discarded = 0;
+    const accounts: ExtractedAccount[] = [];
+
+    result.accounts.forEach((acc, idx) => {
+        const decision = decisions[idx];
+        if (!decision) { accounts.push(acc); return; }
+        if (decision.action === 'discard') { discarded++; return; }
+        if (decision.action === 'accept') {
+            accepted++;
+            accounts.push({ ...acc, review_status: 'accepted' });
+            return;
+        }
+        edited++;
+        const { action, ...values } = decision;
+        accounts.push({
+            ...acc,
+            ...values,
+            total_value: Math.abs(values.final_balance),
+            possible_inversion: acc.type !== 'Unknown' && checkInversion(values.account_name, acc.type, values.final_balance, null, values.account_code),
+            confidence: 1,
+            confidence_signals: [],
+            review_status: 'edited'
+        });
+    });
+
+    const reviewed = recomputeSummary({ ...result, accounts });
+    if (accepted + edited + discarded > 0) {
+        reviewed.summary.observations = [
+            ...reviewed.summary.observations,
+            `Revisão manual de linhas duvidosas: ${accepted} aceita(s), ${edited} corrigida(s), ${discarded} descartada(s).`
+        ];
+    }
+    return reviewed;
+};
@@ -1,4 +1,5 @@
 import { AnalysisResult, HistoryItem, ConsolidationResult, ConsolidatedRow, ConsolidatedCompany } from "../types";
+import { compareHistoryByPeriod, periodLabel } from "./periodService";
 
 // FIX 1: getAccountKey — preserva estrutura do código, apenas normaliza separadores.
 // ANTES: code.replace(/[^0-9]/g, '') → "0000000001" virava "1", colidindo com a conta "1" (ATIVO).
@@ -26,11 +27,14 @@ const normalizeBalance = (finalBalance: number, accountCode: string | null): num
     return finalBalance;
 };
 
-export const consolidateDREs = (items: { item: HistoryItem, result: AnalysisResult }[]): ConsolidationResult => {
+export const consolidateDREs = (selected: { item: HistoryItem, result: AnalysisResult }[]): ConsolidationResult => {
+    // Columns follow the period of each document, so a mismatched one stands out at the edge
+    const items = [...selected].sort((a, b) => compareHistoryByPeriod(a.item, b.item));
     const companies: ConsolidatedCompany[] = items.map(i => ({
         id: i.item.id,
         name: i.item.headerData.companyName,
-        cnpj: i.item.headerData.cnpj
+        cnpj: i.item.headerData.cnpj,
+        period: periodLabel(i.result.summary)
     }));
 
     const accountMap = new Map<string, ConsolidatedRow>();
@@ -0,0 +1,19 @@
+import { HistoryItem } from "../types";
+
+/**
+ * SHA-256 of the file as uploaded (before any CSV/text conversion), so the same
+ * document is recognised whichever screen it comes in through. Resolves to
+ * undefined where Web Crypto is unavailable (pages served over plain http).
+ */
+export const computeContentHash = async (file: Blob): Promise<string | undefined> => {
+    if (!globalThis.crypto?.subtle) return undefined;
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Most recent history entry analysed from the same file, if any. History is kept
+ * newest first.
+ */
+export const findAnalysisByHash = (history: HistoryItem[], contentHash: string | undefined): HistoryItem | null =>
+    contentHash ? history.find(item => item.contentHash === contentHash) || null : null;
@@ -0,0 +1,114 @@
+import { DocumentMetadata, HeaderData } from "../types";
+import { detectPeriod, parsePeriodText } from "./periodService";
+import { customBase64ToUint8Array, safeDecodeBase64, sanitizeBase64 } from "./parsingService";
+import { isEcdFile, parseEcd, formatSpedDate } from "./spedService";
+import { loadPdfDocument, extractPdfText } from "./pdfService";
+
+export const onlyDigits = (value: string | undefined): string => (value || '').replace(/\D/g, '');
+
+export const isValidCnpj = (value: string): boolean => {
+    const numbers = onlyDigits(value);
+    if (numbers.length !== 14 || /^(\d)\1+$/.test(numbers)) return false;
+    const checkDigit = (length: number) => {
+        let sum = 0;
+        let pos = length - 7;
+        for (let i = 0; i < length; i++) {
+            sum += Number(numbers.charAt(i)) * pos--;
+            if (pos < 2) pos = 9;
+        }
+        return sum % 11 < 2 ? 0 : 11 - sum % 11;
+    };
+    return checkDigit(12) === Number(numbers.charAt(12)) && checkDigit(13) === Number(numbers.charAt(13));
+};
+
+export const formatCnpj = (value: string): string =>
+    onlyDigits(value).replace(/^(\d{2})(\d{3})(\d{3})(\d{4})(\d{2})$/, '$1.$2.$3/$4-$5');
+
+const CNPJ_PATTERN = /\b\d{2}\.?\d{3}\.?\d{3}\/?\d{4}-?\d{2}\b/;
+const COMPANY_LABEL = /^(?:empresa|raz[aã]o social|cliente|entidade|contribuinte)\s*[:-]\s*(.+)$/i;
+const COMPANY_SUFFIX = /\b(ltda|s\.?\/?a|eireli|epp|cia)\.?$/i;
+const REPORT_TITLE = /balan[cç]|demonstra|resultado|per[ií]odo|exerc[ií]cio|p[aá]gina|folha|emiss/i;
+
+const cleanName = (value: string): string =>
+    value.replace(/\bC\.?N\.?P\.?J\.?\b.*$/i, '').replace(/\s+/g, ' ').replace(/[\s:;,\-–]+$/, '').trim();
+
+const findCompanyName = (lines: string[]): string | undefined => {
+    for (const line of lines) {
+        const labelled = line.match(COMPANY_LABEL);
+        if (labelled && cleanName(labelled[1]).length >= 3) return cleanName(labelled[1]);
+    }
+    // ERPs usually print "ACME LTDA   CNPJ: 12.345.678/0001-90" on one line
+    for (const line of lines) {
+        const cnpj = line.match(CNPJ_PATTERN);
+        if (!cnpj) continue;
+        const before = cleanName(line.slice(0, cnpj.index));
+        if (/[a-z]{3}/i.test(before) && !REPORT_TITLE.test(before)) return before;
+    }
+    return lines.map(cleanName).find(l => COMPANY_SUFFIX.test(l) && !REPORT_TITLE.test(l));
+};
+
+/**
+ * Reads company name, CNPJ and period from the header lines of a document (PDF
+ * page titles, the first rows of a CSV or spreadsheet). Only CNPJs with valid
+ * check digits are taken, so account codes and document numbers are not mistaken
+ * for one.
+ */
+export const extractDocumentMetadata = (headerLines: string[]): DocumentMetadata => {
+    const lines = headerLines.map(l => l.replace(/\|/g, ' ').trim()).filter(l => l.length > 0);
+    const metadata: DocumentMetadata = {};
+
+    const cnpj = lines.map(l => l.match(CNPJ_PATTERN)?.[0]).find(c => c && isValidCnpj(c));
+    if (cnpj) metadata.cnpj = onlyDigits(cnpj);
+
+    const companyName = findCompanyName(lines);
+    if (companyName) metadata.company_name = companyName;
+
+    const period = detectPeriod(lines);
+    if (period) metadata.period = period;
+
+    return metadata;
+};
+
+export const hasDocumentMetadata = (metadata: DocumentMetadata): boolean =>
+    !!(metadata.company_name || metadata.cnpj || metadata.period);
+
+/**
+ * Fills the fields the analyst left blank with what the document says.
+ */
+export const prefillHeader = (header: HeaderData, metadata: DocumentMetadata | undefined): HeaderData => ({
+    ...header,
+    companyName: header.companyName.trim() || metadata?.company_name || '',
+    cnpj: header.cnpj.trim() || (metadata?.cnpj ? formatCnpj(metadata.cnpj) : '')
+});
+
+/**
+ * True when the document names a different CNPJ from the one typed in the form.
+ */
+export const hasCnpjConflict = (header: HeaderData, metadata: DocumentMetadata | undefined): boolean => {
+    const typed = onlyDigits(header.cnpj);
+    return !!metadata?.cnpj && typed.length === 14 && typed !== metadata.cnpj;
+};
+
+/**
+ * Local, model-free look at a file's header, used to prefill the batch queue
+ * before anything is analysed: the first PDF page's text layer, the first rows of
+ * a text file, or the 0000 record of an ECD. Scanned PDFs come back empty.
+ */
+export const peekDocumentMetadata = async (fileBase64: string, mimeType: string): Promise<DocumentMetadata> => {
+    const data = sanitizeBase64(fileBase64);
+    if (mimeType === 'application/pdf') {
+        const pdf = await loadPdfDocument(customBase64ToUint8Array(data));
+        try {
+            const [first] = await extractPdfText(pdf, 1);
+            return first ? extractDocumentMetadata(first.headings) : {};
+        } finally { await pdf.destroy(); }
+    }
+
+    const text = safeDecodeBase64(data);
+    if (isEcdFile(text)) {
+        const ecd = parseEcd(text);
+        const period = parsePeriodText(`${formatSpedDate(ecd.startDate)} a ${formatSpedDate(ecd.endDate)}`, 'document');
+        return { company_name: ecd.companyName || undefined, cnpj: onlyDigits(ecd.cnpj) || undefined, period: period || undefined };
+    }
+    return extractDocumentMetadata(text.split('\n').slice(0, 30).filter(l => !/\d,\d{2}\b/.test(l)));
+};
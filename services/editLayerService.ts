@@ -0,0 +1,96 @@
+import { AccountEditFields, AccountEditLayer, AnalysisResult, ExtractedAccount } from "../types";
+import { checkInversion, recomputeSummary } from "./parsingService";
+
+export interface EditableRow {
+    key: string;
+    account: ExtractedAccount;
+}
+
+export const emptyEditLayer = (): AccountEditLayer => ({ updated: {}, deleted: [], added: [], updated_at: new Date().toISOString() });
+
+export const countEdits = (layer: AccountEditLayer | null | undefined): number =>
+    !layer ? 0 : Object.keys(layer.updated).filter(k => k.startsWith('o:') && !layer.deleted.includes(k)).length
+        + layer.deleted.filter(k => k.startsWith('o:')).length
+        + layer.added.filter((_, idx) => !layer.deleted.includes(`a:${idx}`)).length;
+
+const compareCodes = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+// Values, code and nature may have changed, so everything derived from them is refreshed
+const refreshDerived = (acc: ExtractedAccount): ExtractedAccount => ({
+    ...acc,
+    total_value: Math.abs(acc.final_balance),
+    level: acc.account_code ? acc.account_code.split(/[.-]/).filter(x => x.length > 0).length : acc.level,
+    possible_inversion: !acc.is_synthetic && acc.type !== 'Unknown' && acc.final_balance !== 0 &&
+        checkInversion(acc.account_name, acc.type, acc.final_balance, null, acc.account_code || '')
+});
+
+/**
+ * The accounts as the user sees them: the original extraction with the edit layer
+ * on top. Added rows are slotted in by account code.
+ */
+export const editableRows = (original: AnalysisResult, layer: AccountEditLayer | null | undefined): EditableRow[] => {
+    const withEdits = (key: string, acc: ExtractedAccount, status: 'edited' | 'added' | undefined): EditableRow => {
+        const fields = layer?.updated[key];
+        if (!fields && !status) return { key, account: acc };
+        return { key, account: refreshDerived({ ...acc, ...fields, edit_status: status || 'edited' }) };
+    };
+
+    const rows = original.accounts
+        .map((acc, idx) => withEdits(`o:${idx}`, acc, undefined))
+        .filter(r => !layer?.deleted.includes(r.key));
+
+    layer?.added.forEach((acc, idx) => {
+        const key = `a:${idx}`;
+        if (layer.deleted.includes(key)) return;
+        const row = withEdits(key, acc, 'added');
+        const code = row.account.account_code;
+        let at = rows.length;
+        if (code) {
+            const next = rows.findIndex(r => r.account.account_code && compareCodes(r.account.account_code, code) > 0);
+            if (next >= 0) at = next;
+        }
+        rows.splice(at, 0, row);
+    });
+
+    return rows;
+};
+
+/**
+ * Applies the edit layer and recomputes totals, balance check and result.
+ */
+export const applyEditLayer = (original: AnalysisResult, layer: AccountEditLayer | null | undefined): AnalysisResult => {
+    if (!layer || countEdits(layer) === 0) return original;
+    return recomputeSummary({ ...original, accounts: editableRows(original, layer).map(r => r.account) });
+};
+
+export const updateRow = (layer: AccountEditLayer, key: string, fields: AccountEditFields): AccountEditLayer => ({
+    ...layer,
+    updated: { ...layer.updated, [key]: { ...layer.updated[key], ...fields } },
+    updated_at: new Date().toISOString()
+});
+
+export const deleteRow = (layer: AccountEditLayer, key: string): AccountEditLayer => ({
+    ...layer,
+    deleted: layer.deleted.includes(key) ? layer.deleted : [...layer.deleted, key],
+    updated_at: new Date().toISOString()
+});
+
+export const addRow = (layer: AccountEditLayer, account: ExtractedAccount): AccountEditLayer => ({
+    ...layer,
+    added: [...layer.added, account],
+    updated_at: new Date().toISOString()
+});
+
+export const blankAccount = (): ExtractedAccount => ({
+    account_code: '',
+    account_name: 'Nova conta',
+    initial_balance: 0,
+    debit_value: 0,
+    credit_value: 0,
+    final_balance: 0,
+    total_value: 0,
+    type: 'Debit',
+    possible_inversion: false,
+    level: 1,
+    is_synthetic: false
+});
@@ -0,0 +1,137 @@
+import { ExtractedRow, ExtractionCheckpoint } from "../types";
+import { isCancelled, sleep, throwIfCancelled } from "./cancellationService";
+
+const CHECKPOINT_STORAGE_PREFIX = 'auditAI_checkpoint_';
+const MAX_BATCH_ATTEMPTS = 2;
+const RETRY_DELAY_MS = 2000;
+
+export interface PageQueueOptions {
+    fingerprint: string;
+    totalPages: number;
+    resume: boolean;
+    signal?: AbortSignal; // Stops the queue; batches finished before it stay in the checkpoint
+    onResumed?: (pages: number[]) => void;
+    onBatchStart?: (pages: number[]) => void;
+    onBatchDone?: (pages: number[], failedPages: number[]) => void;
+}
+
+// What the worker extracted from a batch: header lines and, from the model, its schema rows
+export interface BatchExtraction {
+    lines: string[];
+    rows?: ExtractedRow[];
+}
+
+export interface PageQueueOutcome {
+    batches: ({ pages: number[] } & BatchExtraction)[];
+    resumedPages: number[];
+    failedPages: number[];
+}
+
+/**
+ * Cheap FNV-1a fingerprint of the uploaded file, used only to find its checkpoint.
+ */
+export const fingerprintFile = (base64: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < base64.length; i++) {
+        hash ^= base64.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${(hash >>> 0).toString(16)}_${base64.length}`;
+};
+
+export const loadCheckpoint = (fingerprint: string): ExtractionCheckpoint | null => {
+    if (typeof localStorage === 'undefined') return null; // The API server does not resume
+    try {
+        const raw = localStorage.getItem(`${CHECKPOINT_STORAGE_PREFIX}${fingerprint}`);
+        return raw ? JSON.parse(raw) : null;
+    } catch (e) {
+        console.warn("Failed to read extraction checkpoint", e);
+        return null;
+    }
+};
+
+export const clearCheckpoint = (fingerprint: string) => {
+    if (typeof localStorage === 'undefined') return;
+    try { localStorage.removeItem(`${CHECKPOINT_STORAGE_PREFIX}${fingerprint}`); }
+    catch (e) { console.warn("Failed to clear extraction checkpoint", e); }
+};
+
+function saveCheckpoint(checkpoint: ExtractionCheckpoint) {
+    if (typeof localStorage === 'undefined') return;
+    try { localStorage.setItem(`${CHECKPOINT_STORAGE_PREFIX}${checkpoint.fingerprint}`, JSON.stringify(checkpoint)); }
+    catch (e) { console.warn("Storage full, could not save extraction checkpoint", e); }
+}
+
+export const chunkPages = (pages: number[], size: number): number[][] => {
+    const batches: number[][] = [];
+    for (let i = 0; i < pages.length; i += size) batches.push(pages.slice(i, i + size));
+    return batches;
+};
+
+async function attemptBatch(pages: number[], worker: (pages: number[]) => Promise<BatchExtraction>, signal?: AbortSignal): Promise<BatchExtraction | null> {
+    for (let attempt = 1; attempt <= MAX_BATCH_ATTEMPTS; attempt++) {
+        try {
+            return await worker(pages);
+        } catch (e) {
+            // A cancellation is not a failed batch: it ends the whole queue
+            if (isCancelled(e)) throw e;
+            console.warn(`Batch ${pages.join(',')} failed (attempt ${attempt}/${MAX_BATCH_ATTEMPTS}):`, e);
+            if (attempt < MAX_BATCH_ATTEMPTS) await sleep(RETRY_DELAY_MS, signal);
+        }
+    }
+    return null;
+}
+
+/**
+ * Runs page batches through the model one at a time. Each successful batch is written
+ * to a checkpoint, so a later run with `resume` only sends the pages still missing.
+ * A multi-page batch that keeps failing (usually a truncated response) is retried page
+ * by page; pages that still fail are reported instead of aborting the whole document.
+ */
+export const runPageQueue = async (
+    batches: number[][],
+    worker: (pages: number[]) => Promise<BatchExtraction>,
+    options: PageQueueOptions
+): Promise<PageQueueOutcome> => {
+    const previous = options.resume ? loadCheckpoint(options.fingerprint) : null;
+    const checkpoint: ExtractionCheckpoint = {
+        fingerprint: options.fingerprint,
+        total_pages: options.totalPages,
+        batches: previous && previous.total_pages === options.totalPages ? previous.batches : [],
+        updated_at: new Date().toISOString()
+    };
+    const donePages = new Set(checkpoint.batches.flatMap(b => b.pages));
+    const resumedPages = batches.flat().filter(p => donePages.has(p));
+    const failedPages: number[] = [];
+    if (resumedPages.length > 0) options.onResumed?.(resumedPages);
+
+    const queue = batches.map(b => b.filter(p => !donePages.has(p))).filter(b => b.length > 0);
+
+    for (const batch of queue) {
+        throwIfCancelled(options.signal);
+        options.onBatchStart?.(batch);
+        let parts: ({ pages: number[] } & BatchExtraction)[] = [];
+
+        const extraction = await attemptBatch(batch, worker, options.signal);
+        if (extraction) {
+            parts = [{ pages: batch, ...extraction }];
+        } else if (batch.length > 1) {
+            for (const page of batch) {
+                const pageExtraction = await attemptBatch([page], worker, options.signal);
+                if (pageExtraction) parts.push({ pages: [page], ...pageExtraction });
+                else failedPages.push(page);
+            }
+        } else {
+            failedPages.push(...batch);
+        }
+
+        if (parts.length > 0) {
+            checkpoint.batches.push(...parts);
+            checkpoint.updated_at = new Date().toISOString();
+            saveCheckpoint(checkpoint);
+        }
+        options.onBatchDone?.(batch, batch.filter(p => failedPages.includes(p)));
+    }
+
+    return { batches: checkpoint.batches, resumedPages, failedPages };
+};
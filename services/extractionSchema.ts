@@ -0,0 +1,158 @@
+import { ExtractedRow } from "../types";
+
+const AMOUNT_FIELDS = ['initial_balance', 'debit', 'credit', 'final_balance'] as const;
+
+const amountSchema = { type: 'string', description: 'Amount exactly as printed (e.g. "1.000,00", "(10.000,00)"), or "" when the column is empty.' };
+
+// JSON schema the model must answer extraction requests with
+export const EXTRACTION_RESPONSE_SCHEMA = {
+    type: 'object',
+    properties: {
+        document_type: { type: 'string', description: 'Report title, e.g. "Balancete de Verificação", "Balanço Patrimonial", "Demonstração do Resultado".' },
+        company: { type: 'string', description: 'Company name printed in the header, or "".' },
+        cnpj: { type: 'string', description: 'CNPJ printed in the header, or "".' },
+        period: { type: 'string', description: 'Reporting period printed in the header (e.g. "01/01/2024 a 31/12/2024"), or "".' },
+        period_columns: { type: 'array', items: { type: 'string' }, description: 'Headers of the period columns of a comparative statement, in printed order.' },
+        rows: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    code: { type: 'string' },
+                    name: { type: 'string' },
+                    initial_balance: amountSchema,
+                    debit: amountSchema,
+                    credit: amountSchema,
+                    final_balance: amountSchema,
+                    indicator: { type: 'string', enum: ['D', 'C', ''] }
+                },
+                required: ['code', 'name', 'initial_balance', 'debit', 'credit', 'final_balance', 'indicator']
+            }
+        }
+    },
+    required: ['rows']
+};
+
+export interface ParsedExtraction {
+    headerLines: string[]; // DOCTYPE / EMPRESA / PERÍODO / PERIODS lines, in the form the text pipeline reads
+    rows: ExtractedRow[];
+    problems: string[]; // Rows that failed validation; empty when the payload is fully usable
+    truncated: boolean; // The answer was cut off; `rows` holds the complete rows before the cut
+}
+
+// Printed amount: digits with . and , separators, optional minus or parentheses and a trailing D/C.
+// O/l are accepted so the OCR-substitution signal can flag them later.
+const AMOUNT_PATTERN = /^(?:R\$\s*)?[-(]?\s*[\dOol][\dOol.,\s]*\)?\s*[DC]?$/i;
+
+/**
+ * Closes a JSON document cut off mid-answer after its last complete array
+ * element, e.g. '{"rows":[{...},{...},{"co' → '{"rows":[{...},{...}]}'.
+ * Returns null when no element was completed.
+ */
+export const closeTruncatedJson = (text: string): string | null => {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+    let cut: { index: number, stack: string[] } | null = null;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{' || ch === '[') stack.push(ch);
+        else if (ch === '}' || ch === ']') {
+            stack.pop();
+            if (stack[stack.length - 1] === '[') cut = { index: i + 1, stack: [...stack] };
+        }
+    }
+
+    if (!cut) return null;
+    return text.slice(0, cut.index) + cut.stack.reverse().map(open => open === '[' ? ']' : '}').join('');
+};
+
+const asText = (value: unknown): string =>
+    typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+// Numbers sent as JSON numbers are written back with a decimal comma, as parseFinancialNumber expects
+const asAmount = (value: unknown): string =>
+    typeof value === 'number' ? String(value).replace('.', ',') : asText(value);
+
+const validateRow = (raw: unknown, index: number): { row?: ExtractedRow, problem?: string } => {
+    if (!raw || typeof raw !== 'object') return { problem: `linha ${index + 1}: não é um objeto` };
+    const data = raw as Record<string, unknown>;
+
+    const name = asText(data.name);
+    const amounts = AMOUNT_FIELDS.map(field => asAmount(data[field]));
+    // Group titles ("ATIVO") carry no amount and are not accounts
+    if (amounts.every(a => a === '')) return {};
+    if (name.length < 2) return { problem: `linha ${index + 1}: conta sem nome válido` };
+
+    const invalid = AMOUNT_FIELDS.filter((_, i) => amounts[i] !== '' && !AMOUNT_PATTERN.test(amounts[i]));
+    if (invalid.length > 0) {
+        return { problem: `linha ${index + 1} (${name}): valor não numérico em ${invalid.map(f => `${f}="${amounts[AMOUNT_FIELDS.indexOf(f)]}"`).join(', ')}` };
+    }
+
+    const flag = asText(data.indicator).toUpperCase() || (amounts[3].match(/\s([DC])$/i)?.[1] || '').toUpperCase();
+    return {
+        row: {
+            code: asText(data.code),
+            name,
+            initial_balance: amounts[0],
+            debit: amounts[1],
+            credit: amounts[2],
+            final_balance: amounts[3],
+            indicator: flag === 'D' || flag === 'C' ? flag : ''
+        }
+    };
+};
+
+/**
+ * Reads an extraction answer: strips markdown fences, closes a truncated
+ * payload after its last complete row and validates every row. Rows that do
+ * not validate are reported in `problems` rather than dropped unnoticed.
+ */
+export const parseExtractionResponse = (text: string, truncated = false): ParsedExtraction => {
+    const body = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    let payload: unknown;
+    let cutOff = truncated;
+    try {
+        payload = JSON.parse(body);
+    } catch {
+        const closed = closeTruncatedJson(body);
+        try { payload = closed ? JSON.parse(closed) : null; } catch { payload = null; }
+        cutOff = true;
+    }
+    if (!payload) {
+        return { headerLines: [], rows: [], problems: [body ? 'resposta não é um JSON válido' : 'resposta vazia'], truncated: cutOff };
+    }
+
+    const data = (Array.isArray(payload) ? { rows: payload } : payload) as Record<string, unknown>;
+    const rows: ExtractedRow[] = [];
+    const problems: string[] = [];
+    (Array.isArray(data.rows) ? data.rows : []).forEach((raw, idx) => {
+        const { row, problem } = validateRow(raw, idx);
+        if (row) rows.push(row);
+        if (problem) problems.push(problem);
+    });
+    if (!Array.isArray(data.rows)) problems.push('campo "rows" ausente');
+
+    const headerLines: string[] = [];
+    const docType = asText(data.document_type);
+    if (docType) headerLines.push(`DOCTYPE: ${docType}`);
+    const company = [asText(data.company), asText(data.cnpj) && `CNPJ: ${asText(data.cnpj)}`].filter(Boolean).join(' | ');
+    if (company) headerLines.push(`EMPRESA: ${company}`);
+    if (asText(data.period)) headerLines.push(`PERÍODO: ${asText(data.period)}`);
+    const columns = Array.isArray(data.period_columns) ? data.period_columns.map(asText).filter(Boolean) : [];
+    if (columns.length > 1) headerLines.push(`PERIODS: ${columns.join(' | ')}`);
+
+    return { headerLines, rows, problems, truncated: cutOff };
+};
+
+// How a schema row is shown as its raw line in the provenance panel
+export const formatRowLine = (row: ExtractedRow): string =>
+    [row.code, row.name.replace(/\|/g, '/'), ...AMOUNT_FIELDS.map(f => row[f]), row.indicator].filter(c => c !== '').join(' | ');
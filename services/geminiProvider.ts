@@ -0,0 +1,62 @@
+import { GoogleGenAI, GenerateContentResponse, HarmCategory, HarmBlockThreshold, FinishReason } from "@google/genai";
+import type { LlmProvider, LlmRequest, LlmResponse } from "./llmProvider";
+
+// Balance sheets and ledgers trip the default filters now and then (account names, legal terms)
+const SAFETY_SETTINGS = [
+    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+];
+
+const toResponse = (response: GenerateContentResponse | undefined): LlmResponse => ({
+    text: response?.text || '',
+    truncated: response?.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS,
+    usage: response?.usageMetadata ? {
+        input_tokens: response.usageMetadata.promptTokenCount || 0,
+        // Thinking models bill their reasoning tokens as output
+        output_tokens: (response.usageMetadata.candidatesTokenCount || 0) + (response.usageMetadata.thoughtsTokenCount || 0)
+    } : undefined
+});
+
+export const createGeminiProvider = (options: { apiKey?: string }): LlmProvider => {
+    let client: GoogleGenAI | null = null;
+
+    return {
+        name: 'gemini',
+        generate: async (request: LlmRequest): Promise<LlmResponse> => {
+            if (!options.apiKey) throw new Error("API Key not found.");
+            client = client || new GoogleGenAI({ apiKey: options.apiKey });
+
+            const history = (request.history || []).map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+            const params = {
+                model: request.model,
+                contents: [...history, { role: 'user', parts: request.parts }],
+                config: {
+                    systemInstruction: request.systemInstruction,
+                    temperature: request.temperature,
+                    maxOutputTokens: request.maxOutputTokens,
+                    responseMimeType: request.json || request.responseSchema ? 'application/json' : undefined,
+                    responseJsonSchema: request.responseSchema,
+                    tools: request.webSearch ? [{ googleSearch: {} }] : undefined,
+                    safetySettings: SAFETY_SETTINGS,
+                    abortSignal: request.signal
+                }
+            };
+
+            if (!request.onText) return toResponse(await client.models.generateContent(params));
+
+            // Streamed: the text arrives in chunks; finish reason and usage come with the last one
+            let text = '';
+            let last: GenerateContentResponse | undefined;
+            for await (const chunk of await client.models.generateContentStream(params)) {
+                last = chunk;
+                if (chunk.text) {
+                    text += chunk.text;
+                    request.onText(text);
+                }
+            }
+            return { ...toResponse(last), text };
+        }
+    };
+};
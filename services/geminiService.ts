@@ -1,11 +1,92 @@
-import { GoogleGenAI, GenerateContentResponse, HarmCategory, HarmBlockThreshold, Chat } from "@google/genai";
-import { AnalysisResult, ExtractedAccount, ComparisonRow } from "../types";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { AnalysisProvenance, AnalysisResult, ComparativeColumns, ComparisonRow, ExtractionProgress, ExtractionReport, LayoutProfile, DocumentMetadata, PrivacySettings, PromptKind, SourceLine } from "../types";
+import { normalizeFinancialData, mergePageLines, detectComparativeColumns, sanitizeBase64, safeDecodeBase64, customBase64ToUint8Array, PARSER_VERSION } from "./parsingService";
+import { formatPeriod, parsePeriodText } from "./periodService";
+import { extractDocumentMetadata, hasDocumentMetadata } from "./documentMetadataService";
+import { isEcdFile, parseEcd, buildAnalysisFromEcd } from "./spedService";
+import { loadPdfDocument, extractPdfText, renderPageImage, canRenderPages, PdfPageText } from "./pdfService";
+import { runPageQueue, chunkPages, fingerprintFile, clearCheckpoint } from "./extractionQueue";
+import { detectLayoutProfile } from "./layoutProfiles";
+import { scoreAccounts } from "./confidenceService";
+import { generate, LlmPart, LlmResponse } from "./llmProvider";
+import { createUsageMeter, UsageMeter } from "./usageService";
+import { isCancelled, sleep, throwIfCancelled } from "./cancellationService";
+import { isRateLimited, pauseCalls } from "./rateLimitService";
+import { createRedactor, PLACEHOLDER_NOTE, Redactor } from "./redactionService";
+import { EXTRACTION_RESPONSE_SCHEMA, ParsedExtraction, parseExtractionResponse, formatRowLine } from "./extractionSchema";
+import { INSIGHT_OPENINGS, resolvePrompt, PromptTemplate, SYSTEM_INSTRUCTIONS } from "./promptRegistry";
+
+// Scanned pages sent to the model per request
+const PAGE_BATCH_SIZE = 3;
+// Follow-up requests for the rest of an answer cut off at maxOutputTokens
+const MAX_CONTINUATIONS = 3;
+
+export interface AnalyzeOptions {
+    onProgress?: (progress: ExtractionProgress) => void;
+    resume?: boolean; // Reuse the pages already extracted in an interrupted run of the same file
+    usage?: UsageMeter; // Receives the tokens of every call, also when the analysis fails midway
+    signal?: AbortSignal; // Cancels the analysis: the call in flight is dropped and nothing is returned
+    privacy?: PrivacySettings; // The company's redaction and image settings; defaults allow images
+    prompts?: Partial<Record<PromptKind, string>>; // Prompt versions to run instead of the defaults (prompt experiments)
+    onLog?: (message: string) => void; // How the document was read (text layer, layout, period); nothing is printed without it
+}
+
+// Options of the answers written for the analyst (insights, comparison, chat)
+export interface GenerationOptions {
+    usage?: UsageMeter;
+    signal?: AbortSignal; // Stops the generation; the caller keeps the text received so far
+    onText?: (text: string) => void; // The answer so far, each time more of it arrives
+    privacy?: PrivacySettings; // Names to mask besides CPFs, CNPJs and bank accounts
+}
+
+// What every model call of one analysis shares
+interface CallContext {
+    meter: UsageMeter;
+    signal?: AbortSignal;
+    redactor: Redactor;
+    prompts: { [K in PromptKind]: PromptTemplate<K> };
+}
+
+const resolvePrompts = (versions: Partial<Record<PromptKind, string>> = {}): CallContext['prompts'] => ({
+    extraction: resolvePrompt('extraction', versions.extraction),
+    narrative: resolvePrompt('narrative', versions.narrative)
+});
 
-// Helper for Exponential Backoff
-async function retryWithBackoff<T>(fn: () => Promise<T>, retries = 3, baseDelay = 3000): Promise<T> {
+// What the narrative step sees of the accounts
+const narrativeSample = (result: AnalysisResult) => result.accounts.slice(0, 150).map(a => ({
+    code: a.account_code || '',
+    name: a.account_name
+}));
+
+const IMAGES_WITHHELD_MESSAGE = "O envio de imagens e páginas digitalizadas à IA está desativado para esta empresa. Envie o documento em CSV, TXT ou PDF com camada de texto.";
+
+/**
+ * Sends a text answer request with confidential data masked and puts it back in
+ * the answer, including the partial text handed to `onText` while streaming.
+ */
+async function requestRedactedText(request: { task: 'insight' | 'chat', prompt: string, systemInstruction: string, temperature?: number, history?: { role: 'user' | 'model', text: string }[], webSearch?: boolean, retry?: boolean }, options: GenerationOptions): Promise<string> {
+    const redactor = createRedactor(options.privacy);
+    const call = () => generate({
+        task: request.task,
+        parts: [{ text: redactor.redact(request.prompt) }],
+        history: request.history?.map(m => ({ role: m.role, text: redactor.redact(m.text) })),
+        systemInstruction: `${request.systemInstruction}\n${PLACEHOLDER_NOTE}`,
+        temperature: request.temperature,
+        webSearch: request.webSearch,
+        signal: options.signal,
+        onText: options.onText && (text => options.onText!(redactor.restore(text)))
+    }, options.usage);
+    const response = request.retry === false ? await call() : await retryWithBackoff<LlmResponse>(call, 3, 3000, options.signal);
+    return redactor.restore(response.text);
+}
+
+// Helper for Exponential Backoff; a cancellation is never retried and also cuts the wait short.
+// A 429 pauses every call (generate waits the pause out) instead of only this one.
+async function retryWithBackoff<T>(fn: () => Promise<T>, retries = 3, baseDelay = 3000, signal?: AbortSignal): Promise<T> {
     try {
         return await fn();
     } catch (error: any) {
+        if (isCancelled(error)) throw error;
         const message = error?.message || '';
         const status = error?.status || error?.code;
 
@@ -21,573 +102,266 @@ async function retryWithBackoff<T>(fn: () => Promise<T>, retries = 3, baseDelay
 
         if (retries > 0) {
             console.warn(`API Error (${status}). Retrying in ${baseDelay}ms...`);
-            await new Promise(resolve => setTimeout(resolve, baseDelay));
-            return retryWithBackoff(fn, retries - 1, baseDelay * 2);
+            if (isRateLimited(error)) pauseCalls(baseDelay);
+            else await sleep(baseDelay, signal);
+            return retryWithBackoff(fn, retries - 1, baseDelay * 2, signal);
         }
         throw error;
     }
 }
 
-/**
- * Sanitizes a base64 string for safe use with Safari's atob() and Gemini SDK.
- * Safari's atob() throws "The string did not match the expected pattern"
- * on any non-base64 character.
- */
-function sanitizeBase64(base64: string): string {
-    if (!base64) return "";
-
-    const raw = base64.includes(',') ? base64.split(',')[1] : base64;
-
-    // FIX #1: \/ escapado — evita SyntaxError "Unexpected token ')'" no Safari
-    // ANTES (bug): /[^A-Za-z0-9+/=]/g
-    // DEPOIS (fix): /[^A-Za-z0-9+\/=]/g
-    const cleaned = raw.replace(/[^A-Za-z0-9+\/=]/g, '');
-
-    const contentWithoutPadding = cleaned.replace(/=/g, '');
-    const remainder = contentWithoutPadding.length % 4;
-
-    if (remainder === 0) return contentWithoutPadding;
-    if (remainder === 2) return contentWithoutPadding + '==';
-    if (remainder === 3) return contentWithoutPadding + '=';
-
-    return contentWithoutPadding.substring(0, contentWithoutPadding.length - 1);
-}
-
-function customBase64ToUint8Array(base64: string): Uint8Array {
-    const raw = base64.includes(',') ? base64.split(',')[1] : base64;
-
-    // FIX #2: \/ escapado — mesma correção do Safari
-    // ANTES (bug): /[^A-Za-z0-9+/]/g
-    // DEPOIS (fix): /[^A-Za-z0-9+\/]/g
-    const cleaned = raw.replace(/[^A-Za-z0-9+\/]/g, '');
-    const len = cleaned.length;
-    let bufferLength = Math.floor((len * 3) / 4);
-    if (cleaned[len - 1] === '=') bufferLength--;
-    if (cleaned[len - 2] === '=') bufferLength--;
-
-    const bytes = new Uint8Array(bufferLength);
-    const lookup = new Uint8Array(256);
-    const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
-    for (let i = 0; i < alphabet.length; i++) lookup[alphabet.charCodeAt(i)] = i;
-
-    let p = 0;
-    for (let i = 0; i < len; i += 4) {
-        const encoded1 = lookup[cleaned.charCodeAt(i)];
-        const encoded2 = lookup[cleaned.charCodeAt(i + 1)];
-        const encoded3 = lookup[cleaned.charCodeAt(i + 2)];
-        const encoded4 = lookup[cleaned.charCodeAt(i + 3)];
-
-        bytes[p++] = (encoded1 << 2) | (encoded2 >> 4);
-        if (p < bufferLength) bytes[p++] = ((encoded2 & 15) << 4) | (encoded3 >> 2);
-        if (p < bufferLength) bytes[p++] = ((encoded3 & 3) << 6) | (encoded4 & 63);
-    }
-    return bytes;
-}
-
-function safeDecodeBase64(str: string): string {
-    try {
-        const bytes = customBase64ToUint8Array(str);
-        return new TextDecoder('utf-8', { fatal: false }).decode(bytes);
-    } catch (e) {
-        return '';
-    }
-}
-
-function parseFinancialNumber(val: any): number {
-    if (typeof val === 'number') return val;
-    if (!val) return 0;
-
-    let clean = String(val).trim();
-
-    if (!clean || clean === '-' || clean === '–') return 0;
-
-    clean = clean.replace(/^R\$\s?/, '').replace(/\s/g, '');
-
-    clean = clean.replace(/O/gi, '0')
-        .replace(/l/g, '1')
-        .replace(/[^0-9.,\-()]/g, '');
-
-    const isNegativeParens = /^\(.*\)$/.test(clean);
-    if (isNegativeParens) {
-        clean = clean.replace(/[()]/g, '');
-    }
-
-    const lastDotIndex = clean.lastIndexOf('.');
-    const lastCommaIndex = clean.lastIndexOf(',');
-
-    if (lastCommaIndex > lastDotIndex) {
-        clean = clean.replace(/\./g, '').replace(',', '.');
-    } else if (lastDotIndex > lastCommaIndex) {
-        clean = clean.replace(/,/g, '');
-    } else {
-        if (clean.includes(',')) clean = clean.replace(',', '.');
-    }
-
-    let num = parseFloat(clean);
-
-    if (isNaN(num)) return 0;
-    if (isNegativeParens) num = -Math.abs(num);
-
-    return num;
+// Splits model or text-layer output into lines tagged with the page(s) they came from
+function toSourceLines(text: string | string[], pages: number[], origin: SourceLine['origin']): SourceLine[] {
+    const lines = typeof text === 'string' ? text.split('\n') : text;
+    return lines.filter(l => l.trim().length > 0).map(l => ({ text: l, pages, origin }));
 }
 
-function checkInversion(name: string, type: 'Debit' | 'Credit', finalBalance: number, indicator: string | null, code: string): boolean {
-    const lowerName = name.toLowerCase();
-    let expectedNature: 'Debit' | 'Credit' | 'Unknown' = 'Unknown';
-
-    if (code.startsWith('1')) expectedNature = 'Debit';
-    else if (code.startsWith('2')) expectedNature = 'Credit';
-    else if (code.startsWith('3') || code.startsWith('4')) {
-        if (lowerName.includes('receita') || lowerName.includes('faturamento') || lowerName.includes('venda')) expectedNature = 'Credit';
-        else if (lowerName.includes('despesa') || lowerName.includes('custo') || lowerName.includes('gastos')) expectedNature = 'Debit';
-    }
-
-    const deductionKeywords = ['devolu', 'cancelamento', 'abatimento', 'imposto sobre', 'tributo sobre'];
-    if (deductionKeywords.some(k => lowerName.includes(k))) {
-        expectedNature = (expectedNature === 'Debit') ? 'Credit' : 'Debit';
-    }
-
-    if (lowerName.includes('depreciação acumulada') || lowerName.includes('amortização acumulada')) {
-        expectedNature = 'Credit';
-    }
-
-    let actualNature: 'Debit' | 'Credit' = type;
-    if (indicator) {
-        if (indicator.toUpperCase() === 'D') actualNature = 'Debit';
-        if (indicator.toUpperCase() === 'C') actualNature = 'Credit';
-    } else {
-        if (finalBalance < 0) actualNature = (type === 'Debit') ? 'Credit' : 'Debit';
-    }
-
-    if (expectedNature !== 'Unknown' && expectedNature !== actualNature) {
-        if (lowerName.includes('lucro') || lowerName.includes('prejuízo') || lowerName.includes('resultado')) return false;
-        return true;
-    }
-
-    return false;
+// Schema rows become source lines that carry their columns; `text` is only what the provenance panel shows
+function rowsToSourceLines(extraction: { lines: string[], rows?: ParsedExtraction['rows'] }, pages: number[]): SourceLine[] {
+    return [
+        ...toSourceLines(extraction.lines, pages, 'ai'),
+        ...(extraction.rows || []).map(row => ({ text: formatRowLine(row), pages, origin: 'ai' as const, row }))
+    ];
 }
 
-function mapValuesToColumns(numbers: number[], docType: string): { initial: number, debit: number, credit: number, final: number } {
-    const count = numbers.length;
-    let initial = 0, debit = 0, credit = 0, final = 0;
-
-    if (docType === 'DRE') {
-        if (count > 0) final = numbers[0];
-        return { initial, debit, credit, final };
-    }
+/**
+ * Sends one extraction request under the response schema and repairs the answer:
+ * a truncated answer is continued after its last complete row, and rows that fail
+ * validation are re-requested once. Whatever is still wrong is left in `problems`.
+ */
+async function requestExtraction(parts: LlmPart[], maxOutputTokens: number, context: CallContext, temperature = 0.0): Promise<ParsedExtraction> {
+    const { redactor, signal } = context;
+    const ask = async (followUp?: string) => {
+        const response = await retryWithBackoff<LlmResponse>(() => generate({
+            task: 'extraction',
+            // Follow-ups quote restored rows, so they are masked again
+            parts: followUp ? [...parts, { text: redactor.redact(followUp) }] : parts,
+            responseSchema: EXTRACTION_RESPONSE_SCHEMA,
+            temperature, maxOutputTokens, signal
+        }, context.meter), 3, 3000, signal);
+        const parsed = parseExtractionResponse(response.text, response.truncated);
+        return { ...parsed, headerLines: parsed.headerLines.map(redactor.restore), rows: redactor.restoreDeep(parsed.rows) };
+    };
 
-    if (count === 1) {
-        final = numbers[0];
-    } else if (count === 2) {
-        initial = numbers[0];
-        final = numbers[1];
-    } else if (count === 3) {
-        debit = numbers[0];
-        credit = numbers[1];
-        final = numbers[2];
-    } else if (count >= 4) {
-        initial = numbers[0];
-        debit = numbers[1];
-        credit = numbers[2];
-        final = numbers[3];
+    let parsed = await ask();
+    for (let i = 0; i < MAX_CONTINUATIONS && parsed.truncated && parsed.rows.length > 0; i++) {
+        const last = parsed.rows[parsed.rows.length - 1];
+        console.warn(`Extraction answer cut off after "${last.name}", asking for the rest (${i + 1}/${MAX_CONTINUATIONS})`);
+        const rest = await ask(`YOUR PREVIOUS ANSWER WAS CUT OFF AFTER THE ROW "${last.code} ${last.name}" (${last.final_balance}). RETURN ONLY THE ROWS THAT COME AFTER IT, WITH THE SAME SCHEMA.`);
+        parsed = { ...parsed, rows: [...parsed.rows, ...rest.rows], problems: [...parsed.problems, ...rest.problems], truncated: rest.truncated };
     }
 
-    return { initial, debit, credit, final };
-}
-
-function normalizeFinancialData(rawLines: string[], docType: string): AnalysisResult {
-    const accounts: ExtractedAccount[] = [];
-
-    rawLines.forEach(line => {
-        let cleanLine = line.trim();
-        if (!cleanLine || cleanLine.length < 5) return;
-
-        if (/^(doctype|data|conta|descri|saldo|débito|crédito|página|page|cod|cód|movimento|transporte|historico|empresa|cnpj)/i.test(cleanLine)) return;
-        if (/^\|?[\s-]+\|?$/.test(cleanLine)) return;
-
-        let code = '';
-        let name = '';
-        let valuesPart: number[] = [];
-        let type: 'Debit' | 'Credit' = 'Debit';
-
-        // --- STRATEGY 1: PIPE SEPARATOR ---
-        if (cleanLine.includes('|')) {
-            const parts = cleanLine.split('|').map(p => p.trim()).filter(p => p.length > 0);
-
-            if (parts.length >= 2) {
-                const firstLooksLikeCode = /^[\d.-]+$/.test(parts[0]) && parts[0].length < 20;
-
-                if (firstLooksLikeCode) {
-                    code = parts[0];
-                    name = parts[1];
-                    for (let i = 2; i < parts.length; i++) {
-                        if (/^[DC%]$/i.test(parts[i])) continue;
-                        const val = parseFinancialNumber(parts[i]);
-                        valuesPart.push(val);
-                    }
-                } else {
-                    name = parts[0];
-                    for (let i = 1; i < parts.length; i++) {
-                        if (/^[DC%]$/i.test(parts[i])) continue;
-                        valuesPart.push(parseFinancialNumber(parts[i]));
-                    }
-                }
-            }
-        }
-
-        // --- STRATEGY 2: REVERSE PARSING (Fallback) ---
-        if (valuesPart.length === 0) {
-            cleanLine = cleanLine.replace(/\.{3,}/g, ' ');
-
-            const tokens = cleanLine.split(/\s+/);
-            const foundNumbers: number[] = [];
-            let lastTokenIndex = tokens.length - 1;
-            let numbersFoundCount = 0;
-
-            while (lastTokenIndex >= 0 && numbersFoundCount < 4) {
-                const token = tokens[lastTokenIndex];
-
-                if (/^[DC%]$/i.test(token)) {
-                    lastTokenIndex--;
-                    continue;
-                }
-
-                if (/^[\d.,\-()]+$/.test(token) && /\d/.test(token)) {
-                    const val = parseFinancialNumber(token);
-                    foundNumbers.unshift(val);
-                    numbersFoundCount++;
-                    lastTokenIndex--;
-                } else {
-                    if (token.toUpperCase() === 'R$') {
-                        lastTokenIndex--;
-                    } else {
-                        break;
-                    }
-                }
-            }
-
-            if (foundNumbers.length > 0) {
-                valuesPart = foundNumbers;
-                const nameTokens = tokens.slice(0, lastTokenIndex + 1);
-                if (nameTokens.length > 0) {
-                    if (/^[\d.-]+$/.test(nameTokens[0])) {
-                        code = nameTokens[0];
-                        name = nameTokens.slice(1).join(' ');
-                    } else {
-                        name = nameTokens.join(' ');
-                    }
-                }
-            }
-        }
-
-        name = name.replace(/[.|]{2,}/g, '').trim();
-        if (!name || name.length < 2 || valuesPart.length === 0) return;
-
-        const lowerName = name.toLowerCase();
-
-        // FIX #3: Detecção de tipo Credit corrigida para Receita Bruta
-        // PROBLEMA: AnalysisViewer filtra receita com `&& a.type === 'Credit'`
-        // ANTES (bug): lowerName.includes('vendas')
-        //   → "VENDA DE MERCADORIAS A PRAZO" não contém "vendas" → type = 'Debit' → Receita Bruta = R$ 0,00
-        // DEPOIS (fix): lowerName.includes('venda') cobre 'venda de ...', 'vendas', 'venda a prazo', etc.
-        if (code.startsWith('2') || code.startsWith('3') || code.startsWith('6') ||
-            lowerName.includes('passivo') ||
-            lowerName.includes('fornecedor') ||
-            lowerName.includes('receita') ||
-            lowerName.includes('patrimônio') ||
-            lowerName.includes('capital') ||
-            lowerName.includes('lucro') ||
-            lowerName.includes('venda') ||            // FIX: era 'vendas', agora cobre 'venda de mercadorias', etc.
-            lowerName.includes('faturamento') ||      // FIX: adicionado
-            lowerName.includes('serviços prestados')  // FIX: adicionado
-        ) {
-            type = 'Credit';
-        }
-
-        // Exceção: devoluções e cancelamentos são sempre Debit, mesmo com 'venda' no nome
-        if (lowerName.includes('devoluc') || lowerName.includes('devolução') ||
-            lowerName.includes('cancelamento') || lowerName.includes('abatimento')) {
-            type = 'Debit';
-        }
-
-        if (docType === 'DRE') {
-            if (lowerName.includes('custo') || lowerName.includes('despesa') ||
-                lowerName.includes('imposto') || lowerName.includes('cmv')) {
-                type = 'Debit';
-            }
-        }
-
-        const values = mapValuesToColumns(valuesPart, docType);
-        const cleanCode = code.endsWith('.') ? code.slice(0, -1) : code;
-
-        let category = null;
-        if (docType === 'DRE' || code.startsWith('3') || code.startsWith('4') || code.startsWith('5')) {
-            if (lowerName.includes('receita') || lowerName.includes('custo') || lowerName.includes('despesa') || code.startsWith('3') || code.startsWith('4')) category = 'Operacional';
-            else if (lowerName.includes('invest') || lowerName.includes('imobiliz')) category = 'Investimento';
-            else if (lowerName.includes('juro') || lowerName.includes('financ')) category = 'Financiamento';
-            else category = 'Operacional';
-        }
-
-        let finalBal = values.final;
-
-        if (docType === 'DRE') {
-            if (values.debit === 0 && values.credit === 0) {
-                if (type === 'Debit') values.debit = Math.abs(finalBal);
-                else values.credit = Math.abs(finalBal);
-            }
-            if (type === 'Debit') finalBal = -Math.abs(finalBal);
-            else finalBal = Math.abs(finalBal);
-        } else {
-            if (finalBal === 0 && (values.debit !== 0 || values.credit !== 0)) {
-                finalBal = values.debit - values.credit;
-            }
-        }
-
-        const possibleInversion = checkInversion(name, type, finalBal, null, cleanCode);
-
-        accounts.push({
-            account_code: cleanCode,
-            account_name: name,
-            initial_balance: values.initial,
-            debit_value: values.debit,
-            credit_value: values.credit,
-            final_balance: finalBal,
-            total_value: Math.abs(finalBal),
-            type,
-            possible_inversion: possibleInversion,
-            ifrs18_category: category as any,
-            level: 1,
-            is_synthetic: false
-        });
-    });
-
-    // Post-processing hierarchy
-    accounts.sort((a, b) => {
-        if (!a.account_code) return 1;
-        if (!b.account_code) return -1;
-        return a.account_code.localeCompare(b.account_code, undefined, { numeric: true, sensitivity: 'base' });
-    });
-
-    accounts.forEach((acc, idx) => {
-        if (acc.account_code) {
-            acc.level = acc.account_code.split(/[.-]/).filter(x => x.length > 0).length;
-            const myCode = acc.account_code;
-            let isParent = false;
-            const nextAcc = accounts[idx + 1];
-            if (nextAcc && nextAcc.account_code && nextAcc.account_code.startsWith(myCode)) {
-                const charAfter = nextAcc.account_code[myCode.length];
-                if (charAfter === '.' || charAfter === '-' || charAfter === undefined) isParent = true;
-            }
-            acc.is_synthetic = isParent;
-        } else if (acc.account_name.toLowerCase().startsWith('total') ||
-                   acc.account_name.toLowerCase().startsWith('grupo') ||
-                   acc.account_name.toLowerCase().startsWith('resultado')) {
-            acc.is_synthetic = true;
-        }
-    });
-
-    const analyticalAccounts = accounts.filter(a => !a.is_synthetic);
-    const calcAccounts = analyticalAccounts.length > 0
-        ? analyticalAccounts
-        : accounts.filter(a => !a.account_name.toLowerCase().includes('total'));
-
-    const total_debits = calcAccounts.reduce((sum, a) => sum + Math.abs(a.debit_value), 0);
-    const total_credits = calcAccounts.reduce((sum, a) => sum + Math.abs(a.credit_value), 0);
-    const discrepancy = Math.abs(total_debits - total_credits);
-
-    let calculatedResult = 0;
-    let resultLabel = 'Resultado do Período';
-
-    if (docType === 'DRE') {
-        const revenue = analyticalAccounts.filter(a => a.type === 'Credit').reduce((sum, a) => sum + Math.abs(a.final_balance), 0);
-        const expenses = analyticalAccounts.filter(a => a.type === 'Debit').reduce((sum, a) => sum + Math.abs(a.final_balance), 0);
-        calculatedResult = revenue - expenses;
-        resultLabel = calculatedResult >= 0 ? 'Lucro Líquido Apurado' : 'Prejuízo Líquido Apurado';
-    } else {
-        let revenueSum = 0, expenseSum = 0;
-        analyticalAccounts.forEach(acc => {
-            if (acc.account_code) {
-                const firstChar = acc.account_code.charAt(0);
-                if (['3', '4', '5', '6', '7'].includes(firstChar)) {
-                    if (acc.type === 'Credit') revenueSum += Math.abs(acc.final_balance);
-                    if (acc.type === 'Debit') expenseSum += Math.abs(acc.final_balance);
-                }
-            } else {
-                const lower = acc.account_name.toLowerCase();
-                if ((lower.includes('receita') || lower.includes('faturamento') || lower.includes('venda')) && acc.type === 'Credit') {
-                    revenueSum += Math.abs(acc.final_balance);
-                }
-                if ((lower.includes('despesa') || lower.includes('custo')) && acc.type === 'Debit') {
-                    expenseSum += Math.abs(acc.final_balance);
-                }
-            }
-        });
-        calculatedResult = revenueSum - expenseSum;
-
-        if (Math.abs(calculatedResult) < 0.01) {
-            const resultAccount = analyticalAccounts.find(a =>
-                /lucro\s+l[ií]quido|preju[ií]zo\s+l[ií]quido/i.test(a.account_name)
-            );
-            if (resultAccount) {
-                calculatedResult = resultAccount.final_balance;
-                resultLabel = resultAccount.account_name;
-            }
-        }
+    if (parsed.problems.length > 0 || (parsed.truncated && parsed.rows.length === 0)) {
+        console.warn("Invalid extraction answer, requesting it again:", parsed.problems);
+        const retried = await ask(`YOUR PREVIOUS ANSWER WAS INVALID (${parsed.problems.slice(0, 10).join('; ')}). EXTRACT AGAIN, RETURNING EVERY ROW WITH ITS AMOUNTS EXACTLY AS PRINTED.`);
+        const score = (p: ParsedExtraction) => p.problems.length + (p.truncated ? 1 : 0);
+        if (score(retried) < score(parsed) || (score(retried) === score(parsed) && retried.rows.length > parsed.rows.length)) parsed = retried;
     }
-
-    return {
-        summary: {
-            document_type: docType as any,
-            period: 'A definir',
-            total_debits,
-            total_credits,
-            is_balanced: docType === 'DRE' ? true : discrepancy < 1.0,
-            discrepancy_amount: discrepancy,
-            observations: [],
-            specific_result_value: calculatedResult,
-            specific_result_label: resultLabel
-        },
-        accounts,
-        spell_check: []
-    };
+    if (parsed.truncated) parsed.problems = [...parsed.problems, `resposta interrompida após ${parsed.rows.length} linha(s)`];
+    return parsed;
 }
 
 // --- PDF EXTRACTION ---
-async function extractRawData(ai: GoogleGenAI, fileBase64: string, mimeType: string): Promise<{ lines: string[], docType: string }> {
-    const safetySettings = [
-        { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-        { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-        { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-        { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-    ];
+async function extractRawData(fileBase64: string, mimeType: string, options: AnalyzeOptions, context: CallContext): Promise<{ lines: SourceLine[], docType: string, report?: ExtractionReport, profile: LayoutProfile | null, comparative: ComparativeColumns | null, metadata: DocumentMetadata, warnings: string[] }> {
+    const basePrompt = context.prompts.extraction.build();
 
-    const basePrompt = `
-    TASK: Financial Data Extraction.
-    OUTPUT FORMAT: "CODE | ACCOUNT NAME | VALUE"
-    
-    CRITICAL RULES:
-    1. EXTRACT LINE BY LINE FROM ALL PROVIDED IMAGES/PAGES.
-    2. FORCE PIPE SEPARATOR (|) between Code, Name, and Value.
-    3. IGNORE NON-MONETARY COLUMNS (e.g., %, AV, AH, Indicators D/C).
-    4. IF MULTIPLE VALUE COLUMNS (e.g., Period 1 | Period 2): EXTRACT ONLY CURRENT PERIOD.
-    5. KEEP ORIGINAL NUMBER FORMAT (e.g. 1.000,00).
-    6. NO MARKDOWN TABLES, JUST RAW TEXT LINES.
-    7. IGNORE HEADERS/FOOTERS. DO NOT SUMMARIZE.
-    
-    Example:
-    3.01 | Receita Vendas | 100.000,00
-    3.02 | (-) Devoluções | (10.000,00)
-    | Total Receita | 90.000,00
-    `;
 
     try {
-        let extractedText = "";
+        let extracted: SourceLine[] = [];
         let docType = 'Balancete';
+        let report: ExtractionReport | undefined;
+        // Lines the ERP layout is detected from; the model rewrites rows, so the source text is preferred
+        let sourceHead: string[] = [];
+        // Extraction problems that survived the repair attempts, reported on the result
+        const warnings: string[] = [];
 
         if (mimeType === 'text/csv' || mimeType === 'text/plain' || mimeType === 'application/csv') {
             const decodedText = safeDecodeBase64(fileBase64);
             const allLines = decodedText.split('\n');
-            const CHUNK_SIZE = 600;
+            sourceHead = allLines.slice(0, 60);
+            // Rows cost more output tokens as JSON than as pipe text
+            const CHUNK_SIZE = 250;
             const chunks: string[] = [];
             for (let i = 0; i < allLines.length; i += CHUNK_SIZE) {
                 chunks.push(allLines.slice(i, i + CHUNK_SIZE).join('\n'));
             }
 
             for (let i = 0; i < chunks.length; i++) {
-                const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-                    model: 'gemini-2.0-flash',
-                    contents: { parts: [{ text: basePrompt + `\n\n--- SEGMENT ${i + 1} OF ${chunks.length} ---\n${chunks[i]}\n--- END SEGMENT ---` }] },
-                    config: { temperature: 0.0, maxOutputTokens: 8192, safetySettings }
-                }));
-                if (response.text) extractedText += response.text + "\n";
+                const segment = await requestExtraction([{ text: basePrompt + `\n\n--- SEGMENT ${i + 1} OF ${chunks.length} ---\n${context.redactor.redact(chunks[i])}\n--- END SEGMENT ---` }], 16384, context);
+                extracted.push(...rowsToSourceLines({ lines: segment.headerLines, rows: segment.rows }, []));
+                warnings.push(...segment.problems.map(p => `segmento ${i + 1}: ${p}`));
             }
         }
         else if (mimeType === 'application/pdf') {
-            console.log("Sending PDF directly to Gemini for extraction...");
             const sanitizedPdf = sanitizeBase64(fileBase64);
-            const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-                model: 'gemini-2.0-flash',
-                contents: {
-                    parts: [
-                        { inlineData: { mimeType: 'application/pdf', data: sanitizedPdf } },
-                        { text: basePrompt + "\n\nEXTRACT EVERY SINGLE ROW FROM ALL PAGES." }
-                    ]
-                },
-                config: { temperature: 0.0, maxOutputTokens: 65000, safetySettings }
-            }));
-            if (response.text) extractedText = response.text;
+
+            // Digital PDFs are read from their text layer; only scanned pages go to the model.
+            let pdf: PDFDocumentProxy | null = null;
+            let pages: PdfPageText[] = [];
+            options.onProgress?.({ stage: 'reading', total_pages: 0, done_pages: 0, failed_pages: [] });
+            try {
+                pdf = await loadPdfDocument(customBase64ToUint8Array(sanitizedPdf));
+                pages = await extractPdfText(pdf);
+            } catch (e) {
+                if (isCancelled(e)) throw e;
+                console.warn("Local PDF text extraction failed, sending the whole file to the model:", e);
+                pdf = null;
+            }
+            throwIfCancelled(options.signal);
+
+            // Without a canvas (the API server) scanned pages cannot be rendered one by one: the model reads the whole file
+            if (pdf && !canRenderPages() && pages.some(p => !p.hasTextLayer)) {
+                await pdf.destroy();
+                pdf = null;
+            }
+
+            if (pdf) {
+                const doc = pdf;
+                const localPages = pages.filter(p => p.hasTextLayer);
+                // Page images cannot be redacted: without the company's consent scanned pages stay local
+                const allowImages = options.privacy?.allow_images ?? true;
+                const scannedPages = allowImages ? pages.filter(p => !p.hasTextLayer) : [];
+                const withheldPages = allowImages ? [] : pages.filter(p => !p.hasTextLayer).map(p => p.pageNumber);
+                options.onLog?.(`PDF text layer found on ${localPages.length}/${pages.length} pages.`);
+                if (localPages.length === 0 && withheldPages.length > 0) throw new Error(IMAGES_WITHHELD_MESSAGE);
+
+                const failedPages: number[] = [];
+                let donePages = localPages.length;
+                const emitProgress = (current?: number[]) => options.onProgress?.({
+                    stage: 'extracting', total_pages: pages.length, done_pages: donePages,
+                    current_pages: current, failed_pages: [...failedPages]
+                });
+                emitProgress();
+
+                // Scanned pages go to the model in small batches so one truncated response
+                // only costs a few pages; finished batches are checkpointed for resume.
+                const fingerprint = fingerprintFile(sanitizedPdf);
+                const outcome = await runPageQueue(
+                    chunkPages(scannedPages.map(p => p.pageNumber), PAGE_BATCH_SIZE),
+                    async (pageNumbers) => {
+                        const images = await Promise.all(pageNumbers.map(n => renderPageImage(doc, n)));
+                        const batch = await requestExtraction([
+                            ...images.map(data => ({ inlineData: { mimeType: 'image/jpeg', data } })),
+                            { text: basePrompt + "\n\nEXTRACT EVERY SINGLE ROW FROM THESE PAGES, IN ORDER." }
+                        ], 16384, context);
+                        // Only an answer without a single usable row fails the batch; the queue retries it page by page
+                        // and reports the pages that keep failing. Invalid rows next to good ones are only warned about.
+                        if (batch.rows.length === 0 && batch.problems.length > 0) throw new Error(`Extração inválida nas páginas ${pageNumbers.join(', ')}: ${batch.problems.slice(0, 3).join('; ')}.`);
+                        warnings.push(...batch.problems.map(p => `páginas ${pageNumbers.join(', ')}: ${p}`));
+                        return { lines: batch.headerLines, rows: batch.rows };
+                    },
+                    {
+                        fingerprint,
+                        totalPages: pages.length,
+                        resume: !!options.resume,
+                        signal: options.signal,
+                        onResumed: (resumed) => { donePages += resumed.length; emitProgress(); },
+                        onBatchStart: (batch) => emitProgress(batch),
+                        onBatchDone: (batch, failed) => {
+                            donePages += batch.length - failed.length;
+                            failedPages.push(...failed);
+                            emitProgress();
+                        }
+                    }
+                ).finally(() => doc.destroy());
+
+                const segments = [
+                    ...localPages.map(p => ({ first: p.pageNumber, lines: toSourceLines(p.lines, [p.pageNumber], 'text_layer') })),
+                    ...outcome.batches.map(b => ({ first: Math.min(...b.pages), lines: rowsToSourceLines({ lines: [], rows: b.rows }, b.pages) }))
+                ].sort((a, b) => a.first - b.first);
+                // Each batch's DOCTYPE / EMPRESA / PERÍODO lines stay out of the segments, or they would sit
+                // between a page's last row and its repetition on the next page and defeat the overlap check
+                const batchHeaders = outcome.batches.flatMap(b => toSourceLines(b.lines, b.pages, 'ai'));
+
+                // Page titles only serve the document type detection below and are dropped with the DOCTYPE lines.
+                // Pages sent to the model for want of rows still lend their titles.
+                const headings = pages.flatMap(p => toSourceLines(p.headings.slice(0, 3).map(h => `DOCTYPE: ${h}`), [p.pageNumber], 'text_layer'));
+                // The period column header may sit further down the page than the titles
+                const columnHeaders = pages.flatMap(p => toSourceLines(p.headings.map(h => `PERIODS: ${h}`), [p.pageNumber], 'text_layer'));
+                extracted = [...headings, ...columnHeaders, ...batchHeaders, ...mergePageLines(segments.map(s => s.lines))];
+
+                if (outcome.failedPages.length === 0) clearCheckpoint(fingerprint);
+                report = {
+                    method: scannedPages.length === 0 ? 'local' : localPages.length === 0 ? 'ai' : 'mixed',
+                    total_pages: pages.length,
+                    local_pages: localPages.map(p => p.pageNumber),
+                    ai_pages: scannedPages.map(p => p.pageNumber),
+                    failed_pages: outcome.failedPages,
+                    resumed_pages: outcome.resumedPages,
+                    ...(withheldPages.length > 0 ? { withheld_pages: withheldPages } : {})
+                };
+            } else {
+                if (options.privacy && !options.privacy.allow_images) throw new Error(IMAGES_WITHHELD_MESSAGE);
+                options.onLog?.('Sending PDF directly to the model for extraction...');
+                const whole = await requestExtraction([
+                    { inlineData: { mimeType: 'application/pdf', data: sanitizedPdf } },
+                    { text: basePrompt + "\n\nEXTRACT EVERY SINGLE ROW FROM ALL PAGES." }
+                ], 65000, context);
+                extracted = rowsToSourceLines({ lines: whole.headerLines, rows: whole.rows }, []);
+                warnings.push(...whole.problems);
+            }
         } else {
+            if (options.privacy && !options.privacy.allow_images) throw new Error(IMAGES_WITHHELD_MESSAGE);
             const sanitizedData = sanitizeBase64(fileBase64);
-            const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-                model: 'gemini-2.0-flash',
-                contents: {
-                    parts: [
-                        { inlineData: { mimeType: mimeType, data: sanitizedData } },
-                        { text: basePrompt + "\n\nEXTRACT EVERYTHING." }
-                    ]
-                },
-                config: { temperature: 0.1, maxOutputTokens: 65000, safetySettings }
-            }));
-            extractedText = response.text || "";
+            const whole = await requestExtraction([
+                { inlineData: { mimeType: mimeType, data: sanitizedData } },
+                { text: basePrompt + "\n\nEXTRACT EVERYTHING." }
+            ], 65000, context, 0.1);
+            extracted = rowsToSourceLines({ lines: whole.headerLines, rows: whole.rows }, []);
+            warnings.push(...whole.problems);
         }
 
-        let lines = extractedText.split('\n').filter(l => l.trim().length > 0);
-
-        const docTypeLine = lines.find(l => /Balanço|Balancete|Demonstração|Resultado/i.test(l));
+        const texts = extracted.map(l => l.text);
+        const docTypeLine = texts.filter(l => !l.startsWith('PERIODS:')).find(l => /Balanço|Balancete|Demonstração|Resultado/i.test(l));
         if (docTypeLine) {
             if (/Resultado|DRE/i.test(docTypeLine)) docType = 'DRE';
             else if (/Balanço/i.test(docTypeLine)) docType = 'Balanço Patrimonial';
         }
 
-        lines = lines.filter(l => !l.startsWith('DOCTYPE') && /\d/.test(l));
+        const profile = detectLayoutProfile(sourceHead.length > 0 ? sourceHead : texts);
+        if (profile) options.onLog?.(`Layout profile detected: ${profile.name}`);
+
+        // Only two-period statements are read as comparatives; a balancete's columns are fixed
+        const comparative = docType === 'Balancete' ? null : detectComparativeColumns(sourceHead.length > 0 ? [...sourceHead, ...texts] : texts);
+        if (comparative) options.onLog?.(`Comparative columns: ${comparative.current_label} vs ${comparative.previous_label}`);
+
+        // Company, CNPJ and period from the header; a comparative's current column stands in for the period
+        const headerTexts = texts.filter(l => !/\d,\d{2}\b/.test(l)).map(l => l.replace(/^(DOCTYPE|PERIODS):\s*/, ''));
+        const metadata = extractDocumentMetadata(sourceHead.length > 0 ? [...sourceHead, ...headerTexts] : headerTexts);
+        if (!metadata.period && comparative) metadata.period = parsePeriodText(comparative.current_label, 'document') || undefined;
+        if (metadata.period) options.onLog?.(`Period read from the document: ${formatPeriod(metadata.period)}`);
 
-        return { lines, docType };
+        // Schema rows were validated already; only text-layer lines still need the digit check
+        const lines = extracted.filter(l => l.row || (!/^(DOCTYPE|PERIODS:|PERÍODO:|EMPRESA:)/.test(l.text.trim()) && /\d/.test(l.text)));
+
+        return { lines, docType, report, profile, comparative, metadata, warnings };
 
     } catch (e: any) {
+        if (isCancelled(e)) throw e;
         console.error("Extraction Error:", e);
         throw new Error(`Erro na extração: ${e.message}`);
     }
 }
 
-async function generateNarrativeAnalysis(ai: GoogleGenAI, summaryData: any, sampleAccounts: { code: string, name: string }[]): Promise<{
+// Without `rethrow` a failed call leaves the analysis without narrative instead of failing it
+async function generateNarrativeAnalysis(summaryData: any, sampleAccounts: { code: string, name: string }[], context: CallContext, rethrow = false): Promise<{
     observations: string[],
     spellcheck: any[],
     period: string,
     account_audits?: any[]
 }> {
-    const prompt = `
-    ATUE COMO: Auditor Contábil Senior SP Assessoria.
-    DADOS: Doc: ${summaryData.document_type}, Resultado: ${summaryData.specific_result_value}.
-    AMOSTRA CONTAS (Código | Nome): ${sampleAccounts.map(a => `${a.code} | ${a.name}`).join('; ')}
-    
-    TAREFA: 
-    1. Identifique o período (ex: 01/2025 ou 2024 completo).
-    2. Identifique erros ortográficos ou nomenclaturas contábeis fora do padrão (ex: "Despessa" -> "Despesa", "Adiant. Clie" -> "Adiantamento de Clientes").
-    3. Sinalize contas com nomes genéricos ou confusos e sugira a melhor opção técnica e o tipo de lançamento correto.
-    
-    SAÍDA JSON RIGOROSA:
-    {
-      "period": "string",
-      "observations": ["Destaque de auditoria 1", "Destaque 2"],
-      "spellcheck": [{"original_term": "string", "suggested_correction": "string", "confidence": "High"}],
-      "account_audits": [
-        {
-          "code": "string",
-          "name": "string",
-          "name_suggestion": "string",
-          "posting_suggestion": "string (ex: Lançar como despesa administrativa)",
-          "audit_notes": "string (ex: Conta com nome incompleto prejudica a clareza)"
-        }
-      ]
-    }
-    `;
+    const prompt = context.prompts.narrative.build({
+        documentType: summaryData.document_type,
+        resultValue: summaryData.specific_result_value,
+        accounts: context.redactor.redact(sampleAccounts.map(a => `${a.code} | ${a.name}`).join('; '))
+    });
     try {
-        const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-            model: 'gemini-2.0-flash',
-            contents: { parts: [{ text: prompt }] },
-            config: { responseMimeType: "application/json", temperature: 0.2 }
-        }));
-        const parsed = JSON.parse(response.text || '{}');
+        const response = await retryWithBackoff<LlmResponse>(() => generate({
+            task: 'narrative',
+            parts: [{ text: prompt }],
+            json: true, temperature: 0.2, signal: context.signal
+        }, context.meter), 3, 3000, context.signal);
+        const parsed = context.redactor.restoreDeep(JSON.parse(response.text || '{}'));
         return {
             period: parsed.period || "A definir",
             observations: parsed.observations || [],
@@ -595,32 +369,80 @@ async function generateNarrativeAnalysis(ai: GoogleGenAI, summaryData: any, samp
             account_audits: parsed.account_audits || []
         };
     } catch (e) {
+        if (isCancelled(e) || rethrow) throw e;
         return { observations: [], spellcheck: [], period: "Indefinido", account_audits: [] };
     }
 }
 
-export const analyzeDocument = async (fileBase64: string, mimeType: string): Promise<AnalysisResult> => {
-    if (!process.env.API_KEY) throw new Error("API Key not found.");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const analyzeDocument = async (fileBase64: string, mimeType: string, options: AnalyzeOptions = {}): Promise<AnalysisResult> => {
     const sanitizedInput = sanitizeBase64(fileBase64);
-    const { lines, docType } = await extractRawData(ai, sanitizedInput, mimeType);
+    const usage = options.usage || createUsageMeter();
+    // Models as the provider reported them, for the result's provenance
+    const models: AnalysisProvenance['models'] = {};
+    const meter: UsageMeter = { ...usage, record: (task, model, reported) => { models[task] = model; usage.record(task, model, reported); } };
+    const context: CallContext = { meter, signal: options.signal, redactor: createRedactor(options.privacy), prompts: resolvePrompts(options.prompts) };
+
+    // SPED ECD: the layout is fully structured, so it is parsed locally and the
+    // model is only used for the narrative step below.
+    const decodedText = mimeType === 'text/plain' ? safeDecodeBase64(sanitizedInput) : '';
+    const isEcd = decodedText !== '' && isEcdFile(decodedText);
+
+    let result: AnalysisResult;
+    let extractionWarnings: string[] = [];
+    if (isEcd) {
+        result = buildAnalysisFromEcd(parseEcd(decodedText));
+    } else {
+        const { lines, docType, report, profile, comparative, metadata, warnings } = await extractRawData(sanitizedInput, mimeType, options, context);
+
+        if (lines.length === 0) throw new Error("Nenhum dado contábil identificado.");
+        const pageCount = report?.total_pages || 0;
+        options.onProgress?.({ stage: 'normalizing', total_pages: pageCount, done_pages: pageCount, failed_pages: report?.failed_pages || [] });
+        result = normalizeFinancialData(lines, docType, profile, comparative);
+        scoreAccounts(result.accounts, docType);
+        if (report) result.extraction_report = report;
+        if (profile) result.layout_profile = profile.name;
+        if (metadata.period) result.summary.period_info = metadata.period;
+        if (hasDocumentMetadata(metadata)) result.document_metadata = metadata;
+        extractionWarnings = warnings;
+    }
 
-    console.log("Raw Extracted Lines Preview:", lines.slice(0, 10));
+    if (result.accounts.length === 0) throw new Error("Falha na interpretação das linhas. Tente outro formato.");
 
-    if (lines.length === 0) throw new Error("Nenhum dado contábil identificado.");
-    const result = normalizeFinancialData(lines, docType);
+    const pageCount = result.extraction_report?.total_pages || 0;
+    options.onProgress?.({ stage: 'narrative', total_pages: pageCount, done_pages: pageCount, failed_pages: result.extraction_report?.failed_pages || [] });
+    throwIfCancelled(options.signal);
+    const narrative = await generateNarrativeAnalysis(result.summary, narrativeSample(result), context);
+    if (isEcd) {
+        // The ECD header (0000) already carries the exact period
+        result.summary.observations = [...result.summary.observations, ...(narrative.observations || [])];
+    } else {
+        // The model only sees a sample of accounts, so its period is a fallback for what the header did not say
+        result.summary.period_info = result.summary.period_info || parsePeriodText(narrative.period, 'ai') || undefined;
+        result.summary.period = result.summary.period_info ? formatPeriod(result.summary.period_info) : narrative.period || 'Período não identificado';
+        result.summary.observations = narrative.observations || [];
+    }
+    result.spell_check = narrative.spellcheck || [];
 
-    if (result.accounts.length === 0) throw new Error("Falha na interpretação das linhas. Tente outro formato.");
+    if (result.layout_profile) {
+        result.summary.observations.push(`Layout reconhecido: ${result.layout_profile}.`);
+    }
 
-    const sample = result.accounts.slice(0, 150).map(a => ({
-        code: a.account_code || '',
-        name: a.account_name
-    }));
+    const report = result.extraction_report;
+    if (report) {
+        result.summary.observations.push(report.ai_pages.length === 0
+            ? `PDF lido localmente pela camada de texto (${report.total_pages} página(s)).`
+            : `Camada de texto lida localmente em ${report.local_pages.length} de ${report.total_pages} página(s); páginas digitalizadas enviadas à IA: ${report.ai_pages.join(', ')}.`);
+        if (report.withheld_pages?.length) {
+            result.summary.observations.push(`ATENÇÃO: resultado parcial. Páginas digitalizadas não enviadas à IA pela configuração de privacidade da empresa: ${report.withheld_pages.join(', ')}.`);
+        }
+        if (report.failed_pages?.length) {
+            result.summary.observations.push(`ATENÇÃO: resultado parcial. Páginas não extraídas: ${report.failed_pages.join(', ')}. Reenvie o arquivo e use "Retomar" para processar apenas as páginas pendentes.`);
+        }
+    }
 
-    const narrative = await generateNarrativeAnalysis(ai, result.summary, sample);
-    result.summary.period = narrative.period || 'Período não identificado';
-    result.summary.observations = narrative.observations || [];
-    result.spell_check = narrative.spellcheck || [];
+    if (extractionWarnings.length > 0) {
+        result.summary.observations.push(`ATENÇÃO: a resposta da IA veio incompleta ou inválida mesmo após nova solicitação (${extractionWarnings.slice(0, 5).join('; ')}). Confira as linhas do documento.`);
+    }
 
     if (narrative.account_audits) {
         narrative.account_audits.forEach((audit: any) => {
@@ -636,13 +458,33 @@ export const analyzeDocument = async (fileBase64: string, mimeType: string): Pro
         });
     }
 
+    result.usage = meter.total();
+    result.provenance = {
+        prompt_versions: {
+            ...(models.extraction ? { extraction: context.prompts.extraction.version } : {}),
+            ...(models.narrative ? { narrative: context.prompts.narrative.version } : {})
+        },
+        models,
+        parser_version: PARSER_VERSION
+    };
     return result;
 };
 
-export const generateFinancialInsight = async (analysisData: AnalysisResult, userPrompt: string, multiple: number): Promise<string> => {
-    if (!process.env.API_KEY) throw new Error("API Key not found.");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Runs only the narrative step again on a saved analysis, with the given
+ * narrative prompt version (prompt experiments need no original file for it).
+ */
+export const rerunNarrative = async (result: AnalysisResult, version: string, options: GenerationOptions = {}) => {
+    const context: CallContext = {
+        meter: options.usage || createUsageMeter(),
+        signal: options.signal,
+        redactor: createRedactor(options.privacy),
+        prompts: resolvePrompts({ narrative: version })
+    };
+    return generateNarrativeAnalysis(result.summary, narrativeSample(result), context, true);
+};
 
+export const generateFinancialInsight = async (analysisData: AnalysisResult, userPrompt: string, multiple: number, options: GenerationOptions = {}): Promise<string> => {
     const accounts = (analysisData.accounts || [])
         .filter(a => !a.is_synthetic)
         .sort((a, b) => Math.abs(b.final_balance) - Math.abs(a.final_balance))
@@ -650,9 +492,7 @@ export const generateFinancialInsight = async (analysisData: AnalysisResult, use
         .map(a => `${a.account_code || ''} ${a.account_name}: ${a.final_balance}`)
         .join('\n');
 
-    const prompt = `
-    DADOS DO RELATÓRIO:
-    ${accounts}
+    const prompt = `${INSIGHT_OPENINGS.financialHealth}    ${accounts}
     
     PEDIDO ESPECÍFICO:
     ${userPrompt}
@@ -664,57 +504,46 @@ export const generateFinancialInsight = async (analysisData: AnalysisResult, use
     4. Seja técnico, direto e use o tom da SP Assessoria Contábil.
     `;
 
-    const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-        model: 'gemini-2.0-flash',
-        contents: { parts: [{ text: prompt }] },
-        config: {
-            systemInstruction: "Você é o Diretor de Auditoria e Estratégia da SP Assessoria. Sua missão é fornecer um parecer técnico impecável sobre a Saúde Financeira da empresa com base nos dados fornecidos.",
-            temperature: 0.3
-        }
-    }));
-    return response.text || "Análise de saúde financeira não disponível no momento.";
+    const text = await requestRedactedText({
+        task: 'insight',
+        prompt,
+        systemInstruction: SYSTEM_INSTRUCTIONS.financialHealth,
+        temperature: 0.3
+    }, options);
+    return text || "Análise de saúde financeira não disponível no momento.";
 };
 
-export const generateCMVAnalysis = async (analysisData: AnalysisResult, accountingStandard: string): Promise<string> => {
-    if (!process.env.API_KEY) throw new Error("API Key not found.");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const generateCMVAnalysis = async (analysisData: AnalysisResult, accountingStandard: string, options: GenerationOptions = {}): Promise<string> => {
     const accounts = (analysisData.accounts || []).slice(0, 300).map(a => `${a.account_code} ${a.account_name}: ${a.total_value}`).join('\n');
-    const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-        model: 'gemini-2.0-flash',
-        contents: { parts: [{ text: `Analise CMV:\n${accounts}` }] },
-        config: { systemInstruction: `Auditor de Custos SP Assessoria.`, temperature: 0.3 }
-    }));
-    return response.text || "Sem resposta.";
+    const text = await requestRedactedText({
+        task: 'insight',
+        prompt: `${INSIGHT_OPENINGS.costs}${accounts}`,
+        systemInstruction: SYSTEM_INSTRUCTIONS.costs, temperature: 0.3
+    }, options);
+    return text || "Sem resposta.";
 };
 
-export const generateSpedComplianceCheck = async (analysisData: AnalysisResult): Promise<string> => {
-    if (!process.env.API_KEY) throw new Error("API Key not found.");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const generateSpedComplianceCheck = async (analysisData: AnalysisResult, options: GenerationOptions = {}): Promise<string> => {
     const accounts = (analysisData.accounts || []).slice(0, 250).map(a => `${a.account_code || '?'} | ${a.account_name} | ${a.final_balance}`).join('\n');
-    const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-        model: 'gemini-2.0-flash',
-        contents: { parts: [{ text: `Auditoria SPED:\n\n${accounts}` }] },
-        config: { systemInstruction: "Especialista em SPED ECD/ECF SP Assessoria.", temperature: 0.2 }
-    }));
-    return response.text || "Análise não gerada.";
+    const text = await requestRedactedText({
+        task: 'insight',
+        prompt: `${INSIGHT_OPENINGS.sped}${accounts}`,
+        systemInstruction: SYSTEM_INSTRUCTIONS.sped, temperature: 0.2
+    }, options);
+    return text || "Análise não gerada.";
 };
 
-export const chatWithFinancialAgent = async (history: { role: 'user' | 'model', parts: { text: string }[] }[], message: string) => {
-    if (!process.env.API_KEY) throw new Error("API Key not found.");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const chat: Chat = ai.chats.create({
-        model: 'gemini-2.0-flash',
-        history: history,
-        config: { systemInstruction: "Assistente contábil sênior SP Assessoria.", tools: [{ googleSearch: {} }] }
-    });
-    const result: GenerateContentResponse = await chat.sendMessage({ message });
-    return result.text;
+export const chatWithFinancialAgent = async (history: { role: 'user' | 'model', parts: { text: string }[] }[], message: string, options: GenerationOptions = {}) => {
+    return requestRedactedText({
+        task: 'chat',
+        prompt: message,
+        history: history.map(h => ({ role: h.role, text: h.parts.map(p => p.text).join('') })),
+        systemInstruction: SYSTEM_INSTRUCTIONS.chat,
+        webSearch: true, retry: false
+    }, options);
 };
 
-export const generateComparisonAnalysis = async (rows: ComparisonRow[], period1: string, period2: string): Promise<string> => {
-    if (!process.env.API_KEY) throw new Error("API Key not found.");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
+export const generateComparisonAnalysis = async (rows: ComparisonRow[], period1: string, period2: string, options: GenerationOptions = {}): Promise<string> => {
     const topVariations = rows
         .filter(r => !r.is_synthetic)
         .sort((a, b) => Math.abs(b.varAbs) - Math.abs(a.varAbs))
@@ -722,13 +551,11 @@ export const generateComparisonAnalysis = async (rows: ComparisonRow[], period1:
         .map(r => `${r.code} ${r.name}: De ${r.val1} para ${r.val2} (Var Abs: ${r.varAbs}, Var Pct: ${r.varPct.toFixed(2)}%)`)
         .join('\n');
 
-    const response = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-        model: 'gemini-2.0-flash',
-        contents: { parts: [{ text: `Analise as variações financeiras entre os períodos ${period1} e ${period2}. Foque nas contas com maiores variações absolutas e percentuais:\n\n${topVariations}` }] },
-        config: {
-            systemInstruction: "Você é um Auditor Contábil Senior da SP Assessoria especializado em análise horizontal. Forneça insights detalhados sobre os motivos prováveis das variações e destaque riscos ou anomalias.",
-            temperature: 0.3
-        }
-    }));
-    return response.text || "Análise não gerada.";
+    const text = await requestRedactedText({
+        task: 'insight',
+        prompt: `${INSIGHT_OPENINGS.comparison}${period1} e ${period2}. Foque nas contas com maiores variações absolutas e percentuais:\n\n${topVariations}`,
+        systemInstruction: SYSTEM_INSTRUCTIONS.comparison,
+        temperature: 0.3
+    }, options);
+    return text || "Análise não gerada.";
 };
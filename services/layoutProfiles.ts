@@ -0,0 +1,156 @@
+import { ColumnRole, LayoutProfile } from "../types";
+
+const CUSTOM_PROFILES_STORAGE_KEY = 'auditAI_layoutProfiles';
+// Only the top of the document is inspected; ERP names and column headers live there
+const DETECTION_LINES = 60;
+
+const COMMON_SKIP = [
+    '^(p[aá]gina|folha|fls?\\.?)\\s*:?\\s*\\d+',
+    '^emiss[aã]o\\s*:',
+    '^(cnpj|c\\.n\\.p\\.j\\.?)\\s*:',
+    '^per[ií]odo\\s*:'
+];
+
+export const BUILT_IN_PROFILES: LayoutProfile[] = [
+    {
+        id: 'dominio',
+        name: 'Domínio Sistemas',
+        builtIn: true,
+        detect: ['dom[ií]nio\\s+(sistemas|cont[aá]bil)|thomson\\s+reuters'],
+        // Código reduzido | Classificação | Descrição | Saldo Anterior | Débito | Crédito | Saldo Atual
+        columns: ['ignore', 'code', 'name', 'initial_balance', 'debit', 'credit', 'final_balance'],
+        codeFormat: 'classification',
+        signConvention: 'indicator',
+        skip: [...COMMON_SKIP, '^sistema\\s+licenciado', '^dom[ií]nio']
+    },
+    {
+        id: 'alterdata',
+        name: 'Alterdata',
+        builtIn: true,
+        detect: ['alterdata'],
+        columns: ['code', 'name', 'initial_balance', 'debit', 'credit', 'final_balance'],
+        codeFormat: 'classification',
+        signConvention: 'indicator',
+        skip: [...COMMON_SKIP, '^alterdata', '^usu[aá]rio\\s*:']
+    },
+    {
+        id: 'questor',
+        name: 'Questor',
+        builtIn: true,
+        detect: ['questor'],
+        // Internal reduced code printed in parentheses before the classification: "(0000000502) 0002"
+        columns: ['code', 'name', 'initial_balance', 'debit', 'credit', 'final_balance'],
+        codeFormat: 'internal_in_parentheses',
+        signConvention: 'indicator',
+        skip: [...COMMON_SKIP, '^questor']
+    },
+    {
+        id: 'protheus',
+        name: 'TOTVS Protheus',
+        builtIn: true,
+        detect: ['protheus|totvs|ctbr0\\d\\d'],
+        // Conta | Descrição | Saldo Anterior | Débito | Crédito | Movimento do Período | Saldo Atual
+        columns: ['code', 'name', 'initial_balance', 'debit', 'credit', 'ignore', 'final_balance'],
+        codeFormat: 'classification',
+        signConvention: 'indicator',
+        skip: [...COMMON_SKIP, '^(totvs|protheus|siga)', '^hora\\s*:']
+    }
+];
+
+export const loadCustomProfiles = (): LayoutProfile[] => {
+    if (typeof localStorage === 'undefined') return []; // The API server has built-in profiles only
+    try {
+        const raw = localStorage.getItem(CUSTOM_PROFILES_STORAGE_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch (e) {
+        console.warn("Failed to load layout profiles", e);
+        return [];
+    }
+};
+
+export const saveCustomProfile = (profile: LayoutProfile) => {
+    const profiles = loadCustomProfiles().filter(p => p.id !== profile.id);
+    localStorage.setItem(CUSTOM_PROFILES_STORAGE_KEY, JSON.stringify([...profiles, profile]));
+};
+
+export const deleteCustomProfile = (id: string) => {
+    localStorage.setItem(CUSTOM_PROFILES_STORAGE_KEY, JSON.stringify(loadCustomProfiles().filter(p => p.id !== id)));
+};
+
+// Built-in profiles first, so that a custom one only wins by matching more of the document
+export const getLayoutProfiles = (): LayoutProfile[] => [...BUILT_IN_PROFILES, ...loadCustomProfiles()];
+
+const safeRegex = (source: string): RegExp | null => {
+    try { return new RegExp(source, 'i'); }
+    catch { return null; }
+};
+
+// Length of the text all of the profile's patterns match, or null when one of them does not
+const matchedLength = (profile: LayoutProfile, head: string): number | null => {
+    let total = 0;
+    for (const source of profile.detect) {
+        const match = safeRegex(source)?.exec(head);
+        if (!match) return null;
+        total += match[0].trim().length;
+    }
+    return total;
+};
+
+/**
+ * Picks the profile whose detection patterns all match the first lines of the document.
+ * When several do, the one matching the most text is the most specific; ties go to the
+ * profile listed first.
+ */
+export const detectLayoutProfile = (lines: string[], profiles: LayoutProfile[] = getLayoutProfiles()): LayoutProfile | null => {
+    const head = lines.slice(0, DETECTION_LINES).join('\n');
+    let best: LayoutProfile | null = null;
+    let bestLength = 0;
+    for (const profile of profiles) {
+        const length = profile.detect.length > 0 ? matchedLength(profile, head) : null;
+        if (length !== null && (best === null || length > bestLength)) {
+            best = profile;
+            bestLength = length;
+        }
+    }
+    return best;
+};
+
+export const compileSkipPatterns = (profile: LayoutProfile): RegExp[] =>
+    profile.skip.map(safeRegex).filter((r): r is RegExp => r !== null);
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Cell separators of the lines detection sees: " | " for spreadsheets, ";" or "," in a CSV, quotes included
+const CELL_SEPARATOR = '[\\s|;,"]*';
+
+// The whole header row, every cell in order, as the only content of a line. Labels such as
+// "Conta" or "Débito" alone would claim any balancete; dates in the labels may change.
+const headerRowPattern = (headerCells: (string | number)[]): string => {
+    const cells = headerCells
+        .map(cell => String(cell ?? '').trim())
+        .filter(cell => cell.length > 0)
+        .map(cell => escapeRegex(cell).replace(/\s+/g, '\\s+').replace(/\d+/g, '\\d+'));
+    return `(^|\\n)${CELL_SEPARATOR}${cells.join(CELL_SEPARATOR)}${CELL_SEPARATOR}(\\n|$)`;
+};
+
+/**
+ * Builds a profile from a mapping made by hand in the spreadsheet wizard. It is detected
+ * by its full header row and, when the user gives one, a title text such as the ERP or
+ * company name printed above it.
+ */
+export const profileFromMapping = (name: string, headerCells: (string | number)[], roles: ColumnRole[], titleText = ''): LayoutProfile => {
+    // Trailing unmapped columns carry nothing; a D/C column means the file states the balance side
+    let lastUsed = roles.length - 1;
+    while (lastUsed > 0 && roles[lastUsed] === 'ignore') lastUsed--;
+
+    return {
+        id: `custom_${Date.now()}`,
+        name,
+        builtIn: false,
+        detect: titleText.trim() ? [headerRowPattern(headerCells), escapeRegex(titleText.trim())] : [headerRowPattern(headerCells)],
+        columns: roles.slice(0, lastUsed + 1),
+        codeFormat: 'classification',
+        signConvention: roles.includes('indicator') ? 'indicator' : 'heuristic',
+        skip: COMMON_SKIP
+    };
+};
@@ -0,0 +1,145 @@
+import { createProxyProvider } from "./proxyProvider";
+import { createReplayProvider, createLocalStorageFixtureStore } from "./replayProvider";
+import type { UsageMeter } from "./usageService";
+import { abortable, cancelledError } from "./cancellationService";
+import { waitForCallSlot } from "./rateLimitService";
+import { LlmTask } from "../types";
+
+// What the model is being asked to do; each task can run on its own model
+export type { LlmTask };
+
+export interface LlmPart {
+    text?: string;
+    inlineData?: { mimeType: string, data: string }; // base64
+}
+
+export interface LlmMessage {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface LlmRequest {
+    task: LlmTask;
+    model: string;
+    parts: LlmPart[];
+    systemInstruction?: string;
+    history?: LlmMessage[]; // Earlier chat turns, oldest first
+    temperature?: number;
+    maxOutputTokens?: number;
+    json?: boolean; // Ask for a JSON object as the whole answer
+    responseSchema?: Record<string, unknown>; // JSON schema the answer must follow (implies json)
+    webSearch?: boolean; // Let the model ground its answer on a web search, where the provider supports it
+    signal?: AbortSignal; // Aborts the call; set by generate from the caller's signal and the call timeout
+    onText?: (text: string) => void; // Asks for a streamed answer: called with the text so far as it arrives
+}
+
+export interface LlmUsage {
+    input_tokens: number;
+    output_tokens: number;
+}
+
+export interface LlmResponse {
+    text: string;
+    truncated: boolean; // Stopped at maxOutputTokens
+    usage?: LlmUsage; // Missing when the provider does not report it
+    model?: string; // Model that answered, when the provider chose it rather than the request (the server proxy)
+}
+
+export interface LlmProvider {
+    name: string;
+    generate: (request: LlmRequest) => Promise<LlmResponse>;
+}
+
+const DEFAULT_MODEL = 'gemini-2.0-flash';
+
+// How long a call may go without an answer (or, streaming, without a new chunk) before it is
+// abandoned and retried by the caller's backoff
+const CALL_TIMEOUT_MS: Record<LlmTask, number> = {
+    extraction: 180_000, // up to three scanned pages or a whole PDF
+    narrative: 90_000,
+    insight: 120_000, // may run a web search first
+    chat: 60_000
+};
+
+// "extraction=gemini-2.5-pro,chat=gemini-2.0-flash"; tasks left out keep the default model
+const parseModelList = (value: string | undefined): Partial<Record<LlmTask, string>> =>
+    Object.fromEntries((value || '').split(',').map(pair => pair.split('=').map(s => s.trim())).filter(([task, model]) => task && model));
+
+let activeProvider: LlmProvider | null = null;
+let taskModels: Record<LlmTask, string> = {
+    extraction: DEFAULT_MODEL, narrative: DEFAULT_MODEL, insight: DEFAULT_MODEL, chat: DEFAULT_MODEL,
+    ...parseModelList(process.env.LLM_MODELS)
+};
+
+/**
+ * Builds the provider from the build environment. Calls go to the app's server,
+ * at LLM_PROXY_URL (default /api), which holds the key and the real backend
+ * (server/upstreamProvider.ts); LLM_REPLAY=record|replay wraps it with the
+ * fixture recorder.
+ */
+const createProviderFromEnv = (): LlmProvider => {
+    const upstream = createProxyProvider({ baseUrl: process.env.LLM_PROXY_URL || '/api' });
+    const mode = process.env.LLM_REPLAY;
+    if (mode !== 'record' && mode !== 'replay') return upstream;
+    return createReplayProvider({ mode, store: createLocalStorageFixtureStore(), upstream });
+};
+
+export const getLlmProvider = (): LlmProvider => {
+    if (!activeProvider) activeProvider = createProviderFromEnv();
+    return activeProvider;
+};
+
+/**
+ * Replaces the provider (and optionally the model of some tasks), e.g. to run
+ * the pipeline against recorded fixtures.
+ */
+export const configureLlm = (options: { provider?: LlmProvider, models?: Partial<Record<LlmTask, string>> }) => {
+    if (options.provider) activeProvider = options.provider;
+    taskModels = { ...taskModels, ...options.models };
+};
+
+export const modelForTask = (task: LlmTask): string => taskModels[task];
+
+/**
+ * Sends a request to the active provider on the model configured for its task,
+ * adding the tokens it used to `meter` when one is given. The call is abandoned
+ * when `request.signal` is aborted (cancellation) or when it stays silent past
+ * the task's timeout, which fails with status 408 so the backoff retries it.
+ * With `onText`, the final text is always delivered through it too, also from
+ * providers that cannot stream. While a rate-limit pause is in force the call
+ * waits for it before starting.
+ */
+export const generate = async (request: Omit<LlmRequest, 'model'>, meter?: UsageMeter): Promise<LlmResponse> => {
+    await waitForCallSlot(request.signal);
+    const model = modelForTask(request.task);
+    const timeoutMs = CALL_TIMEOUT_MS[request.task];
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const armTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs);
+    };
+    const forwardAbort = () => controller.abort();
+    request.signal?.addEventListener('abort', forwardAbort, { once: true });
+    armTimer();
+
+    // Every chunk proves the call is alive
+    const onText = request.onText && ((text: string) => { armTimer(); request.onText!(text); });
+
+    try {
+        if (request.signal?.aborted) throw cancelledError();
+        // Providers pass the signal on to their transport; abortable covers one that does not
+        const response = await abortable(getLlmProvider().generate({ ...request, model, signal: controller.signal, onText }), controller.signal);
+        meter?.record(request.task, response.model || model, response.usage);
+        request.onText?.(response.text);
+        return response;
+    } catch (error) {
+        if (request.signal?.aborted) throw cancelledError();
+        if (timedOut) throw Object.assign(new Error(`A IA não respondeu em ${timeoutMs / 1000}s.`), { status: 408 });
+        throw error;
+    } finally {
+        clearTimeout(timer);
+        request.signal?.removeEventListener('abort', forwardAbort);
+    }
+};
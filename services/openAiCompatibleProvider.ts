@@ -0,0 +1,89 @@
+import type { LlmPart, LlmProvider, LlmRequest, LlmResponse, LlmUsage } from "./llmProvider";
+import { safeDecodeBase64 } from "./parsingService";
+
+type ChatContent = string | ({ type: 'text', text: string } | { type: 'image_url', image_url: { url: string } })[];
+
+// Text attachments (CSV, SPED) go inline as text; images as data URLs. PDFs have no portable form.
+const toContent = (parts: LlmPart[]): ChatContent => parts.map(part => {
+    if (!part.inlineData) return { type: 'text' as const, text: part.text || '' };
+    const { mimeType, data } = part.inlineData;
+    if (mimeType.startsWith('image/')) return { type: 'image_url' as const, image_url: { url: `data:${mimeType};base64,${data}` } };
+    if (mimeType.startsWith('text/')) return { type: 'text' as const, text: safeDecodeBase64(data) };
+    throw new Error(`O provedor configurado não aceita arquivos ${mimeType}. Use um PDF com camada de texto ou o Gemini.`);
+});
+
+const toUsage = (usage: any): LlmUsage | undefined =>
+    usage ? { input_tokens: usage.prompt_tokens || 0, output_tokens: usage.completion_tokens || 0 } : undefined;
+
+// Server-sent events: one "data: {chunk}" line per delta, "data: [DONE]" at the end; usage comes in the last chunk
+const readStream = async (body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<LlmResponse> => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    const result: LlmResponse = { text: '', truncated: false };
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() || '';
+        for (const line of lines) {
+            const data = line.trim().replace(/^data:\s*/, '');
+            if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+            const chunk = JSON.parse(data);
+            const choice = chunk.choices?.[0];
+            if (choice?.delta?.content) {
+                result.text += choice.delta.content;
+                onText(result.text);
+            }
+            if (choice?.finish_reason === 'length') result.truncated = true;
+            if (chunk.usage) result.usage = toUsage(chunk.usage);
+        }
+        if (done) return result;
+    }
+};
+
+/**
+ * Any endpoint that speaks the OpenAI chat completions API: a local server
+ * (Ollama, llama.cpp, vLLM) or a hosted gateway. Web search is not available.
+ */
+export const createOpenAiCompatibleProvider = (options: { baseUrl: string, apiKey?: string }): LlmProvider => ({
+    name: 'openai',
+    generate: async (request: LlmRequest): Promise<LlmResponse> => {
+        const messages = [
+            ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+            ...(request.history || []).map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text })),
+            { role: 'user', content: toContent(request.parts) }
+        ];
+
+        const response = await fetch(`${options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {}) },
+            signal: request.signal,
+            body: JSON.stringify({
+                model: request.model,
+                messages,
+                temperature: request.temperature,
+                max_tokens: request.maxOutputTokens,
+                response_format: request.responseSchema
+                    ? { type: 'json_schema', json_schema: { name: `${request.task}_response`, schema: request.responseSchema } }
+                    : request.json ? { type: 'json_object' } : undefined,
+                ...(request.onText ? { stream: true, stream_options: { include_usage: true } } : {})
+            })
+        });
+        if (!response.ok) {
+            // The status travels with the error so the retry helper can tell client errors apart
+            throw Object.assign(new Error(`Erro ${response.status} do provedor: ${(await response.text()).slice(0, 300)}`), { status: response.status });
+        }
+
+        if (request.onText && response.body) return readStream(response.body, request.onText);
+
+        const body = await response.json();
+        const choice = body.choices?.[0];
+        return {
+            text: choice?.message?.content || '',
+            truncated: choice?.finish_reason === 'length',
+            usage: toUsage(body.usage)
+        };
+    }
+});
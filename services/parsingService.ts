@@ -0,0 +1,735 @@
+import { AnalysisResult, AnalysisSummary, ColumnRole, ComparativeColumns, ExtractedAccount, ExtractedRow, LayoutProfile, ParseStrategy, SourceLine } from "../types";
+import { compileSkipPatterns } from "./layoutProfiles";
+
+// Bump whenever a change to extraction or parsing would give a different result for
+// the same file, so earlier analyses of a re-uploaded document are flagged as stale.
+export const PARSER_VERSION = 1;
+
+/**
+ * Sanitizes a base64 string for safe use with Safari's atob() and Gemini SDK.
+ * Safari's atob() throws "The string did not match the expected pattern"
+ * on any non-base64 character.
+ */
+export function sanitizeBase64(base64: string): string {
+    if (!base64) return "";
+
+    const raw = base64.includes(',') ? base64.split(',')[1] : base64;
+
+    // FIX #1: \/ escapado — evita SyntaxError "Unexpected token ')'" no Safari
+    // ANTES (bug): /[^A-Za-z0-9+/=]/g
+    // DEPOIS (fix): /[^A-Za-z0-9+\/=]/g
+    const cleaned = raw.replace(/[^A-Za-z0-9+\/=]/g, '');
+
+    const contentWithoutPadding = cleaned.replace(/=/g, '');
+    const remainder = contentWithoutPadding.length % 4;
+
+    if (remainder === 0) return contentWithoutPadding;
+    if (remainder === 2) return contentWithoutPadding + '==';
+    if (remainder === 3) return contentWithoutPadding + '=';
+
+    return contentWithoutPadding.substring(0, contentWithoutPadding.length - 1);
+}
+
+export function customBase64ToUint8Array(base64: string): Uint8Array {
+    const raw = base64.includes(',') ? base64.split(',')[1] : base64;
+
+    // FIX #2: \/ escapado — mesma correção do Safari
+    // ANTES (bug): /[^A-Za-z0-9+/]/g
+    // DEPOIS (fix): /[^A-Za-z0-9+\/]/g
+    const cleaned = raw.replace(/[^A-Za-z0-9+\/]/g, '');
+    const len = cleaned.length;
+    let bufferLength = Math.floor((len * 3) / 4);
+    if (cleaned[len - 1] === '=') bufferLength--;
+    if (cleaned[len - 2] === '=') bufferLength--;
+
+    const bytes = new Uint8Array(bufferLength);
+    const lookup = new Uint8Array(256);
+    const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+    for (let i = 0; i < alphabet.length; i++) lookup[alphabet.charCodeAt(i)] = i;
+
+    let p = 0;
+    for (let i = 0; i < len; i += 4) {
+        const encoded1 = lookup[cleaned.charCodeAt(i)];
+        const encoded2 = lookup[cleaned.charCodeAt(i + 1)];
+        const encoded3 = lookup[cleaned.charCodeAt(i + 2)];
+        const encoded4 = lookup[cleaned.charCodeAt(i + 3)];
+
+        bytes[p++] = (encoded1 << 2) | (encoded2 >> 4);
+        if (p < bufferLength) bytes[p++] = ((encoded2 & 15) << 4) | (encoded3 >> 2);
+        if (p < bufferLength) bytes[p++] = ((encoded3 & 3) << 6) | (encoded4 & 63);
+    }
+    return bytes;
+}
+
+export function safeDecodeBase64(str: string): string {
+    try {
+        const bytes = customBase64ToUint8Array(str);
+        return new TextDecoder('utf-8', { fatal: false }).decode(bytes);
+    } catch (e) {
+        return '';
+    }
+}
+
+// Text exports come in UTF-8 or, from older ERPs and SPED, in Latin-1
+export function decodeTextFile(bytes: Uint8Array): string {
+    try { return new TextDecoder('utf-8', { fatal: true }).decode(bytes); }
+    catch { return new TextDecoder('iso-8859-1').decode(bytes); }
+}
+
+export function parseFinancialNumber(val: any): number {
+    if (typeof val === 'number') return val;
+    if (!val) return 0;
+
+    let clean = String(val).trim();
+
+    if (!clean || clean === '-' || clean === '–') return 0;
+
+    clean = clean.replace(/^R\$\s?/, '').replace(/\s/g, '');
+
+    clean = clean.replace(/O/gi, '0')
+        .replace(/l/g, '1')
+        .replace(/[^0-9.,\-()]/g, '');
+
+    const isNegativeParens = /^\(.*\)$/.test(clean);
+    if (isNegativeParens) {
+        clean = clean.replace(/[()]/g, '');
+    }
+
+    const lastDotIndex = clean.lastIndexOf('.');
+    const lastCommaIndex = clean.lastIndexOf(',');
+
+    if (lastCommaIndex > lastDotIndex) {
+        clean = clean.replace(/\./g, '').replace(',', '.');
+    } else if (/^-?[1-9]\d{0,2}(\.\d{3})+$/.test(clean)) {
+        // Whole reais with thousands separators ("1.000", "86.898.120")
+        clean = clean.replace(/\./g, '');
+    } else if (lastDotIndex > lastCommaIndex) {
+        clean = clean.replace(/,/g, '');
+    } else {
+        if (clean.includes(',')) clean = clean.replace(',', '.');
+    }
+
+    let num = parseFloat(clean);
+
+    if (isNaN(num)) return 0;
+    if (isNegativeParens) num = -Math.abs(num);
+
+    return num;
+}
+
+// Letters parseFinancialNumber silently reads as digits ("1.O00,5l" → 1000,51), a typical OCR confusion
+export function hasOcrSubstitution(val: string): boolean {
+    return /[Ool]/.test(String(val).replace(/^R\$\s?/, ''));
+}
+
+export function checkInversion(name: string, type: 'Debit' | 'Credit', finalBalance: number, indicator: string | null, code: string): boolean {
+    const lowerName = name.toLowerCase();
+    let expectedNature: 'Debit' | 'Credit' | 'Unknown' = 'Unknown';
+
+    if (code.startsWith('1')) expectedNature = 'Debit';
+    else if (code.startsWith('2')) expectedNature = 'Credit';
+    else if (code.startsWith('3') || code.startsWith('4')) {
+        if (lowerName.includes('receita') || lowerName.includes('faturamento') || lowerName.includes('venda')) expectedNature = 'Credit';
+        else if (lowerName.includes('despesa') || lowerName.includes('custo') || lowerName.includes('gastos')) expectedNature = 'Debit';
+    }
+
+    const deductionKeywords = ['devolu', 'cancelamento', 'abatimento', 'imposto sobre', 'tributo sobre'];
+    if (deductionKeywords.some(k => lowerName.includes(k))) {
+        expectedNature = (expectedNature === 'Debit') ? 'Credit' : 'Debit';
+    }
+
+    if (lowerName.includes('depreciação acumulada') || lowerName.includes('amortização acumulada')) {
+        expectedNature = 'Credit';
+    }
+
+    let actualNature: 'Debit' | 'Credit' = type;
+    if (indicator) {
+        if (indicator.toUpperCase() === 'D') actualNature = 'Debit';
+        if (indicator.toUpperCase() === 'C') actualNature = 'Credit';
+    } else {
+        if (finalBalance < 0) actualNature = (type === 'Debit') ? 'Credit' : 'Debit';
+    }
+
+    if (expectedNature !== 'Unknown' && expectedNature !== actualNature) {
+        if (lowerName.includes('lucro') || lowerName.includes('prejuízo') || lowerName.includes('resultado')) return false;
+        return true;
+    }
+
+    return false;
+}
+
+export interface AccountValues {
+    initial: number;
+    debit: number;
+    credit: number;
+    final: number;
+    previous?: number; // Comparative (prior period) column, when the statement has one
+}
+
+function mapValuesToColumns(numbers: number[], docType: string, previousFirst = false): AccountValues {
+    const count = numbers.length;
+    let initial = 0, debit = 0, credit = 0, final = 0;
+
+    // Published statements print the prior period next to the current one, not a saldo anterior
+    if ((docType === 'DRE' || docType === 'Balanço Patrimonial') && count === 2) {
+        const [current, previous] = previousFirst ? [numbers[1], numbers[0]] : numbers;
+        return { initial, debit, credit, final: current, previous };
+    }
+
+    if (docType === 'DRE') {
+        if (count > 0) final = numbers[0];
+        return { initial, debit, credit, final };
+    }
+
+    if (count === 1) {
+        final = numbers[0];
+    } else if (count === 2) {
+        initial = numbers[0];
+        final = numbers[1];
+    } else if (count === 3) {
+        debit = numbers[0];
+        credit = numbers[1];
+        final = numbers[2];
+    } else if (count >= 4) {
+        initial = numbers[0];
+        debit = numbers[1];
+        credit = numbers[2];
+        final = numbers[3];
+    }
+
+    return { initial, debit, credit, final };
+}
+
+// Columns of a schema row. The model already puts the current period in final_balance and
+// the prior one in initial_balance, so the printed column order plays no part here.
+function mapRowToColumns(row: ExtractedRow, docType: string): AccountValues {
+    const [initial, debit, credit, final] = [row.initial_balance, row.debit, row.credit, row.final_balance].map(parseFinancialNumber);
+    if ((docType === 'DRE' || docType === 'Balanço Patrimonial') && !row.debit && !row.credit) {
+        return row.initial_balance ? { initial: 0, debit: 0, credit: 0, final, previous: initial } : { initial: 0, debit: 0, credit: 0, final };
+    }
+    return { initial, debit, credit, final };
+}
+
+export function classifyIfrs18(name: string, code: string, isResultAccount: boolean): ExtractedAccount['ifrs18_category'] {
+    if (!isResultAccount) return null;
+    const lowerName = name.toLowerCase();
+    if (lowerName.includes('receita') || lowerName.includes('custo') || lowerName.includes('despesa') || code.startsWith('3') || code.startsWith('4')) return 'Operacional';
+    if (lowerName.includes('invest') || lowerName.includes('imobiliz')) return 'Investimento';
+    if (lowerName.includes('juro') || lowerName.includes('financ')) return 'Financiamento';
+    return 'Operacional';
+}
+
+// Carry-over rows printed at page breaks ("A TRANSPORTAR" / "TRANSPORTE" / "Vem de transporte").
+// Only the label is tested, so accounts such as "Fretes e Transportes" are kept.
+const TRANSPORT_LABEL = /^(total\s+|saldo\s+|valores?\s+)?(a\s+transportar|de\s+transporte|vem\s+de\s+transporte|transporte|transportado)$/;
+
+function isTransportRow(line: string): boolean {
+    const label = line.split('|')
+        .map(p => p.trim())
+        .filter(p => p && !/\d/.test(p))
+        .join(' ')
+        .toLowerCase()
+        .replace(/[.:\-_]+/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return TRANSPORT_LABEL.test(label);
+}
+
+/**
+ * Joins lines extracted page by page (or batch by batch), dropping the carry-over
+ * rows and the rows repeated on both sides of a page break.
+ */
+export function mergePageLines(segments: SourceLine[][]): SourceLine[] {
+    const normalize = (l: SourceLine) => l.text.replace(/\s+/g, ' ').trim().toLowerCase();
+    const merged: SourceLine[] = [];
+
+    segments.forEach(segment => {
+        const lines = segment.filter(l => l.text.trim().length > 0 && !isTransportRow(l.text));
+
+        // The model sometimes repeats the last row(s) of the previous page at the top of the next
+        let overlap = 0;
+        for (let k = Math.min(3, lines.length, merged.length); k > 0; k--) {
+            const tail = merged.slice(-k).map(normalize);
+            const head = lines.slice(0, k).map(normalize);
+            if (tail.every((l, i) => l === head[i])) { overlap = k; break; }
+        }
+        merged.push(...lines.slice(overlap));
+    });
+
+    return merged;
+}
+
+// "2024", "12/2024" or "31/12/2024"
+const PERIOD_TOKEN = /\b(?:(?:\d{1,2}\/)?\d{1,2}\/)?(?:19|20)\d{2}\b/g;
+
+const periodKey = (token: string): number => {
+    const parts = token.split('/').map(Number);
+    const [day, month, year] = parts.length === 3 ? parts : parts.length === 2 ? [31, parts[0], parts[1]] : [31, 12, parts[0]];
+    return year * 10000 + month * 100 + day;
+};
+
+/**
+ * Finds the column header of a comparative statement ("Descrição | 31/12/2024 | 31/12/2023",
+ * or the "PERIODS:" line the model is asked to emit) and tells which column is the current period.
+ * Date ranges such as "01/01/2024 a 31/12/2024" are not comparatives and are skipped.
+ */
+export function detectComparativeColumns(lines: string[]): ComparativeColumns | null {
+    const candidates = [...lines.filter(l => /^PERIODS:/i.test(l.trim())), ...lines];
+    for (const raw of candidates) {
+        const line = raw.trim().replace(/^(DOCTYPE|PERIODS):\s*/i, '');
+        if (/\d,\d{2}\b/.test(line)) continue; // A row with amounts is data, not a header
+        const tokens = line.match(PERIOD_TOKEN) || [];
+        if (tokens.length !== 2 || tokens[0] === tokens[1]) continue;
+        const between = line.slice(line.indexOf(tokens[0]) + tokens[0].length, line.lastIndexOf(tokens[1]));
+        if (/^\s*(a|até|à|ate|-|–|to)\s*$/i.test(between)) continue;
+
+        const previousFirst = periodKey(tokens[0]) < periodKey(tokens[1]);
+        return {
+            current_label: previousFirst ? tokens[1] : tokens[0],
+            previous_label: previousFirst ? tokens[0] : tokens[1],
+            previous_first: previousFirst
+        };
+    }
+    return null;
+}
+
+interface ParsedLine {
+    code: string;
+    name: string;
+    values: number[];
+    indicator: 'D' | 'C' | null; // Last D/C flag on the line (belongs to the final balance)
+    strategy: ParseStrategy;
+    rawValues: string[];
+}
+
+function indicatorOf(part: string): 'D' | 'C' | null {
+    const match = part.trim().match(/(?:^|[\s\d)])([DC])$/i);
+    return match ? (match[1].toUpperCase() as 'D' | 'C') : null;
+}
+
+// Questor-style rows lead with the internal reduced code: "(0000000502) | 1.1.01 | Caixa | ..."
+const isInternalCode = (part: string, next: string | undefined) =>
+    /^\(\d+\)$/.test(part) || (/^\d{6,}$/.test(part) && !!next && /^\d+([.\-]\d+)+$/.test(next));
+
+// Splits one extracted text line into code, name and the raw list of amounts
+function parseLine(line: string): ParsedLine | null {
+    let cleanLine = line.trim();
+    if (!cleanLine || cleanLine.length < 5) return null;
+
+    if (/^(doctype|data|conta|descri|saldo|débito|crédito|página|page|cod|cód|movimento|transporte|historico|empresa|cnpj)/i.test(cleanLine)) return null;
+    if (/^\|?[\s-]+\|?$/.test(cleanLine)) return null;
+
+    let code = '';
+    let name = '';
+    let valuesPart: number[] = [];
+    let rawValues: string[] = [];
+    let indicator: 'D' | 'C' | null = null;
+    let strategy: ParseStrategy = 'pipe';
+
+    const readValues = (parts: string[], start: number) => {
+        for (let i = start; i < parts.length; i++) {
+            indicator = indicatorOf(parts[i]) || indicator;
+            if (/^[DC%]$/i.test(parts[i])) continue;
+            valuesPart.push(parseFinancialNumber(parts[i]));
+            rawValues.push(parts[i]);
+        }
+    };
+
+    // --- STRATEGY 1: PIPE SEPARATOR ---
+    if (cleanLine.includes('|')) {
+        const parts = cleanLine.split('|').map(p => p.trim()).filter(p => p.length > 0);
+
+        if (parts.length >= 2) {
+            const firstLooksLikeCode = /^[\d.-]+$/.test(parts[0]) && parts[0].length < 20;
+
+            if (parts.length >= 3 && isInternalCode(parts[0], parts[1])) {
+                // The internal code is dropped; the classification that follows is the account code
+                strategy = 'internal_code';
+                code = parts[1];
+                name = parts[2];
+                readValues(parts, 3);
+            } else if (firstLooksLikeCode) {
+                code = parts[0];
+                name = parts[1];
+                readValues(parts, 2);
+            } else {
+                name = parts[0];
+                readValues(parts, 1);
+            }
+        }
+    }
+
+    // --- STRATEGY 2: REVERSE PARSING (Fallback) ---
+    if (valuesPart.length === 0) {
+        strategy = 'reverse_tokens';
+        rawValues = [];
+        cleanLine = cleanLine.replace(/\.{3,}/g, ' ');
+
+        const tokens = cleanLine.split(/\s+/);
+        const foundNumbers: number[] = [];
+        const foundTokens: string[] = [];
+        let lastTokenIndex = tokens.length - 1;
+        let numbersFoundCount = 0;
+
+        while (lastTokenIndex >= 0 && numbersFoundCount < 4) {
+            const token = tokens[lastTokenIndex];
+
+            if (/^[DC%]$/i.test(token)) {
+                if (!indicator && numbersFoundCount === 0) indicator = indicatorOf(token);
+                lastTokenIndex--;
+                continue;
+            }
+
+            if (/^[\d.,\-()]+$/.test(token) && /\d/.test(token)) {
+                const val = parseFinancialNumber(token);
+                foundNumbers.unshift(val);
+                foundTokens.unshift(token);
+                numbersFoundCount++;
+                lastTokenIndex--;
+            } else {
+                if (token.toUpperCase() === 'R$') {
+                    lastTokenIndex--;
+                } else {
+                    break;
+                }
+            }
+        }
+
+        if (foundNumbers.length > 0) {
+            valuesPart = foundNumbers;
+            rawValues = foundTokens;
+            const nameTokens = tokens.slice(0, lastTokenIndex + 1);
+            if (nameTokens.length > 0) {
+                if (/^[\d.-]+$/.test(nameTokens[0])) {
+                    code = nameTokens[0];
+                    name = nameTokens.slice(1).join(' ');
+                } else {
+                    name = nameTokens.join(' ');
+                }
+            }
+        }
+    }
+
+    name = name.replace(/[.|]{2,}/g, '').trim();
+    if (!name || name.length < 2 || valuesPart.length === 0) return null;
+
+    return { code, name, values: valuesPart, indicator, strategy, rawValues };
+}
+
+/**
+ * Reads a pipe-separated line by the column order of a layout profile. Returns null when
+ * the line does not have the profile's shape, so the generic parser can take over.
+ */
+function parseProfileLine(line: string, profile: LayoutProfile): { code: string, name: string, values: AccountValues, indicator: 'D' | 'C' | null, rawValues: string[] } | null {
+    if (!line.includes('|')) return null;
+    const parts = line.split('|').map(p => p.trim());
+    if (parts[0] === '') parts.shift();
+    if (parts[parts.length - 1] === '') parts.pop();
+
+    // Without a D/C column in the profile, a standalone D/C belongs to the amount before it
+    const cells: string[] = [];
+    const hasIndicatorColumn = profile.columns.includes('indicator');
+    parts.forEach(p => {
+        if (!hasIndicatorColumn && /^[DC]$/i.test(p) && cells.length > 0) cells[cells.length - 1] += ` ${p}`;
+        else cells.push(p);
+    });
+    if (cells.length !== profile.columns.length) return null;
+
+    const cellOf = (role: ColumnRole) => {
+        const idx = profile.columns.indexOf(role);
+        return idx >= 0 ? cells[idx] : '';
+    };
+
+    const name = cellOf('name').replace(/[.|]{2,}/g, '').trim();
+    if (!name || name.length < 2) return null;
+
+    const amountRoles: ColumnRole[] = ['initial_balance', 'debit', 'credit', 'final_balance', 'previous_balance'];
+    if (!amountRoles.some(role => /\d/.test(cellOf(role)))) return null;
+
+    return {
+        code: cellOf('code'),
+        name,
+        values: {
+            initial: parseFinancialNumber(cellOf('initial_balance')),
+            debit: parseFinancialNumber(cellOf('debit')),
+            credit: parseFinancialNumber(cellOf('credit')),
+            final: parseFinancialNumber(cellOf('final_balance')),
+            ...(profile.columns.includes('previous_balance') ? { previous: parseFinancialNumber(cellOf('previous_balance')) } : {})
+        },
+        indicator: indicatorOf(cellOf('indicator')) || indicatorOf(cellOf('final_balance')),
+        rawValues: amountRoles.map(cellOf).filter(c => c.length > 0)
+    };
+}
+
+/**
+ * Turns one row whose columns are already known into an ExtractedAccount (nature,
+ * DRE sign convention, inversion check, IFRS 18 category). `indicator` is the D/C
+ * flag printed next to the final balance, when the source has one.
+ */
+export function buildAccount(code: string, name: string, columns: AccountValues, docType: string, indicator: 'D' | 'C' | null = null): ExtractedAccount {
+    const values = { ...columns };
+    let type: 'Debit' | 'Credit' = 'Debit';
+    const lowerName = name.toLowerCase();
+
+    // FIX #3: Detecção de tipo Credit corrigida para Receita Bruta
+    // PROBLEMA: AnalysisViewer filtra receita com `&& a.type === 'Credit'`
+    // ANTES (bug): lowerName.includes('vendas')
+    //   → "VENDA DE MERCADORIAS A PRAZO" não contém "vendas" → type = 'Debit' → Receita Bruta = R$ 0,00
+    // DEPOIS (fix): lowerName.includes('venda') cobre 'venda de ...', 'vendas', 'venda a prazo', etc.
+    if (code.startsWith('2') || code.startsWith('3') || code.startsWith('6') ||
+        lowerName.includes('passivo') ||
+        lowerName.includes('fornecedor') ||
+        lowerName.includes('receita') ||
+        lowerName.includes('patrimônio') ||
+        lowerName.includes('capital') ||
+        lowerName.includes('lucro') ||
+        lowerName.includes('venda') ||            // FIX: era 'vendas', agora cobre 'venda de mercadorias', etc.
+        lowerName.includes('faturamento') ||      // FIX: adicionado
+        lowerName.includes('serviços prestados')  // FIX: adicionado
+    ) {
+        type = 'Credit';
+    }
+
+    // Exceção: devoluções e cancelamentos são sempre Debit, mesmo com 'venda' no nome
+    if (lowerName.includes('devoluc') || lowerName.includes('devolução') ||
+        lowerName.includes('cancelamento') || lowerName.includes('abatimento')) {
+        type = 'Debit';
+    }
+
+    if (docType === 'DRE') {
+        if (lowerName.includes('custo') || lowerName.includes('despesa') ||
+            lowerName.includes('imposto') || lowerName.includes('cmv')) {
+            type = 'Debit';
+        }
+    }
+
+    // A D/C column states the side of the balance outright, so it beats the name heuristics
+    if (indicator) type = indicator === 'C' ? 'Credit' : 'Debit';
+
+    const cleanCode = code.endsWith('.') ? code.slice(0, -1) : code;
+
+    const category = classifyIfrs18(name, code, docType === 'DRE' || code.startsWith('3') || code.startsWith('4') || code.startsWith('5'));
+
+    let finalBal = values.final;
+    let previousBal = values.previous;
+
+    if (docType === 'DRE') {
+        if (values.debit === 0 && values.credit === 0) {
+            if (type === 'Debit') values.debit = Math.abs(finalBal);
+            else values.credit = Math.abs(finalBal);
+        }
+        if (type === 'Debit') finalBal = -Math.abs(finalBal);
+        else finalBal = Math.abs(finalBal);
+        if (previousBal !== undefined) previousBal = type === 'Debit' ? -Math.abs(previousBal) : Math.abs(previousBal);
+    } else {
+        if (finalBal === 0 && (values.debit !== 0 || values.credit !== 0)) {
+            finalBal = values.debit - values.credit;
+        }
+    }
+
+    const possibleInversion = checkInversion(name, type, finalBal, indicator, cleanCode);
+
+    return {
+        account_code: cleanCode,
+        account_name: name,
+        initial_balance: values.initial,
+        debit_value: values.debit,
+        credit_value: values.credit,
+        final_balance: finalBal,
+        ...(previousBal !== undefined ? { previous_balance: previousBal } : {}),
+        total_value: Math.abs(finalBal),
+        type,
+        possible_inversion: possibleInversion,
+        ifrs18_category: category,
+        level: 1,
+        is_synthetic: false
+    };
+}
+
+/**
+ * Orders the accounts by code, derives level and synthetic flags from the code
+ * hierarchy and builds the summary.
+ */
+export function finalizeAccounts(accounts: ExtractedAccount[], docType: string): AnalysisResult {
+    accounts.sort((a, b) => {
+        if (!a.account_code) return 1;
+        if (!b.account_code) return -1;
+        return a.account_code.localeCompare(b.account_code, undefined, { numeric: true, sensitivity: 'base' });
+    });
+
+    accounts.forEach((acc, idx) => {
+        if (acc.account_code) {
+            acc.level = acc.account_code.split(/[.-]/).filter(x => x.length > 0).length;
+            const myCode = acc.account_code;
+            let isParent = false;
+            const nextAcc = accounts[idx + 1];
+            if (nextAcc && nextAcc.account_code && nextAcc.account_code.startsWith(myCode)) {
+                const charAfter = nextAcc.account_code[myCode.length];
+                if (charAfter === '.' || charAfter === '-' || charAfter === undefined) isParent = true;
+            }
+            acc.is_synthetic = isParent;
+        } else if (acc.account_name.toLowerCase().startsWith('total') ||
+                   acc.account_name.toLowerCase().startsWith('grupo') ||
+                   acc.account_name.toLowerCase().startsWith('resultado')) {
+            acc.is_synthetic = true;
+        }
+    });
+
+    return {
+        summary: buildSummary(accounts, docType),
+        accounts,
+        spell_check: []
+    };
+}
+
+/**
+ * Parses extracted text lines into accounts. With a layout profile, its skip patterns,
+ * code format, column order and sign convention take precedence over the guesses;
+ * lines that do not fit the profile still go through the generic parser. Every account
+ * keeps the line, page and strategy it was read with. Two-amount rows of a Balanço or
+ * DRE are read as current and prior period, in the order given by `comparative`.
+ */
+export function normalizeFinancialData(rawLines: SourceLine[], docType: string, profile: LayoutProfile | null = null, comparative: ComparativeColumns | null = null): AnalysisResult {
+    const accounts: ExtractedAccount[] = [];
+    const skip = profile ? compileSkipPatterns(profile) : [];
+
+    rawLines.forEach(source => {
+        let line = source.text.trim();
+        if (skip.some(pattern => pattern.test(line))) return;
+        // "(0000000502) 0002 | ..." → the internal reduced code is dropped, the classification kept
+        if (profile?.codeFormat === 'internal_in_parentheses') line = line.replace(/^\|?\s*\(\d+\)\s*/, '');
+
+        let code: string, name: string, values: AccountValues, indicator: 'D' | 'C' | null;
+        let strategy: ParseStrategy, rawValues: string[];
+        const byProfile = profile && !source.row ? parseProfileLine(line, profile) : null;
+        if (source.row) {
+            const row = source.row;
+            code = profile?.codeFormat === 'internal_in_parentheses' ? row.code.replace(/^\(\d+\)\s*/, '') : row.code;
+            name = row.name;
+            values = mapRowToColumns(row, docType);
+            indicator = row.indicator || indicatorOf(row.final_balance);
+            rawValues = [row.initial_balance, row.debit, row.credit, row.final_balance].filter(v => v !== '');
+            strategy = 'json_schema';
+        } else if (byProfile) {
+            ({ code, name, values, indicator, rawValues } = byProfile);
+            strategy = 'layout_profile';
+        } else {
+            const parsed = parseLine(line);
+            if (!parsed) return;
+            ({ code, name, indicator, strategy, rawValues } = parsed);
+            values = mapValuesToColumns(parsed.values, docType, !!comparative?.previous_first);
+        }
+
+        if (profile?.signConvention === 'signed' && values.final !== 0) {
+            indicator = values.final < 0 ? 'C' : 'D';
+            values = { ...values, final: Math.abs(values.final) };
+        } else if (profile?.signConvention !== 'indicator' && strategy !== 'json_schema') {
+            // The generic text parser keeps inferring the nature from the code and name; the
+            // model's indicator field was read for exactly that column and stays
+            indicator = null;
+        }
+
+        const account = buildAccount(code, name, values, docType, indicator);
+        account.provenance = {
+            pages: source.pages,
+            origin: source.origin,
+            raw_line: source.text,
+            strategy,
+            raw_values: rawValues
+        };
+        accounts.push(account);
+    });
+
+    const result = finalizeAccounts(accounts, docType);
+    if (accounts.some(a => a.previous_balance !== undefined)) {
+        result.comparative = comparative || { current_label: 'Período atual', previous_label: 'Período anterior', previous_first: false };
+    }
+    return result;
+}
+
+/**
+ * Recomputes the totals of a result whose accounts were changed after extraction,
+ * keeping the period, observations and everything else already on the summary.
+ */
+export function recomputeSummary(result: AnalysisResult): AnalysisResult {
+    const totals = buildSummary(result.accounts, result.summary.document_type);
+    return {
+        ...result,
+        summary: {
+            ...result.summary,
+            total_debits: totals.total_debits,
+            total_credits: totals.total_credits,
+            is_balanced: totals.is_balanced,
+            discrepancy_amount: totals.discrepancy_amount,
+            specific_result_value: totals.specific_result_value,
+            specific_result_label: totals.specific_result_label
+        }
+    };
+}
+
+/**
+ * Computes totals, balance check and period result from an already structured
+ * list of accounts. Shared by every importer that produces ExtractedAccount rows.
+ */
+export function buildSummary(accounts: ExtractedAccount[], docType: string): AnalysisSummary {
+    const analyticalAccounts = accounts.filter(a => !a.is_synthetic);
+    const calcAccounts = analyticalAccounts.length > 0
+        ? analyticalAccounts
+        : accounts.filter(a => !a.account_name.toLowerCase().includes('total'));
+
+    const total_debits = calcAccounts.reduce((sum, a) => sum + Math.abs(a.debit_value), 0);
+    const total_credits = calcAccounts.reduce((sum, a) => sum + Math.abs(a.credit_value), 0);
+    const discrepancy = Math.abs(total_debits - total_credits);
+
+    let calculatedResult = 0;
+    let resultLabel = 'Resultado do Período';
+
+    if (docType === 'DRE') {
+        const revenue = analyticalAccounts.filter(a => a.type === 'Credit').reduce((sum, a) => sum + Math.abs(a.final_balance), 0);
+        const expenses = analyticalAccounts.filter(a => a.type === 'Debit').reduce((sum, a) => sum + Math.abs(a.final_balance), 0);
+        calculatedResult = revenue - expenses;
+        resultLabel = calculatedResult >= 0 ? 'Lucro Líquido Apurado' : 'Prejuízo Líquido Apurado';
+    } else {
+        let revenueSum = 0, expenseSum = 0;
+        analyticalAccounts.forEach(acc => {
+            if (acc.account_code) {
+                const firstChar = acc.account_code.charAt(0);
+                if (['3', '4', '5', '6', '7'].includes(firstChar)) {
+                    if (acc.type === 'Credit') revenueSum += Math.abs(acc.final_balance);
+                    if (acc.type === 'Debit') expenseSum += Math.abs(acc.final_balance);
+                }
+            } else {
+                const lower = acc.account_name.toLowerCase();
+                if ((lower.includes('receita') || lower.includes('faturamento') || lower.includes('venda')) && acc.type === 'Credit') {
+                    revenueSum += Math.abs(acc.final_balance);
+                }
+                if ((lower.includes('despesa') || lower.includes('custo')) && acc.type === 'Debit') {
+                    expenseSum += Math.abs(acc.final_balance);
+                }
+            }
+        });
+        calculatedResult = revenueSum - expenseSum;
+
+        if (Math.abs(calculatedResult) < 0.01) {
+            const resultAccount = analyticalAccounts.find(a =>
+                /lucro\s+l[ií]quido|preju[ií]zo\s+l[ií]quido/i.test(a.account_name)
+            );
+            if (resultAccount) {
+                calculatedResult = resultAccount.final_balance;
+                resultLabel = resultAccount.account_name;
+            }
+        }
+    }
+
+    return {
+        document_type: docType as any,
+        period: 'A definir',
+        total_debits,
+        total_credits,
+        is_balanced: docType === 'DRE' ? true : discrepancy < 1.0,
+        discrepancy_amount: discrepancy,
+        observations: [],
+        specific_result_value: calculatedResult,
+        specific_result_label: resultLabel
+    };
+}
@@ -0,0 +1,200 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+// A page with fewer characters than this in its text layer is treated as a scan
+const MIN_TEXT_CHARS = 40;
+// Vertical distance (in PDF units) under which two text items belong to the same row
+const ROW_TOLERANCE = 3;
+// Right edges of numeric cells closer than this belong to the same column
+const COLUMN_TOLERANCE = 18;
+
+export interface PdfPageText {
+    pageNumber: number; // 1-based
+    hasTextLayer: boolean; // False for scans and for pages whose text yields no account row
+    lines: string[];    // rows carrying at least one amount
+    headings: string[]; // label-only rows (titles, group headers, page headers)
+}
+
+interface PositionedItem {
+    str: string;
+    x: number;
+    y: number;
+    right: number;
+    charWidth: number;
+}
+
+// Amounts with a comma decimal ("1.234,56", "(10,00)", "86.898,21 C") are numeric wherever they sit;
+// requiring it keeps dotted account codes such as "1.1.01" out of the numeric columns.
+const NUMERIC_CELL = /^\(?-?(R\$)?\s?[\d.]*\d,\d{2}\)?(\s?[DC])?$/i;
+// Statements in whole reais or in thousands ("1.000", "(500)", "86.898 C") only count inside a numeric column
+const INTEGER_CELL = /^\(?-?(R\$)?\s?(\d{1,3}(\.\d{3})+|\d+)\)?(\s?[DC])?$/i;
+
+const isNumericCell = (str: string) => NUMERIC_CELL.test(str.trim()) || /^[-–]$/.test(str.trim());
+
+// Page images need a canvas, which only the browser has; the API server reads the text layer only
+export const canRenderPages = (): boolean => typeof document !== 'undefined';
+
+/**
+ * Loads pdf.js on demand so the library (and its worker) stays out of the main bundle.
+ */
+export const loadPdfDocument = async (bytes: Uint8Array): Promise<PDFDocumentProxy> => {
+    const pdfjsLib = await import('pdfjs-dist');
+    if (!pdfjsLib.GlobalWorkerOptions.workerSrc) {
+        // Under Node, pdf.js imports the worker module itself and runs it in the same thread
+        pdfjsLib.GlobalWorkerOptions.workerSrc = canRenderPages()
+            ? (await import('pdfjs-dist/build/pdf.worker.min.mjs?url')).default
+            : 'pdfjs-dist/build/pdf.worker.min.mjs';
+    }
+    // Outside the browser pdf.js warns about every font it cannot load, which only matters for rendering
+    return pdfjsLib.getDocument({ data: bytes, ...(canRenderPages() ? {} : { verbosity: pdfjsLib.VerbosityLevel.ERRORS }) }).promise;
+};
+
+const groupRows = (items: PositionedItem[]): PositionedItem[][] => {
+    const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+    const rows: PositionedItem[][] = [];
+    sorted.forEach(item => {
+        const row = rows[rows.length - 1];
+        if (row && Math.abs(row[0].y - item.y) <= ROW_TOLERANCE) row.push(item);
+        else rows.push([item]);
+    });
+    return rows.map(r => r.sort((a, b) => a.x - b.x));
+};
+
+// Numbers are right-aligned, so their right edges line up per column across the page. A page
+// without any cents takes its columns from integer cells, never the first of a row (account codes).
+const detectNumericColumns = (rows: PositionedItem[][]): number[] => {
+    const withCents = rows.flatMap(r => r.filter(i => isNumericCell(i.str)).map(i => i.right));
+    const edges = (withCents.length > 0 ? withCents : rows.flatMap(r => r.slice(1).filter(i => INTEGER_CELL.test(i.str.trim())).map(i => i.right)))
+        .sort((a, b) => a - b);
+    const clusters: { sum: number, count: number }[] = [];
+    edges.forEach(edge => {
+        const last = clusters[clusters.length - 1];
+        if (last && edge - last.sum / last.count <= COLUMN_TOLERANCE) { last.sum += edge; last.count++; }
+        else clusters.push({ sum: edge, count: 1 });
+    });
+    return clusters.filter(c => c.count >= 3).map(c => c.sum / c.count);
+};
+
+// Whether a cell of `row` is an amount: always with cents, an integer only when aligned to a numeric column
+const amountTest = (row: PositionedItem[], columns: number[]) => (item: PositionedItem): boolean =>
+    isNumericCell(item.str) || (item !== row[0] && INTEGER_CELL.test(item.str.trim()) && columns.some(c => Math.abs(c - item.right) <= COLUMN_TOLERANCE));
+
+const joinLabel = (items: PositionedItem[]): string => {
+    let text = '';
+    items.forEach((item, idx) => {
+        if (idx === 0) { text = item.str; return; }
+        const prev = items[idx - 1];
+        const gap = item.x - prev.right;
+        text += gap > prev.charWidth * 2.5 ? ' | ' : gap > prev.charWidth * 0.2 ? ' ' : '';
+        text += item.str;
+    });
+    // Keep a leading account code ("1.1.01 Caixa") in its own cell even when printed tight to the name
+    return text.trim().replace(/^(\d+(?:[.\-]\d+)+)\s+(?=[^\d|])/, '$1 | ');
+};
+
+/**
+ * Rebuilds one table row as "label | v1 | v2 | ...". When the page has recognisable
+ * numeric columns, every column gets a slot so empty cells become 0,00 instead of
+ * shifting the following values (mapValuesToColumns maps by position).
+ */
+const buildRowLine = (cells: PositionedItem[], columns: number[]): string => {
+    const isAmount = amountTest(cells, columns);
+    // A D/C flag printed as its own text item belongs to the amount just before it
+    const row: PositionedItem[] = [];
+    cells.forEach(item => {
+        const prev = row[row.length - 1];
+        if (prev && /^[DC]$/i.test(item.str.trim()) && isAmount(prev) && item.x - prev.right <= prev.charWidth * 3) {
+            row[row.length - 1] = { ...prev, str: `${prev.str.trim()} ${item.str.trim()}` };
+        } else {
+            row.push(item);
+        }
+    });
+
+    const labelItems = row.filter(i => !isAmount(i));
+    const numericItems = row.filter(isAmount);
+    const label = joinLabel(labelItems);
+
+    if (numericItems.length === 0) return label;
+
+    const nearestColumn = (right: number) => {
+        let best = -1, bestDist = Infinity;
+        columns.forEach((c, idx) => {
+            const d = Math.abs(c - right);
+            if (d < bestDist) { bestDist = d; best = idx; }
+        });
+        return bestDist <= COLUMN_TOLERANCE * 2 ? best : -1;
+    };
+
+    const slots: string[] = columns.map(() => '');
+    const aligned = columns.length >= 2 && numericItems.every(i => {
+        const idx = nearestColumn(i.right);
+        if (idx < 0 || slots[idx]) return false;
+        slots[idx] = i.str.trim();
+        return true;
+    });
+
+    const values = aligned ? slots.map(s => s || '0,00') : numericItems.map(i => i.str.trim());
+
+    return [label, ...values].filter(p => p.length > 0).join(' | ');
+};
+
+const extractPageText = async (page: PDFPageProxy): Promise<PdfPageText> => {
+    const content = await page.getTextContent();
+    const items: PositionedItem[] = (content.items as TextItem[])
+        .filter(i => typeof i.str === 'string' && i.str.trim().length > 0)
+        .map(i => ({
+            str: i.str,
+            x: i.transform[4],
+            y: i.transform[5],
+            right: i.transform[4] + i.width,
+            charWidth: i.str.length > 0 ? i.width / i.str.length : 4
+        }));
+
+    const charCount = items.reduce((sum, i) => sum + i.str.trim().length, 0);
+    if (charCount < MIN_TEXT_CHARS) return { pageNumber: page.pageNumber, hasTextLayer: false, lines: [], headings: [] };
+
+    const rows = groupRows(items);
+    const columns = detectNumericColumns(rows);
+    const lines: string[] = [];
+    const headings: string[] = [];
+    rows.forEach(r => {
+        const line = buildRowLine(r, columns);
+        if (!line) return;
+        if (r.some(amountTest(r, columns))) lines.push(line);
+        else headings.push(line);
+    });
+    // Text without a single account row (a layout these rules do not read) goes to the model like a scan
+    return { pageNumber: page.pageNumber, hasTextLayer: lines.length > 0, lines, headings };
+};
+
+/**
+ * Reads the text layer of every page (or of the first `maxPages`). Pages without
+ * one (scans) come back with hasTextLayer = false and must be sent to the model.
+ */
+export const extractPdfText = async (pdf: PDFDocumentProxy, maxPages = pdf.numPages): Promise<PdfPageText[]> => {
+    const pages: PdfPageText[] = [];
+    for (let n = 1; n <= Math.min(maxPages, pdf.numPages); n++) {
+        const page = await pdf.getPage(n);
+        pages.push(await extractPageText(page));
+        page.cleanup();
+    }
+    return pages;
+};
+
+/**
+ * Rasterises a page to a JPEG (base64, no data URL prefix) so scanned pages can be
+ * sent to the model individually.
+ */
+export const renderPageImage = async (pdf: PDFDocumentProxy, pageNumber: number, scale = 2): Promise<string> => {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas indisponível para renderizar a página.');
+    await page.render({ canvasContext: context, viewport }).promise;
+    const dataUrl = canvas.toDataURL('image/jpeg', 0.85);
+    page.cleanup();
+    return dataUrl.split(',')[1];
+};
@@ -0,0 +1,181 @@
+import { AnalysisSummary, HistoryItem, PeriodInfo, PeriodKind } from "../types";
+
+export const PERIOD_KIND_LABELS: Record<PeriodKind, string> = {
+    monthly: 'Mensal',
+    quarterly: 'Trimestral',
+    yearly: 'Anual',
+    year_to_date: 'Acumulado até a data'
+};
+
+const MONTHS = ['jan', 'fev', 'mar', 'abr', 'mai', 'jun', 'jul', 'ago', 'set', 'out', 'nov', 'dez'];
+const MONTH_NAMES = ['janeiro', 'fevereiro', 'marco', 'abril', 'maio', 'junho', 'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toIso = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+const lastDay = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+const splitIso = (iso: string) => iso.split('-').map(Number);
+
+const isValidDate = (year: number, month: number, day: number) =>
+    year >= 1900 && year <= 2100 && month >= 1 && month <= 12 && day >= 1 && day <= lastDay(year, month);
+
+/**
+ * Whole months from the 1st are monthly/quarterly/yearly; anything else (a Balanço
+ * at 30/09, Jan–Sep results) is cumulative to its end date.
+ */
+export const classifyPeriod = (start: string, end: string): PeriodKind => {
+    const [sy, sm, sd] = splitIso(start);
+    const [ey, em, ed] = splitIso(end);
+    if (sd !== 1 || ed !== lastDay(ey, em)) return 'year_to_date';
+    const months = (ey - sy) * 12 + em - sm + 1;
+    if (months === 1) return 'monthly';
+    if (months === 3 && (sm - 1) % 3 === 0) return 'quarterly';
+    if (months === 12) return 'yearly';
+    return 'year_to_date';
+};
+
+export const makePeriod = (start: string, end: string, source: PeriodInfo['source'], kind?: PeriodKind): PeriodInfo => {
+    const [from, to] = start <= end ? [start, end] : [end, start];
+    return { start: from, end: to, kind: kind || classifyPeriod(from, to), source };
+};
+
+const normalize = (text: string) => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const monthPeriod = (year: number, month: number, source: PeriodInfo['source']) =>
+    makePeriod(toIso(year, month, 1), toIso(year, month, lastDay(year, month)), source);
+
+const DATE_RANGE = /(\d{1,2})\/(\d{1,2})\/(\d{4})\s*(?:a|ate|-|–|to)\s*(\d{1,2})\/(\d{1,2})\/(\d{4})/;
+const MONTH_RANGE = /\b(\d{1,2})\/(\d{4})\s*(?:a|ate|-|–|to)\s*(\d{1,2})\/(\d{4})\b/;
+const QUARTER = /\b([1-4])\s*(?:º|°|o)?\s*tri(?:m(?:estre)?)?\.?\s*(?:de\s*|\/\s*)?(\d{4})\b/;
+// Full names or the three-letter abbreviation, so "outros 2024" is not read as October
+const MONTH_NAME = new RegExp(`\\b(${[...MONTH_NAMES, ...MONTHS].join('|')})\\b\\.?\\s*(?:de\\s*|\\/\\s*)?(\\d{4})\\b`);
+const FULL_DATE = /\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/;
+const MONTH_YEAR = /\b(\d{1,2})\/(\d{4})\b/;
+const YEAR = /\b((?:19|20)\d{2})\b/;
+
+/**
+ * Reads a period from free text: "01/01/2024 a 31/12/2024", "1º trimestre 2024",
+ * "Março/2025", "01/2025", "em 31/12/2024", "2024 completo". Returns null when
+ * the text carries no date at all ("A definir").
+ */
+export const parsePeriodText = (text: string | undefined, source: PeriodInfo['source']): PeriodInfo | null => {
+    if (!text) return null;
+    const clean = normalize(text);
+
+    let m = clean.match(DATE_RANGE);
+    if (m) {
+        const [d1, m1, y1, d2, m2, y2] = m.slice(1).map(Number);
+        if (isValidDate(y1, m1, d1) && isValidDate(y2, m2, d2)) return makePeriod(toIso(y1, m1, d1), toIso(y2, m2, d2), source);
+    }
+
+    m = clean.match(MONTH_RANGE);
+    if (m) {
+        const [m1, y1, m2, y2] = m.slice(1).map(Number);
+        if (isValidDate(y1, m1, 1) && isValidDate(y2, m2, 1)) return makePeriod(toIso(y1, m1, 1), toIso(y2, m2, lastDay(y2, m2)), source);
+    }
+
+    m = clean.match(QUARTER);
+    if (m) {
+        const [quarter, year] = m.slice(1).map(Number);
+        const first = (quarter - 1) * 3 + 1;
+        return makePeriod(toIso(year, first, 1), toIso(year, first + 2, lastDay(year, first + 2)), source);
+    }
+
+    m = clean.match(MONTH_NAME);
+    if (m) return monthPeriod(Number(m[2]), MONTHS.indexOf(m[1].slice(0, 3)) + 1, source);
+
+    // A single date is a position (Balanço, balancete "até"): the year up to that day
+    m = clean.match(FULL_DATE);
+    if (m) {
+        const [day, month, year] = m.slice(1).map(Number);
+        if (isValidDate(year, month, day)) return makePeriod(toIso(year, 1, 1), toIso(year, month, day), source);
+    }
+
+    m = clean.match(MONTH_YEAR);
+    if (m) {
+        const [month, year] = m.slice(1).map(Number);
+        if (isValidDate(year, month, 1)) return monthPeriod(year, month, source);
+    }
+
+    m = clean.match(YEAR);
+    if (m) return makePeriod(toIso(Number(m[1]), 1, 1), toIso(Number(m[1]), 12, 31), source);
+
+    return null;
+};
+
+const PERIOD_HINT = /per[ií]odo|exerc[ií]cio|compet[eê]ncia|refer[eê]n|levantad|encerrad|trimestre|\bm[eê]s\b|\bem\s+\d{1,2}\/|\bat[eé]\s+\d{1,2}\//i;
+// Print/issue stamps carry dates that are not the period
+const ISSUE_STAMP = /emiss[aã]o|emitido|impress|gerado|hora|p[aá]gina|folha/i;
+const HAS_AMOUNT = /\d,\d{2}\b/;
+
+/**
+ * Looks for the period in the document header (page titles, the first rows of a
+ * spreadsheet or CSV). Only label lines are considered, and an explicit
+ * "Período: ... a ..." wins over a bare date.
+ */
+export const detectPeriod = (headerLines: string[]): PeriodInfo | null => {
+    const candidates = headerLines
+        .map(l => l.replace(/\|/g, ' ').trim())
+        .filter(l => l.length > 0 && !HAS_AMOUNT.test(l) && !ISSUE_STAMP.test(l));
+
+    for (const line of candidates.filter(l => PERIOD_HINT.test(l))) {
+        const period = parsePeriodText(line, 'document');
+        if (period) return period;
+    }
+    for (const line of candidates.filter(l => DATE_RANGE.test(normalize(l)))) {
+        const period = parsePeriodText(line, 'document');
+        if (period) return period;
+    }
+    return null;
+};
+
+const formatDate = (iso: string) => {
+    const [y, m, d] = splitIso(iso);
+    return `${pad(d)}/${pad(m)}/${y}`;
+};
+
+export const formatPeriod = (period: PeriodInfo): string => {
+    const [sy, sm] = splitIso(period.start);
+    const [ey, em, ed] = splitIso(period.end);
+    const monthName = (m: number) => MONTHS[m - 1].charAt(0).toUpperCase() + MONTHS[m - 1].slice(1);
+    switch (period.kind) {
+        case 'monthly': return `${monthName(sm)}/${sy}`;
+        case 'quarterly': return `${(sm - 1) / 3 + 1}º trim./${sy}`;
+        case 'yearly': return sm === 1 ? String(sy) : `${monthName(sm)}/${sy} a ${monthName(em)}/${ey}`;
+        default: return period.start === toIso(ey, 1, 1) ? `Até ${pad(ed)}/${pad(em)}/${ey}` : `${formatDate(period.start)} a ${formatDate(period.end)}`;
+    }
+};
+
+/**
+ * The typed period of a saved analysis. Entries saved before the period was
+ * typed only have the free text, which is parsed on the fly.
+ */
+export const resolvePeriod = (summary: AnalysisSummary): PeriodInfo | null =>
+    summary.period_info || parsePeriodText(summary.period, 'ai');
+
+export const periodLabel = (summary: AnalysisSummary): string => {
+    const period = resolvePeriod(summary);
+    return period ? formatPeriod(period) : summary.period;
+};
+
+export const comparePeriods = (a: PeriodInfo, b: PeriodInfo): number =>
+    a.end.localeCompare(b.end) || a.start.localeCompare(b.start);
+
+/**
+ * Oldest first, by period end. Entries without a readable period fall back to
+ * the time they were analysed.
+ */
+export const compareHistoryByPeriod = (a: HistoryItem, b: HistoryItem): number => {
+    const pa = resolvePeriod(a.summary);
+    const pb = resolvePeriod(b.summary);
+    const byPeriod = pa && pb ? comparePeriods(pa, pb) : 0;
+    return byPeriod || new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+};
+
+/**
+ * The latest entry whose period ends before `period` does.
+ */
+export const findPreviousByPeriod = (items: HistoryItem[], period: PeriodInfo): HistoryItem | undefined =>
+    items
+        .filter(h => { const p = resolvePeriod(h.summary); return p !== null && p.end < period.end; })
+        .sort(compareHistoryByPeriod)
+        .pop();
@@ -0,0 +1,164 @@
+import { AnalysisResult, AnalysisUsage, ExtractedAccount, HistoryItem, PrivacySettings, PromptExperiment, PromptExperimentRow, PromptKind, PromptRunMetrics } from "../types";
+import { analyzeDocument, rerunNarrative } from "./geminiService";
+import { loadPromptDefaults } from "./promptRegistry";
+import { createUsageMeter, UsageMeter } from "./usageService";
+import { isCancelled, throwIfCancelled } from "./cancellationService";
+import { parsePeriodText, resolvePeriod } from "./periodService";
+
+const EXPERIMENTS_STORAGE_KEY = 'auditAI_prompt_experiments';
+const MAX_STORED_EXPERIMENTS = 20;
+// Each analysis of the sample costs two runs, so samples stay small
+export const MAX_SAMPLE_SIZE = 20;
+
+// One saved analysis a prompt pair is measured on; extraction also needs the original file
+export interface ExperimentSubject {
+    item: HistoryItem;
+    reference: AnalysisResult; // With the analyst's corrections: the closest thing to the right answer
+    document?: { base64: string, mimeType: string };
+}
+
+export interface ExperimentSideSummary {
+    runs: number;
+    errors: number;
+    matched_share?: number; // Extraction: share of the saved accounts found again, 0–1
+    balanced?: number;
+    observations?: number; // Narrative: averages per run
+    spell_check?: number;
+    account_audits?: number;
+    period_matches?: number;
+    cost_usd: number;
+}
+
+// Random sample without repetition
+export const sampleSubjects = <T>(subjects: T[], size: number): T[] => {
+    const pool = [...subjects];
+    for (let i = pool.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    return pool.slice(0, Math.max(0, size));
+};
+
+const accountKey = (a: ExtractedAccount) => `${(a.account_code || a.account_name).trim().toLowerCase()}|${Math.round(a.final_balance * 100)}`;
+
+async function runPrompt(kind: PromptKind, version: string, subject: ExperimentSubject, usage: UsageMeter, privacy: PrivacySettings, signal?: AbortSignal): Promise<PromptRunMetrics> {
+    if (kind === 'extraction') {
+        if (!subject.document) throw new Error('Arquivo original não informado.');
+        const result = await analyzeDocument(subject.document.base64, subject.document.mimeType, { prompts: { extraction: version }, usage, signal, privacy });
+        // SPED files and text-layer PDFs never reach the extraction prompt, so they say nothing about it
+        if (!result.provenance?.prompt_versions.extraction) throw new Error('O documento foi lido sem o prompt de extração (SPED ou PDF com camada de texto).');
+        const expected = new Set(subject.reference.accounts.map(accountKey));
+        return {
+            accounts: result.accounts.length,
+            matched_accounts: result.accounts.filter(a => expected.has(accountKey(a))).length,
+            is_balanced: result.summary.is_balanced
+        };
+    }
+
+    const narrative = await rerunNarrative(subject.reference, version, { usage, signal, privacy });
+    const read = parsePeriodText(narrative.period, 'ai');
+    const saved = resolvePeriod(subject.reference.summary);
+    return {
+        observations: narrative.observations.length,
+        spell_check: narrative.spellcheck.length,
+        account_audits: narrative.account_audits?.length || 0,
+        period_matches: read && saved ? read.start === saved.start && read.end === saved.end : undefined
+    };
+}
+
+/**
+ * Runs the current default prompt of `kind` and the candidate version on each
+ * subject, one after the other, and measures both against the saved analysis.
+ * A failed run is recorded on its row; cancelling discards the experiment.
+ * `onUsage` receives the tokens of every run, cancelled ones included.
+ */
+export const runPromptExperiment = async (options: {
+    kind: PromptKind;
+    candidate: string;
+    subjects: ExperimentSubject[];
+    privacyFor: (item: HistoryItem) => PrivacySettings;
+    signal?: AbortSignal;
+    onProgress?: (done: number, total: number) => void;
+    onUsage?: (usage: AnalysisUsage, item: HistoryItem) => void;
+}): Promise<PromptExperiment> => {
+    const { kind, candidate, subjects, signal } = options;
+    const baseline = loadPromptDefaults()[kind];
+    if (candidate === baseline) throw new Error('A versão em teste já é a padrão.');
+
+    const measure = async (version: string, subject: ExperimentSubject): Promise<PromptRunMetrics> => {
+        const usage = createUsageMeter();
+        try {
+            return { ...await runPrompt(kind, version, subject, usage, options.privacyFor(subject.item), signal), usage: usage.total() };
+        } catch (e: any) {
+            if (isCancelled(e)) throw e;
+            return { error: e?.message || 'Erro na execução.', usage: usage.total() };
+        } finally {
+            const total = usage.total();
+            if (total) options.onUsage?.(total, subject.item);
+        }
+    };
+
+    const rows: PromptExperimentRow[] = [];
+    options.onProgress?.(0, subjects.length);
+    for (const subject of subjects) {
+        throwIfCancelled(signal);
+        rows.push({
+            history_id: subject.item.id,
+            file_name: subject.item.fileName,
+            company_name: subject.item.headerData.companyName,
+            reference_accounts: subject.reference.accounts.length,
+            baseline: await measure(baseline, subject),
+            candidate: await measure(candidate, subject)
+        });
+        options.onProgress?.(rows.length, subjects.length);
+    }
+
+    return { id: `${Date.now()}`, kind, baseline_version: baseline, candidate_version: candidate, ran_at: new Date().toISOString(), rows };
+};
+
+export const summarizeExperiment = (experiment: PromptExperiment): { baseline: ExperimentSideSummary, candidate: ExperimentSideSummary } => {
+    const side = (pick: (row: PromptExperimentRow) => PromptRunMetrics): ExperimentSideSummary => {
+        const ok = experiment.rows.filter(r => !pick(r).error);
+        const average = (value: (m: PromptRunMetrics) => number | undefined) =>
+            ok.length > 0 ? ok.reduce((sum, r) => sum + (value(pick(r)) || 0), 0) / ok.length : undefined;
+        const summary: ExperimentSideSummary = {
+            runs: experiment.rows.length,
+            errors: experiment.rows.length - ok.length,
+            cost_usd: experiment.rows.reduce((sum, r) => sum + (pick(r).usage?.cost_usd || 0), 0)
+        };
+        if (experiment.kind === 'extraction') {
+            const reference = ok.reduce((sum, r) => sum + r.reference_accounts, 0);
+            summary.matched_share = reference > 0 ? ok.reduce((sum, r) => sum + (pick(r).matched_accounts || 0), 0) / reference : undefined;
+            summary.balanced = ok.filter(r => pick(r).is_balanced).length;
+        } else {
+            summary.observations = average(m => m.observations);
+            summary.spell_check = average(m => m.spell_check);
+            summary.account_audits = average(m => m.account_audits);
+            summary.period_matches = ok.filter(r => pick(r).period_matches).length;
+        }
+        return summary;
+    };
+    return { baseline: side(r => r.baseline), candidate: side(r => r.candidate) };
+};
+
+export const loadExperiments = (): PromptExperiment[] => {
+    try {
+        const raw = localStorage.getItem(EXPERIMENTS_STORAGE_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch (e) {
+        console.warn("Failed to read prompt experiments", e);
+        return [];
+    }
+};
+
+// Newest first; returns the updated list
+export const saveExperiment = (experiments: PromptExperiment[], experiment: PromptExperiment): PromptExperiment[] => {
+    const updated = [experiment, ...experiments].slice(0, MAX_STORED_EXPERIMENTS);
+    try { localStorage.setItem(EXPERIMENTS_STORAGE_KEY, JSON.stringify(updated)); }
+    catch (e) { console.warn("Could not save prompt experiment", e); }
+    return updated;
+};
+
+// A version becomes eligible for default once it was run as a candidate on at least one analysis
+export const wasTested = (experiments: PromptExperiment[], kind: PromptKind, version: string): boolean =>
+    experiments.some(e => e.kind === kind && e.candidate_version === version && e.rows.some(r => !r.candidate.error));
@@ -0,0 +1,190 @@
+import { PromptKind } from "../types";
+import { PLACEHOLDER_NOTE } from "./redactionService";
+
+const DEFAULTS_STORAGE_KEY = 'auditAI_prompt_defaults';
+
+// What the narrative prompt is filled with; the account sample arrives already masked
+export interface NarrativePromptInput {
+    documentType: string;
+    resultValue: number | undefined;
+    accounts: string; // "Código | Nome" pairs separated by "; "
+}
+
+interface PromptInputs {
+    extraction: void;
+    narrative: NarrativePromptInput;
+}
+
+export interface PromptTemplate<K extends PromptKind = PromptKind> {
+    version: string; // Stored on every result (AnalysisProvenance); never reuse one for a different text
+    kind: K;
+    label: string;
+    notes: string; // What changed from the previous version
+    build: (input: PromptInputs[K]) => string;
+}
+
+type PromptRegistry = { [K in PromptKind]: PromptTemplate<K>[] };
+
+/**
+ * Every prompt the analysis pipeline has sent, by kind. A prompt is never
+ * edited in place: a change is a new version, tried out on the history
+ * (see promptExperimentService) before it is made the default. The texts keep
+ * the indentation they were first sent with, since it is part of the prompt.
+ */
+export const PROMPT_REGISTRY: PromptRegistry = {
+    extraction: [
+        {
+            version: 'extraction-v1',
+            kind: 'extraction',
+            label: 'Extração por esquema JSON',
+            notes: 'Uma linha por conta no esquema de resposta, com as colunas de saldo anterior, débito, crédito e saldo atual.',
+            build: () => `
+    TASK: Financial Data Extraction.
+    OUTPUT: ONE JSON OBJECT FOLLOWING THE RESPONSE SCHEMA, WITH ONE ENTRY IN "rows" PER ACCOUNT LINE.
+    
+    CRITICAL RULES:
+    1. EXTRACT EVERY ACCOUNT ROW FROM ALL PROVIDED IMAGES/PAGES, IN ORDER. DO NOT SUMMARIZE.
+    2. AMOUNT COLUMNS: "initial_balance" (SDO. ANTERIOR), "debit", "credit", "final_balance" (SDO. ATUAL).
+       USE "" FOR A COLUMN THE DOCUMENT DOES NOT HAVE; A ROW WITH A SINGLE AMOUNT USES "final_balance".
+    3. IF THERE ARE PERIOD COLUMNS (e.g., 31/12/2024 | 31/12/2023): PUT THE MOST RECENT PERIOD IN "final_balance",
+       THE PRIOR ONE IN "initial_balance", AND THE COLUMN HEADERS IN "period_columns", IN THE ORDER PRINTED.
+    4. IGNORE NON-MONETARY COLUMNS (e.g., %, AV, AH). A D/C FLAG NEXT TO THE FINAL BALANCE GOES IN "indicator".
+    5. KEEP THE ORIGINAL NUMBER FORMAT, AS A STRING (e.g. "1.000,00", "(10.000,00)").
+    6. KEEP THE ACCOUNT NAME AS PRINTED, EVEN WHEN IT CONTAINS "|" OR OTHER SYMBOLS. NO MARKDOWN.
+       ${PLACEHOLDER_NOTE}
+    7. IGNORE PAGE HEADERS/FOOTERS, EXCEPT THE REPORT TITLE, THE COMPANY AND THE REPORTING PERIOD:
+       PUT THEM IN "document_type", "company", "cnpj" AND "period" (e.g. "01/01/2024 a 31/12/2024").
+    
+    Example row:
+    {"code": "3.02", "name": "(-) Devoluções", "initial_balance": "", "debit": "", "credit": "", "final_balance": "(10.000,00)", "indicator": ""}
+    `
+        },
+        {
+            version: 'extraction-v2',
+            kind: 'extraction',
+            label: 'Extração com as 4 colunas do balancete',
+            notes: 'Traz do antigo prompt de 6 colunas o mapeamento SDO. ANTERIOR | DÉBITO | CRÉDITO | SDO. ATUAL e a regra das contas de resultado com saldo atual zerado.',
+            build: () => `
+    TASK: Financial Data Extraction.
+    OUTPUT: ONE JSON OBJECT FOLLOWING THE RESPONSE SCHEMA, WITH ONE ENTRY IN "rows" PER ACCOUNT LINE.
+    
+    CRITICAL RULES:
+    1. EXTRACT EVERY ACCOUNT ROW FROM ALL PROVIDED IMAGES/PAGES, IN ORDER. DO NOT SUMMARIZE.
+    2. AMOUNT COLUMNS: "initial_balance" (SDO. ANTERIOR), "debit", "credit", "final_balance" (SDO. ATUAL).
+       USE "" FOR A COLUMN THE DOCUMENT DOES NOT HAVE; A ROW WITH A SINGLE AMOUNT USES "final_balance".
+       FOR A BALANCETE (4 AMOUNT COLUMNS) MAP THEM IN ORDER: SDO. ANTERIOR | DEBITO | CREDITO | SDO. ATUAL.
+       ACCOUNTS OF GROUPS 3, 4 AND 5 (RECEITAS/CUSTOS/DESPESAS) OFTEN HAVE SDO. ATUAL = 0,00 BUT LARGE
+       DEBITO OR CREDITO AMOUNTS: ALWAYS FILL ALL 4 COLUMNS, WRITING "0,00" WHERE THE DOCUMENT PRINTS ZERO.
+    3. IF THERE ARE PERIOD COLUMNS (e.g., 31/12/2024 | 31/12/2023): PUT THE MOST RECENT PERIOD IN "final_balance",
+       THE PRIOR ONE IN "initial_balance", AND THE COLUMN HEADERS IN "period_columns", IN THE ORDER PRINTED.
+    4. IGNORE NON-MONETARY COLUMNS (e.g., %, AV, AH). A D/C FLAG NEXT TO THE FINAL BALANCE GOES IN "indicator".
+    5. KEEP THE ORIGINAL NUMBER FORMAT, AS A STRING (e.g. "1.000,00", "(10.000,00)").
+    6. KEEP THE ACCOUNT NAME AS PRINTED, EVEN WHEN IT CONTAINS "|" OR OTHER SYMBOLS. NO MARKDOWN.
+       ${PLACEHOLDER_NOTE}
+    7. INCLUDE SYNTHETIC/GROUP ACCOUNTS (e.g. "1 - ATIVO", "1.1 - ATIVO CIRCULANTE") AND ACCOUNTS WHOSE AMOUNTS ARE ALL ZERO.
+    8. IGNORE PAGE HEADERS/FOOTERS, EXCEPT THE REPORT TITLE, THE COMPANY AND THE REPORTING PERIOD:
+       PUT THEM IN "document_type", "company", "cnpj" AND "period" (e.g. "01/01/2024 a 31/12/2024").
+    
+    Example rows:
+    {"code": "3.02", "name": "(-) Devoluções", "initial_balance": "", "debit": "", "credit": "", "final_balance": "(10.000,00)", "indicator": ""}
+    {"code": "3.1.1", "name": "RECEITA BRUTA", "initial_balance": "0,00", "debit": "0,00", "credit": "86.898.954,21", "final_balance": "86.898.954,21", "indicator": "C"}
+    `
+        }
+    ],
+    narrative: [
+        {
+            version: 'narrative-v1',
+            kind: 'narrative',
+            label: 'Auditoria de nomenclatura e período',
+            notes: 'Período, destaques de auditoria, correções ortográficas e sugestões por conta.',
+            build: (input) => `
+    ATUE COMO: Auditor Contábil Senior SP Assessoria.
+    DADOS: Doc: ${input.documentType}, Resultado: ${input.resultValue}.
+    AMOSTRA CONTAS (Código | Nome): ${input.accounts}
+    ${PLACEHOLDER_NOTE}
+    
+    TAREFA: 
+    1. Identifique o período (ex: 01/2025 ou 2024 completo).
+    2. Identifique erros ortográficos ou nomenclaturas contábeis fora do padrão (ex: "Despessa" -> "Despesa", "Adiant. Clie" -> "Adiantamento de Clientes").
+    3. Sinalize contas com nomes genéricos ou confusos e sugira a melhor opção técnica e o tipo de lançamento correto.
+    
+    SAÍDA JSON RIGOROSA:
+    {
+      "period": "string",
+      "observations": ["Destaque de auditoria 1", "Destaque 2"],
+      "spellcheck": [{"original_term": "string", "suggested_correction": "string", "confidence": "High"}],
+      "account_audits": [
+        {
+          "code": "string",
+          "name": "string",
+          "name_suggestion": "string",
+          "posting_suggestion": "string (ex: Lançar como despesa administrativa)",
+          "audit_notes": "string (ex: Conta com nome incompleto prejudica a clareza)"
+        }
+      ]
+    }
+    `
+        }
+    ]
+};
+
+// System instructions of the answers written for the analyst; the server only forwards these
+export const SYSTEM_INSTRUCTIONS = {
+    financialHealth: "Você é o Diretor de Auditoria e Estratégia da SP Assessoria. Sua missão é fornecer um parecer técnico impecável sobre a Saúde Financeira da empresa com base nos dados fornecidos.",
+    costs: `Auditor de Custos SP Assessoria.`,
+    sped: "Especialista em SPED ECD/ECF SP Assessoria.",
+    chat: "Assistente contábil sênior SP Assessoria.",
+    comparison: "Você é um Auditor Contábil Senior da SP Assessoria especializado em análise horizontal. Forneça insights detalhados sobre os motivos prováveis das variações e destaque riscos ou anomalias."
+};
+
+// How the prompt under each insight instruction opens; the server forwards an insight only with its own opening
+export const INSIGHT_OPENINGS = {
+    financialHealth: "\n    DADOS DO RELATÓRIO:\n",
+    costs: "Analise CMV:\n",
+    sped: "Auditoria SPED:\n\n",
+    comparison: "Analise as variações financeiras entre os períodos "
+};
+
+// The registry's own defaults, until another version is promoted after an experiment
+const BUILT_IN_DEFAULTS: Record<PromptKind, string> = { extraction: 'extraction-v1', narrative: 'narrative-v1' };
+
+export const listPrompts = <K extends PromptKind>(kind: K): PromptTemplate<K>[] => PROMPT_REGISTRY[kind] as PromptTemplate<K>[];
+
+const findPrompt = <K extends PromptKind>(kind: K, version: string): PromptTemplate<K> | undefined =>
+    listPrompts(kind).find(p => p.version === version);
+
+// Promoted versions live in the browser; the API server and the CLI use the built-in defaults
+export const loadPromptDefaults = (): Record<PromptKind, string> => {
+    const defaults = { ...BUILT_IN_DEFAULTS };
+    if (typeof localStorage === 'undefined') return defaults;
+    try {
+        const stored: Partial<Record<PromptKind, string>> = JSON.parse(localStorage.getItem(DEFAULTS_STORAGE_KEY) || '{}');
+        // A version dropped from the registry falls back to the built-in default
+        (Object.keys(defaults) as PromptKind[]).forEach(kind => {
+            const version = stored[kind];
+            if (version && findPrompt(kind, version)) defaults[kind] = version;
+        });
+    } catch (e) {
+        console.warn("Failed to read prompt defaults", e);
+    }
+    return defaults;
+};
+
+export const setDefaultPrompt = (kind: PromptKind, version: string): Record<PromptKind, string> => {
+    if (!findPrompt(kind, version)) throw new Error(`Versão de prompt desconhecida: ${version}.`);
+    const defaults = { ...loadPromptDefaults(), [kind]: version };
+    try { localStorage.setItem(DEFAULTS_STORAGE_KEY, JSON.stringify(defaults)); }
+    catch (e) { console.warn("Could not save prompt defaults", e); }
+    return defaults;
+};
+
+/**
+ * The template of `version`, or the current default of its kind. An unknown
+ * version fails instead of silently running another prompt.
+ */
+export const resolvePrompt = <K extends PromptKind>(kind: K, version?: string): PromptTemplate<K> => {
+    const wanted = version || loadPromptDefaults()[kind];
+    const template = findPrompt(kind, wanted);
+    if (!template) throw new Error(`Versão de prompt desconhecida: ${wanted}.`);
+    return template;
+};
@@ -0,0 +1,70 @@
+import type { LlmProvider, LlmRequest, LlmResponse, LlmTask } from "./llmProvider";
+
+// The server groups the tasks by what the analyst is doing; each endpoint only accepts its own tasks
+export const TASK_ENDPOINTS: Record<LlmTask, string> = {
+    extraction: 'analyze',
+    narrative: 'analyze',
+    insight: 'insight',
+    chat: 'chat'
+};
+
+// Body of a proxied call: the request without what only makes sense in the browser
+export type ProxyRequestBody = Omit<LlmRequest, 'model' | 'signal' | 'onText'> & { stream?: boolean };
+
+// One line of a streamed answer (newline-delimited JSON)
+export type ProxyStreamEvent =
+    | { delta: string }
+    | { done: LlmResponse }
+    | { error: { message: string, status: number } };
+
+const toError = (message: string, status: number) => Object.assign(new Error(message), { status });
+
+const readStream = async (body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<LlmResponse> => {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() || '';
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            const event: ProxyStreamEvent = JSON.parse(line);
+            if ('error' in event) throw toError(event.error.message, event.error.status);
+            if ('done' in event) return event.done;
+            text += event.delta;
+            onText(text);
+        }
+        // The connection dropped before the answer was complete
+        if (done) throw toError("A conexão com o servidor foi interrompida.", 502);
+    }
+};
+
+/**
+ * Sends model calls to the app's own server (server/index.ts), which holds the
+ * API key and picks the model; nothing secret reaches the browser bundle.
+ */
+export const createProxyProvider = (options: { baseUrl: string }): LlmProvider => ({
+    name: 'proxy',
+    generate: async (request: LlmRequest): Promise<LlmResponse> => {
+        const { model, signal, onText, ...rest } = request;
+        const body: ProxyRequestBody = { ...rest, stream: !!onText };
+
+        const response = await fetch(`${options.baseUrl.replace(/\/+$/, '')}/${TASK_ENDPOINTS[request.task]}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            signal,
+            body: JSON.stringify(body)
+        });
+        if (!response.ok) {
+            const payload = await response.json().catch(() => null);
+            throw toError(payload?.error || `Erro ${response.status} do servidor.`, response.status);
+        }
+
+        if (onText && response.body) return readStream(response.body, onText);
+        return response.json();
+    }
+});
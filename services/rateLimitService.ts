@@ -0,0 +1,20 @@
+import { sleep } from "./cancellationService";
+
+// One quota is shared by every call in the tab, so a 429 pauses all of them, not only the one that got it
+let resumeAt = 0;
+
+export const isRateLimited = (error: any): boolean => {
+    const status = error?.status || error?.code;
+    const message: string = error?.message || '';
+    return status === 429 || message.includes('429') || message.includes('RESOURCE_EXHAUSTED');
+};
+
+// Holds every model call for `ms`; overlapping pauses keep the later end
+export const pauseCalls = (ms: number) => {
+    resumeAt = Math.max(resumeAt, Date.now() + ms);
+};
+
+// Resolves once no pause is in force; a pause extended while waiting is waited out too
+export const waitForCallSlot = async (signal?: AbortSignal): Promise<void> => {
+    while (resumeAt > Date.now()) await sleep(resumeAt - Date.now(), signal);
+};
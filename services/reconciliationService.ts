@@ -0,0 +1,81 @@
+import { AnalysisResult, EcfPeriod, EcfReconciliationRow, EcfReferentialLine, ExtractedAccount } from "../types";
+
+const TOLERANCE = 1.0;
+
+// Ledger rows carry magnitude + type; DRE rows are already signed (debit negative).
+const signedLedgerValue = (acc: ExtractedAccount, docType: string): number => {
+    let value = acc.final_balance;
+    // Result accounts of a closed balancete show SDO_ATUAL = 0; the movement is what the ECF reports
+    if (value === 0 && docType !== 'DRE') value = Math.abs(acc.debit_value - acc.credit_value);
+    return acc.type === 'Credit' ? -Math.abs(value) : Math.abs(value);
+};
+
+const normalizeName = (name: string): string =>
+    name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Ties the ECF referential statements (L100/L300) to a balancete, Balanço or DRE from
+ * history. Accounts imported from an ECD carry their I051 referential code and are
+ * matched exactly; otherwise the referential description is matched by name.
+ */
+export const reconcileEcf = (period: EcfPeriod, ledger: AnalysisResult): EcfReconciliationRow[] => {
+    const docType = ledger.summary.document_type;
+    const analytical = ledger.accounts.filter(a => !a.is_synthetic);
+    const hasReferential = analytical.some(a => a.referential_code);
+
+    const byReferential = new Map<string, ExtractedAccount[]>();
+    analytical.forEach(acc => {
+        if (!acc.referential_code) return;
+        const list = byReferential.get(acc.referential_code) || [];
+        list.push(acc);
+        byReferential.set(acc.referential_code, list);
+    });
+
+    const byName = new Map<string, ExtractedAccount[]>();
+    ledger.accounts.forEach(acc => {
+        const key = normalizeName(acc.account_name);
+        const list = byName.get(key) || [];
+        list.push(acc);
+        byName.set(key, list);
+    });
+
+    const reconcileLine = (statement: 'L100' | 'L300', line: EcfReferentialLine): EcfReconciliationRow => {
+        let matched: ExtractedAccount[] = [];
+        let matchMethod: EcfReconciliationRow['matchMethod'] = 'none';
+
+        if (hasReferential) {
+            matched = byReferential.get(line.code) || [];
+            if (matched.length > 0) matchMethod = 'referential';
+        } else {
+            // Without referential codes only one ledger row may stand for the line
+            matched = (byName.get(normalizeName(line.description)) || []).slice(0, 1);
+            if (matched.length > 0) matchMethod = 'name';
+        }
+
+        const ledgerValue = matched.reduce((sum, acc) => sum + signedLedgerValue(acc, docType), 0);
+        return {
+            statement,
+            referentialCode: line.code,
+            description: line.description,
+            ecfValue: line.final,
+            ledgerValue,
+            difference: line.final - ledgerValue,
+            matchedAccounts: matched.map(a => a.account_code || a.account_name),
+            matchMethod
+        };
+    };
+
+    const rows: EcfReconciliationRow[] = [];
+    // A DRE carries no balance sheet accounts and a Balanço carries no result accounts
+    if (docType !== 'DRE') {
+        period.balanceSheet.filter(l => !l.isSynthetic).forEach(l => rows.push(reconcileLine('L100', l)));
+    }
+    if (docType !== 'Balanço Patrimonial') {
+        period.incomeStatement.filter(l => !l.isSynthetic).forEach(l => rows.push(reconcileLine('L300', l)));
+    }
+
+    // Referential lines with neither ECF value nor ledger match carry no information
+    return rows.filter(r => r.ecfValue !== 0 || r.ledgerValue !== 0);
+};
+
+export const isReconciliationDifference = (row: EcfReconciliationRow): boolean => Math.abs(row.difference) >= TOLERANCE;
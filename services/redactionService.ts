@@ -0,0 +1,134 @@
+import { HeaderData, PrivacySettings } from "../types";
+
+const PRIVACY_STORAGE_KEY = 'auditAI_privacy';
+
+export const DEFAULT_PRIVACY: PrivacySettings = { allow_images: true, masked_names: [] };
+
+// Told to the model wherever redacted text is sent, so placeholders come back untouched
+export const PLACEHOLDER_NOTE = 'TEXT IN BRACKETS SUCH AS [NOME_1], [CPF_2], [CNPJ_1] OR [CONTA_3] IS A PLACEHOLDER FOR CONFIDENTIAL DATA: COPY IT EXACTLY AS WRITTEN, NEVER GUESS WHAT IT STANDS FOR.';
+
+type PlaceholderKind = 'CPF' | 'CNPJ' | 'CONTA' | 'NOME';
+
+const CPF_PATTERN = /\b\d{3}\.\d{3}\.\d{3}-\d{2}\b/g;
+const CNPJ_PATTERN = /\b\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}\b/g;
+// Unformatted numbers are only taken when labelled, since account codes can be long digit runs too
+const LABELLED_ID_PATTERN = /\b(CPF|CNPJ)(\s*(?:n[ºo°.]\s*)?[:#-]?\s*)(\d{14}|\d{11})\b/gi;
+const BANK_ACCOUNT_PATTERN = /\b(Ag(?:ência|encia|\.)?|AG|C\/C|CC|Conta Corrente|Conta Movimento|CONTA CORRENTE|CONTA MOVIMENTO)(\s*(?:n[ºo°.]\s*)?:?\s*)(\d{3,12}(?:-[\dXx])?)\b/g;
+// A person's name after the words that introduce partners in account names ("Empréstimo Sócio João da Silva")
+const PARTNER_NAME_PATTERN = /\b(S[óo]ci[oa]s?|S[ÓO]CI[OA]S?|Acionista|ACIONISTA|Titular|TITULAR|Pr[óo]-?labore|PR[ÓO]-?LABORE)(\s*[-:–]?\s*)([A-ZÀ-Ý][A-Za-zÀ-ÿ']+(?:\s+(?:(?:d[aeo]s?|D[AEO]S?|e|E)\s+)?[A-ZÀ-Ý][A-Za-zÀ-ÿ']+){1,5})/g;
+// Words that follow "Sócio" in account names without being a name
+const NOT_A_NAME = new Set([
+    'administrador', 'administradores', 'gerente', 'quotista', 'quotistas', 'cotista', 'cotistas', 'capital', 'conta', 'contas',
+    'pagar', 'receber', 'ltda', 'lucros', 'dividendos', 'empréstimo', 'emprestimo', 'mútuo', 'mutuo', 'adiantamento', 'retirada', 'retiradas',
+    'investidor', 'ostensivo', 'participante', 'majoritário', 'minoritário', 'diretor', 'diretores', 'inss', 'irrf', 'social'
+]);
+const PLACEHOLDER_PATTERN = /\[(CPF|CNPJ|CONTA|NOME)_(\d+)\]/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export interface Redactor {
+    redact: (text: string) => string;
+    restore: (text: string) => string;
+    // Restores every string inside a parsed answer
+    restoreDeep: <T>(value: T) => T;
+    count: () => number; // Distinct values masked so far
+}
+
+/**
+ * Masks CPFs, CNPJs, bank accounts and people's names with numbered
+ * placeholders before text goes to the model, and puts the originals back in
+ * what it returns. One redactor serves a whole analysis, so the same value
+ * always gets the same placeholder across requests.
+ */
+export const createRedactor = (privacy: PrivacySettings = DEFAULT_PRIVACY): Redactor => {
+    const byValue = new Map<string, string>();
+    const byPlaceholder = new Map<string, string>();
+    const counters: Record<PlaceholderKind, number> = { CPF: 0, CNPJ: 0, CONTA: 0, NOME: 0 };
+
+    const placeholder = (kind: PlaceholderKind, value: string): string => {
+        const key = `${kind}:${value.toLowerCase()}`;
+        let token = byValue.get(key);
+        if (!token) {
+            token = `[${kind}_${++counters[kind]}]`;
+            byValue.set(key, token);
+            byPlaceholder.set(token, value);
+        }
+        return token;
+    };
+
+    const knownNames = privacy.masked_names.map(n => n.trim()).filter(n => n.length >= 3)
+        .sort((a, b) => b.length - a.length)
+        .map(name => ({ name, pattern: new RegExp(`(?<![\\wÀ-ÿ])${escapeRegExp(name)}(?![\\wÀ-ÿ])`, 'gi') }));
+
+    const redact = (text: string): string => {
+        let out = text;
+        knownNames.forEach(({ name, pattern }) => { out = out.replace(pattern, () => placeholder('NOME', name)); });
+        out = out
+            .replace(CNPJ_PATTERN, match => placeholder('CNPJ', match))
+            .replace(CPF_PATTERN, match => placeholder('CPF', match))
+            .replace(LABELLED_ID_PATTERN, (_, label: string, sep: string, digits: string) =>
+                `${label}${sep}${placeholder(digits.length === 14 ? 'CNPJ' : 'CPF', digits)}`)
+            .replace(BANK_ACCOUNT_PATTERN, (_, label: string, sep: string, number: string) => `${label}${sep}${placeholder('CONTA', number)}`)
+            .replace(PARTNER_NAME_PATTERN, (match, keyword: string, sep: string, name: string) =>
+                name.split(/\s+/).some(word => NOT_A_NAME.has(word.toLowerCase())) ? match : `${keyword}${sep}${placeholder('NOME', name)}`);
+        return out;
+    };
+
+    const restore = (text: string): string =>
+        text.replace(PLACEHOLDER_PATTERN, token => byPlaceholder.get(token) ?? token);
+
+    const restoreDeep = <T,>(value: T): T => {
+        if (typeof value === 'string') return restore(value) as T;
+        if (Array.isArray(value)) return value.map(restoreDeep) as T;
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, restoreDeep(v)])) as T;
+        }
+        return value;
+    };
+
+    return { redact, restore, restoreDeep, count: () => byPlaceholder.size };
+};
+
+// Settings follow the company: by CNPJ once it is complete, otherwise by name
+const cnpjKey = (company: Pick<HeaderData, 'cnpj'>): string => {
+    const digits = company.cnpj.replace(/\D/g, '');
+    return digits.length === 14 ? digits : '';
+};
+const nameKey = (company: Pick<HeaderData, 'companyName'>): string => company.companyName.trim().toLowerCase();
+
+const loadAllSettings = (): Record<string, PrivacySettings> => {
+    try { return JSON.parse(localStorage.getItem(PRIVACY_STORAGE_KEY) || '{}'); }
+    catch { return {}; }
+};
+
+const storeAllSettings = (all: Record<string, PrivacySettings>) => {
+    try { localStorage.setItem(PRIVACY_STORAGE_KEY, JSON.stringify(all)); }
+    catch (e) { console.warn("Could not save privacy settings", e); }
+};
+
+/**
+ * The company's settings, by CNPJ first and then by name. Settings saved under
+ * the name before the CNPJ was known move to the CNPJ as soon as it is, so
+ * typing or prefilling it later does not drop them.
+ */
+export const loadPrivacySettings = (company: Pick<HeaderData, 'cnpj' | 'companyName'>): PrivacySettings => {
+    const cnpj = cnpjKey(company);
+    const name = nameKey(company);
+    const all = loadAllSettings();
+    if (cnpj && !all[cnpj] && name && all[name]) {
+        all[cnpj] = all[name];
+        delete all[name];
+        storeAllSettings(all);
+    }
+    return { ...DEFAULT_PRIVACY, ...((cnpj && all[cnpj]) || (name && all[name]) || undefined) };
+};
+
+export const savePrivacySettings = (company: Pick<HeaderData, 'cnpj' | 'companyName'>, settings: PrivacySettings) => {
+    const cnpj = cnpjKey(company);
+    const name = nameKey(company);
+    if (!cnpj && !name) return;
+    const all = loadAllSettings();
+    if (cnpj) delete all[name];
+    all[cnpj || name] = settings;
+    storeAllSettings(all);
+};
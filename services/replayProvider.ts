@@ -0,0 +1,68 @@
+import type { LlmProvider, LlmRequest, LlmResponse, LlmTask } from "./llmProvider";
+import { fingerprintFile } from "./extractionQueue";
+
+const FIXTURE_STORAGE_PREFIX = 'auditAI_fixture_';
+
+export interface LlmFixture {
+    task: LlmTask;
+    model: string;
+    response: LlmResponse;
+}
+
+export interface FixtureStore {
+    get: (key: string) => LlmFixture | undefined;
+    set: (key: string, fixture: LlmFixture) => void;
+}
+
+/**
+ * Key of a request: everything that can change the answer. Attachments are
+ * reduced to a fingerprint so keys stay short.
+ */
+export const fixtureKey = (request: LlmRequest): string => {
+    const parts = request.parts.map(p => p.inlineData ? { mimeType: p.inlineData.mimeType, data: fingerprintFile(p.inlineData.data) } : p);
+    const { task, model, systemInstruction, history, temperature, maxOutputTokens, json, responseSchema, webSearch } = request;
+    const signature = JSON.stringify({ task, model, systemInstruction, history, temperature, maxOutputTokens, json, responseSchema, webSearch, parts });
+    return `${task}_${fingerprintFile(signature)}`;
+};
+
+// Fixtures kept in memory; `fixtures` can be seeded from (and written back to) a JSON file
+export const createMemoryFixtureStore = (fixtures: Record<string, LlmFixture> = {}): FixtureStore & { fixtures: Record<string, LlmFixture> } => ({
+    fixtures,
+    get: (key) => fixtures[key],
+    set: (key, fixture) => { fixtures[key] = fixture; }
+});
+
+export const createLocalStorageFixtureStore = (): FixtureStore => ({
+    get: (key) => {
+        try {
+            const raw = localStorage.getItem(`${FIXTURE_STORAGE_PREFIX}${key}`);
+            return raw ? JSON.parse(raw) : undefined;
+        } catch { return undefined; }
+    },
+    set: (key, fixture) => {
+        try { localStorage.setItem(`${FIXTURE_STORAGE_PREFIX}${key}`, JSON.stringify(fixture)); }
+        catch (e) { console.warn("Could not save model fixture", e); }
+    }
+});
+
+/**
+ * Record mode passes every request to `upstream` and keeps the answer; replay
+ * mode answers from the store only, so the whole pipeline runs offline and
+ * deterministically. A request that was never recorded fails in replay mode.
+ */
+export const createReplayProvider = (options: { mode: 'record' | 'replay', store: FixtureStore, upstream?: LlmProvider }): LlmProvider => ({
+    name: `${options.mode}:${options.upstream?.name || 'offline'}`,
+    generate: async (request: LlmRequest): Promise<LlmResponse> => {
+        const key = fixtureKey(request);
+        if (options.mode === 'replay') {
+            const fixture = options.store.get(key);
+            // 404 so the retry helper fails fast: replaying again cannot find it either
+            if (!fixture) throw Object.assign(new Error(`Nenhuma resposta gravada para esta chamada (${key}). Grave-a antes com LLM_REPLAY=record.`), { status: 404 });
+            return fixture.response;
+        }
+        if (!options.upstream) throw new Error("Modo de gravação sem provedor de IA configurado.");
+        const response = await options.upstream.generate(request);
+        options.store.set(key, { task: request.task, model: request.model, response });
+        return response;
+    }
+});
@@ -0,0 +1,107 @@
+import { jsPDF } from 'jspdf';
+// The ES build, so the default export is the function under Node as well as in the browser
+import autoTable from 'jspdf-autotable/es';
+import * as XLSX from 'xlsx';
+import { AnalysisResult } from "../types";
+import { periodLabel } from "./periodService";
+
+export interface ReportHeader {
+    companyName: string;
+    cnpj: string;
+    fileName: string;
+}
+
+const formatCurrency = (val: number) => new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(val);
+
+const summaryRows = (result: AnalysisResult, header: ReportHeader): [string, string | number][] => [
+    ['Empresa', header.companyName || result.document_metadata?.company_name || 'Não identificada'],
+    ['CNPJ', header.cnpj || result.document_metadata?.cnpj || '—'],
+    ['Arquivo', header.fileName],
+    ['Tipo de documento', result.summary.document_type],
+    ['Período', periodLabel(result.summary)],
+    ['Total de débitos', result.summary.total_debits],
+    ['Total de créditos', result.summary.total_credits],
+    ['Balanceado', result.summary.is_balanced ? 'Sim' : 'Não'],
+    ['Diferença', result.summary.discrepancy_amount]
+];
+
+/**
+ * One analysis as a printable report: summary, observations and the account
+ * table. Built without the screen, so it also serves the command-line batch.
+ */
+export const buildAnalysisPdf = (result: AnalysisResult, header: ReportHeader): jsPDF => {
+    const doc = new jsPDF();
+    const pageWidth = doc.internal.pageSize.width;
+
+    doc.setFillColor(15, 23, 42);
+    doc.rect(0, 0, pageWidth, 32, 'F');
+    doc.setTextColor(255, 255, 255);
+    doc.setFontSize(16);
+    doc.setFont('helvetica', 'bold');
+    doc.text('SP ASSESSORIA CONTÁBIL', 14, 14);
+    doc.setFontSize(10);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`${result.summary.document_type} — ${periodLabel(result.summary)}`, 14, 22);
+    doc.text(`Emissão: ${new Date().toLocaleDateString('pt-BR')}`, pageWidth - 14, 22, { align: 'right' });
+    doc.setTextColor(0, 0, 0);
+
+    autoTable(doc, {
+        startY: 40,
+        body: summaryRows(result, header).map(([label, value]) => [label, typeof value === 'number' ? formatCurrency(value) : value]),
+        theme: 'plain',
+        styles: { fontSize: 9, cellPadding: 1.5 },
+        columnStyles: { 0: { fontStyle: 'bold', cellWidth: 45 } }
+    });
+
+    let y = (doc as any).lastAutoTable.finalY + 8;
+    if (result.summary.observations.length > 0) {
+        doc.setFontSize(11);
+        doc.setFont('helvetica', 'bold');
+        doc.text('Observações', 14, y);
+        doc.setFontSize(9);
+        doc.setFont('helvetica', 'normal');
+        const lines = doc.splitTextToSize(result.summary.observations.map(o => `• ${o}`).join('\n'), pageWidth - 28);
+        doc.text(lines, 14, y + 6);
+        y += 10 + lines.length * 4;
+    }
+
+    autoTable(doc, {
+        startY: y,
+        head: [['Código', 'Conta', 'Saldo Anterior', 'Débito', 'Crédito', 'Saldo Atual']],
+        body: result.accounts.map(a => [
+            a.account_code || '',
+            `${'  '.repeat(Math.max(0, a.level - 1))}${a.account_name}`,
+            formatCurrency(a.initial_balance),
+            formatCurrency(a.debit_value),
+            formatCurrency(a.credit_value),
+            formatCurrency(a.final_balance)
+        ]),
+        styles: { fontSize: 7 },
+        headStyles: { fillColor: [37, 99, 235] },
+        columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' }, 4: { halign: 'right' }, 5: { halign: 'right' } },
+        didParseCell: (cell) => {
+            if (cell.section === 'body' && result.accounts[cell.row.index]?.is_synthetic) cell.cell.styles.fontStyle = 'bold';
+        }
+    });
+
+    return doc;
+};
+
+// The same report as a workbook: a summary sheet and the accounts with plain numbers
+export const buildAnalysisWorkbook = (result: AnalysisResult, header: ReportHeader): XLSX.WorkBook => {
+    const workbook = XLSX.utils.book_new();
+    const summary = [...summaryRows(result, header), ...result.summary.observations.map((o, i) => [i === 0 ? 'Observações' : '', o])];
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(summary), 'Resumo');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(result.accounts.map(a => ({
+        'Código': a.account_code || '',
+        'Conta': a.account_name,
+        'Nível': a.level,
+        'Sintética': a.is_synthetic ? 'Sim' : 'Não',
+        'Saldo Anterior': a.initial_balance,
+        'Débito': a.debit_value,
+        'Crédito': a.credit_value,
+        'Saldo Atual': a.final_balance,
+        'Confiança': a.confidence ?? ''
+    }))), 'Contas');
+    return workbook;
+};
@@ -0,0 +1,404 @@
+import { AnalysisResult, DocumentMetadata, ExtractedAccount, EcdFile, EcdAccount, EcdStatementLine, EcfFile, EcfPeriod, EcfLalurEntry } from "../types";
+import { buildSummary, checkInversion, classifyIfrs18 } from "./parsingService";
+import { parsePeriodText } from "./periodService";
+
+// SPED numbers use comma as decimal separator and no thousands separator ("1234,56").
+const parseSpedNumber = (val: string | undefined): number => {
+    if (!val) return 0;
+    const num = parseFloat(val.trim().replace(',', '.'));
+    return isNaN(num) ? 0 : num;
+};
+
+// DDMMAAAA -> DD/MM/AAAA
+export const formatSpedDate = (val: string | undefined): string => {
+    if (!val || val.length !== 8) return val || '';
+    return `${val.slice(0, 2)}/${val.slice(2, 4)}/${val.slice(4)}`;
+};
+
+// D/C indicator -> signed value (debit positive, credit negative)
+const signed = (value: number, indicator: string | undefined): number =>
+    (indicator || '').toUpperCase() === 'C' ? -Math.abs(value) : Math.abs(value);
+
+const splitRecord = (line: string): string[] => {
+    const trimmed = line.trim();
+    if (!trimmed.startsWith('|')) return [];
+    // "|I155|1.01|..|" -> ['I155', '1.01', ...]
+    return trimmed.slice(1, trimmed.endsWith('|') ? -1 : undefined).split('|');
+};
+
+/**
+ * A real ECD starts with the |0000|LECD| opening record.
+ */
+export const isEcdFile = (text: string): boolean => {
+    const firstLine = text.trimStart().split(/\r?\n/, 1)[0] || '';
+    return /^\|0000\|LECD\|/.test(firstLine);
+};
+
+/**
+ * Reads the ECD layout: 0000 header, I050/I051 chart of accounts, I150/I155 period
+ * balances, I355 pre-closing result balances and the J100 (Balanço) / J150 (DRE) statements.
+ */
+export const parseEcd = (text: string): EcdFile => {
+    const ecd: EcdFile = {
+        companyName: '',
+        cnpj: '',
+        startDate: '',
+        endDate: '',
+        accounts: [],
+        periods: [],
+        preClosingBalances: [],
+        balanceSheet: [],
+        incomeStatement: []
+    };
+
+    let lastAccount: EcdAccount | null = null;
+    let currentPeriod: EcdFile['periods'][number] | null = null;
+
+    text.split(/\r?\n/).forEach(line => {
+        const f = splitRecord(line);
+        if (f.length === 0) return;
+
+        switch (f[0]) {
+            case '0000':
+                ecd.startDate = f[2] || '';
+                ecd.endDate = f[3] || '';
+                ecd.companyName = (f[4] || '').trim();
+                ecd.cnpj = (f[5] || '').trim();
+                break;
+            case 'I050': {
+                const account: EcdAccount = {
+                    code: (f[5] || '').trim(),
+                    parentCode: (f[6] || '').trim() || null,
+                    name: (f[7] || '').trim(),
+                    nature: f[2] || '',
+                    isSynthetic: (f[3] || '').toUpperCase() === 'S',
+                    level: parseInt(f[4], 10) || 1,
+                    referentialCode: null
+                };
+                if (!account.code) return;
+                ecd.accounts.push(account);
+                lastAccount = account;
+                break;
+            }
+            case 'I051':
+                // Layout 9: |I051|COD_CCUS|COD_CTA_REF| — older layouts carry COD_ENT_REF first.
+                if (lastAccount) lastAccount.referentialCode = (f[f.length - 1] || '').trim() || null;
+                break;
+            case 'I150':
+                currentPeriod = { startDate: f[1] || '', endDate: f[2] || '', balances: [] };
+                ecd.periods.push(currentPeriod);
+                break;
+            case 'I155':
+                if (!currentPeriod) return;
+                currentPeriod.balances.push({
+                    accountCode: (f[1] || '').trim(),
+                    initial: signed(parseSpedNumber(f[3]), f[4]),
+                    debit: parseSpedNumber(f[5]),
+                    credit: parseSpedNumber(f[6]),
+                    final: signed(parseSpedNumber(f[7]), f[8])
+                });
+                break;
+            case 'I355':
+                // Result accounts before the closing entries (one I350/I355 block per closing date)
+                ecd.preClosingBalances.push({
+                    accountCode: (f[1] || '').trim(),
+                    value: signed(parseSpedNumber(f[3]), f[4])
+                });
+                break;
+            case 'J100':
+                ecd.balanceSheet.push(parseJ100(f));
+                break;
+            case 'J150':
+                ecd.incomeStatement.push(parseJ150(f));
+                break;
+        }
+    });
+
+    return ecd;
+};
+
+function parseJ100(f: string[]): EcdStatementLine {
+    // Leiaute 7 and earlier: |J100|COD_AGL|NIVEL_AGL|IND_GRP_BAL|DESCR_COD_AGL|VL_CTA|IND_DC_BAL|
+    if (f.length <= 8) {
+        return {
+            code: f[1] || '', name: (f[4] || '').trim(), level: parseInt(f[2], 10) || 1,
+            parentCode: null, isTotal: false,
+            initial: 0, final: signed(parseSpedNumber(f[5]), f[6])
+        };
+    }
+    // |J100|COD_AGL|IND_COD_AGL|NIVEL_AGL|COD_AGL_SUP|IND_GRP_BAL|DESCR_COD_AGL|VL_CTA_INI|IND_DC_CTA_INI|VL_CTA_FIN|IND_DC_CTA_FIN|NOTA_EXP_REF|
+    return {
+        code: f[1] || '', name: (f[6] || '').trim(), level: parseInt(f[3], 10) || 1,
+        parentCode: (f[4] || '').trim() || null, isTotal: (f[2] || '').toUpperCase() === 'T',
+        initial: signed(parseSpedNumber(f[7]), f[8]), final: signed(parseSpedNumber(f[9]), f[10])
+    };
+}
+
+function parseJ150(f: string[]): EcdStatementLine {
+    // Leiaute 7 and earlier: |J150|COD_AGL|NIVEL_AGL|DESCR_COD_AGL|VL_CTA|IND_VL|
+    if (f.length <= 7) {
+        const value = parseSpedNumber(f[4]);
+        return {
+            code: f[1] || '', name: (f[3] || '').trim(), level: parseInt(f[2], 10) || 1,
+            parentCode: null, isTotal: false,
+            // IND_VL: D = redutora, R = soma, P = subtotal/resultado positivo, N = negativo
+            initial: 0, final: ['D', 'N'].includes((f[5] || '').toUpperCase()) ? Math.abs(value) : -Math.abs(value)
+        };
+    }
+    // |J150|NU_ORDEM|COD_AGL|IND_COD_AGL|NIVEL_AGL|COD_AGL_SUP|DESCR_COD_AGL|VL_CTA_INI|IND_DC_CTA_INI|VL_CTA_FIN|IND_DC_CTA_FIN|IND_GRP_DRE|NOTA_EXP_REF|
+    return {
+        code: f[2] || '', name: (f[6] || '').trim(), level: parseInt(f[4], 10) || 1,
+        parentCode: (f[5] || '').trim() || null, isTotal: (f[3] || '').toUpperCase() === 'T',
+        initial: signed(parseSpedNumber(f[7]), f[8]), final: signed(parseSpedNumber(f[9]), f[10])
+    };
+}
+
+// COD_NAT: 01 Ativo, 02 Passivo, 03 PL, 04 Resultado, 05 Compensação, 09 Outras
+const natureType = (nature: string, signedValue: number): 'Debit' | 'Credit' => {
+    if (signedValue > 0) return 'Debit';
+    if (signedValue < 0) return 'Credit';
+    return nature === '02' || nature === '03' ? 'Credit' : 'Debit';
+};
+
+/**
+ * Builds the balancete from I155 balances. Multi-period files (monthly I150 blocks)
+ * are collapsed: initial balance from the first period, debits/credits summed, final
+ * balance from the last period (or I355, for result accounts zeroed by the closing).
+ * Synthetic accounts are rolled up through COD_CTA_SUP.
+ */
+const buildBalanceteAccounts = (ecd: EcdFile): ExtractedAccount[] => {
+    const totals = new Map<string, { initial: number, debit: number, credit: number, final: number, seen: boolean }>();
+    const ensure = (code: string) => {
+        if (!totals.has(code)) totals.set(code, { initial: 0, debit: 0, credit: 0, final: 0, seen: false });
+        return totals.get(code)!;
+    };
+
+    const byCode = new Map(ecd.accounts.map(a => [a.code, a]));
+    const periods = [...ecd.periods].sort((a, b) => spedDateKey(a.startDate).localeCompare(spedDateKey(b.startDate)));
+    const lastPeriod = periods[periods.length - 1];
+
+    periods.forEach(period => {
+        // Cost-center rows (COD_CCUS) repeat the account inside the same period
+        const periodTotals = new Map<string, { initial: number, debit: number, credit: number, final: number }>();
+        period.balances.forEach(b => {
+            const t = periodTotals.get(b.accountCode) || { initial: 0, debit: 0, credit: 0, final: 0 };
+            t.initial += b.initial; t.debit += b.debit; t.credit += b.credit; t.final += b.final;
+            periodTotals.set(b.accountCode, t);
+        });
+
+        periodTotals.forEach((t, code) => {
+            // Synthetic balances are rebuilt from their analytical children below
+            if (byCode.get(code)?.isSynthetic) return;
+            const acc = ensure(code);
+            if (!acc.seen) { acc.initial = t.initial; acc.seen = true; }
+            acc.debit += t.debit;
+            acc.credit += t.credit;
+            // Accounts absent from the last period were closed out and keep a zero final balance
+            if (period === lastPeriod) acc.final = t.final;
+        });
+    });
+
+    // Closing entries zero the result accounts; I355 keeps what they showed before closing
+    const preClosing = new Map<string, number>();
+    ecd.preClosingBalances.forEach(b => preClosing.set(b.accountCode, (preClosing.get(b.accountCode) || 0) + b.value));
+    preClosing.forEach((value, code) => {
+        const acc = totals.get(code);
+        if (acc && acc.final === 0) acc.final = value;
+    });
+
+    // Roll analytical totals up to every synthetic ancestor
+    Array.from(totals.entries()).forEach(([code, t]) => {
+        const account = byCode.get(code);
+        if (!account || account.isSynthetic) return;
+        let parentCode = account.parentCode;
+        const visited = new Set<string>();
+        while (parentCode && !visited.has(parentCode)) {
+            visited.add(parentCode);
+            const parent = ensure(parentCode);
+            parent.initial += t.initial; parent.debit += t.debit; parent.credit += t.credit; parent.final += t.final;
+            parentCode = byCode.get(parentCode)?.parentCode || null;
+        }
+    });
+
+    const accounts: ExtractedAccount[] = [];
+    ecd.accounts.forEach(a => {
+        const t = totals.get(a.code);
+        if (!t || (t.initial === 0 && t.debit === 0 && t.credit === 0 && t.final === 0)) return;
+
+        const type = natureType(a.nature, t.final !== 0 ? t.final : t.debit - t.credit);
+        const indicator = t.final === 0 ? null : (t.final > 0 ? 'D' : 'C');
+        const finalBal = Math.abs(t.final);
+
+        accounts.push({
+            account_code: a.code,
+            account_name: a.name,
+            initial_balance: Math.abs(t.initial),
+            debit_value: t.debit,
+            credit_value: t.credit,
+            final_balance: finalBal,
+            total_value: finalBal,
+            type,
+            possible_inversion: !a.isSynthetic && finalBal !== 0 && checkInversion(a.name, type, finalBal, indicator, natureCodePrefix(a.nature, a.code)),
+            ifrs18_category: classifyIfrs18(a.name, a.code, a.nature === '04'),
+            level: a.level,
+            is_synthetic: a.isSynthetic,
+            referential_code: a.referentialCode
+        });
+    });
+    return accounts;
+};
+
+// checkInversion infers the expected nature from the code prefix (1 = Ativo, 2 = Passivo).
+// ECD charts are company-specific, so map COD_NAT onto that convention instead.
+const natureCodePrefix = (nature: string, code: string): string => {
+    if (nature === '01') return '1';
+    if (nature === '02' || nature === '03') return '2';
+    if (nature === '04') return '3';
+    return code;
+};
+
+const spedDateKey = (val: string): string => val.length === 8 ? `${val.slice(4)}${val.slice(2, 4)}${val.slice(0, 2)}` : val;
+
+const buildStatementAccounts = (lines: EcdStatementLine[], docType: 'Balanço Patrimonial' | 'DRE'): ExtractedAccount[] =>
+    lines.map(line => {
+        const type: 'Debit' | 'Credit' = line.final < 0 ? 'Credit' : 'Debit';
+        const value = Math.abs(line.final);
+        const isDre = docType === 'DRE';
+        return {
+            account_code: line.code,
+            account_name: line.name,
+            initial_balance: isDre ? 0 : Math.abs(line.initial),
+            debit_value: isDre && type === 'Debit' ? value : 0,
+            credit_value: isDre && type === 'Credit' ? value : 0,
+            // Same sign convention as normalizeFinancialData for DRE lines
+            final_balance: isDre ? (type === 'Debit' ? -value : value) : value,
+            total_value: value,
+            type,
+            possible_inversion: false,
+            ifrs18_category: classifyIfrs18(line.name, line.code, isDre),
+            level: line.level,
+            is_synthetic: line.isTotal
+        };
+    });
+
+/**
+ * Converts a parsed ECD into an AnalysisResult without any AI call. The balancete
+ * (I155) is preferred; files carrying only the J block fall back to the Balanço (J100)
+ * or the DRE (J150).
+ */
+export const buildAnalysisFromEcd = (ecd: EcdFile): AnalysisResult => {
+    let docType: 'Balancete' | 'Balanço Patrimonial' | 'DRE' = 'Balancete';
+    let accounts: ExtractedAccount[];
+
+    if (ecd.periods.some(p => p.balances.length > 0)) {
+        accounts = buildBalanceteAccounts(ecd);
+    } else if (ecd.balanceSheet.length > 0) {
+        docType = 'Balanço Patrimonial';
+        accounts = buildStatementAccounts(ecd.balanceSheet, docType);
+    } else {
+        docType = 'DRE';
+        accounts = buildStatementAccounts(ecd.incomeStatement, docType);
+    }
+
+    const summary = buildSummary(accounts, docType);
+    summary.period = `${formatSpedDate(ecd.startDate)} a ${formatSpedDate(ecd.endDate)}`;
+    summary.period_info = parsePeriodText(summary.period, 'document') || undefined;
+    summary.observations = [
+        `Importado localmente do SPED ECD (${ecd.accounts.length} contas no plano, ${ecd.periods.length} período(s) de saldos${ecd.balanceSheet.length ? ', J100' : ''}${ecd.incomeStatement.length ? ', J150' : ''}).`
+    ];
+
+    const document_metadata: DocumentMetadata = { period: summary.period_info };
+    if (ecd.companyName) document_metadata.company_name = ecd.companyName;
+    if (ecd.cnpj) document_metadata.cnpj = ecd.cnpj.replace(/\D/g, '');
+    return { summary, accounts, spell_check: [], document_metadata };
+};
+
+// --- ECF ---
+
+/**
+ * A real ECF starts with the |0000|LECF| opening record.
+ */
+export const isEcfFile = (text: string): boolean => {
+    const firstLine = text.trimStart().split(/\r?\n/, 1)[0] || '';
+    return /^\|0000\|LECF\|/.test(firstLine);
+};
+
+const parseLalurEntry = (f: string[]): EcfLalurEntry => ({
+    // |M300|CODIGO|DESCRICAO|TIPO_LANCAMENTO|IND_RELACAO|VALOR|HIST_LAN_LAL|
+    code: (f[1] || '').trim(),
+    description: (f[2] || '').trim(),
+    entryType: (f[3] || '').trim().toUpperCase(),
+    value: parseSpedNumber(f[5]),
+    history: (f[6] || '').trim()
+});
+
+/**
+ * Reads the ECF blocks used for Lucro Real reviews: L100 (Balanço referencial),
+ * L300 (DRE referencial) and the LALUR/LACS part A (M300/M350). L and M records are
+ * grouped by the apuração period opened by L030/M030.
+ */
+export const parseEcf = (text: string): EcfFile => {
+    const ecf: EcfFile = { companyName: '', cnpj: '', startDate: '', endDate: '', periods: [] };
+    let current: EcfPeriod | null = null;
+
+    const openPeriod = (f: string[]) => {
+        // |L030|DT_INI|DT_FIN|PER_APUR| and |M030|DT_INI|DT_FIN|PER_APUR|
+        const periodCode = (f[3] || '').trim();
+        current = ecf.periods.find(p => p.periodCode === periodCode) || null;
+        if (!current) {
+            current = {
+                periodCode, startDate: f[1] || '', endDate: f[2] || '',
+                balanceSheet: [], incomeStatement: [], lalurIrpj: [], lalurCsll: []
+            };
+            ecf.periods.push(current);
+        }
+    };
+
+    text.split(/\r?\n/).forEach(line => {
+        const f = splitRecord(line);
+        if (f.length === 0) return;
+
+        switch (f[0]) {
+            case '0000':
+                // |0000|LECF|COD_VER|CNPJ|NOME|IND_SIT_INI_PER|SIT_ESPECIAL|PAT_REMAN_CIS|DT_SIT_ESP|DT_INI|DT_FIN|...
+                ecf.cnpj = (f[3] || '').trim();
+                ecf.companyName = (f[4] || '').trim();
+                ecf.startDate = f[9] || '';
+                ecf.endDate = f[10] || '';
+                break;
+            case 'L030':
+            case 'M030':
+                openPeriod(f);
+                break;
+            case 'L100':
+                // |L100|CODIGO|DESCRICAO|TIPO|NIVEL|COD_NAT|COD_CTA_SUP|VAL_CTA_REF_INI|IND_VAL_CTA_REF_INI|VAL_CTA_REF_DEB|VAL_CTA_REF_CRED|VAL_CTA_REF_FIN|IND_VAL_CTA_REF_FIN|
+                current?.balanceSheet.push({
+                    code: (f[1] || '').trim(), description: (f[2] || '').trim(),
+                    isSynthetic: (f[3] || '').toUpperCase() === 'S', level: parseInt(f[4], 10) || 1,
+                    nature: f[5] || '', parentCode: (f[6] || '').trim() || null,
+                    initial: signed(parseSpedNumber(f[7]), f[8]),
+                    debit: parseSpedNumber(f[9]), credit: parseSpedNumber(f[10]),
+                    final: signed(parseSpedNumber(f[11]), f[12])
+                });
+                break;
+            case 'L300':
+                // |L300|CODIGO|DESCRICAO|TIPO|NIVEL|COD_NAT|COD_CTA_SUP|VALOR|IND_VALOR|
+                current?.incomeStatement.push({
+                    code: (f[1] || '').trim(), description: (f[2] || '').trim(),
+                    isSynthetic: (f[3] || '').toUpperCase() === 'S', level: parseInt(f[4], 10) || 1,
+                    nature: f[5] || '', parentCode: (f[6] || '').trim() || null,
+                    initial: 0, debit: 0, credit: 0,
+                    final: signed(parseSpedNumber(f[7]), f[8])
+                });
+                break;
+            case 'M300':
+                current?.lalurIrpj.push(parseLalurEntry(f));
+                break;
+            case 'M350':
+                current?.lalurCsll.push(parseLalurEntry(f));
+                break;
+        }
+    });
+
+    return ecf;
+};
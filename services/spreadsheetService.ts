@@ -0,0 +1,235 @@
+import * as XLSX from 'xlsx';
+import { AnalysisResult, ColumnMapping, ColumnRole, ComparativeColumns, ExtractedAccount, SheetData } from "../types";
+import { buildAccount, detectComparativeColumns, finalizeAccounts, parseFinancialNumber } from "./parsingService";
+import { scoreAccounts } from "./confidenceService";
+import { formatPeriod, parsePeriodText } from "./periodService";
+import { extractDocumentMetadata, hasDocumentMetadata } from "./documentMetadataService";
+
+const SAMPLE_ROWS = 60;
+
+const normalizeHeader = (value: string | number): string =>
+    String(value ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const isBlank = (cell: string | number | undefined) => cell === undefined || String(cell).trim() === '';
+
+const isAmountCell = (cell: string | number | undefined): boolean => {
+    if (typeof cell === 'number') return true;
+    if (isBlank(cell)) return false;
+    return /^\(?-?(R\$)?\s?[\d.,]*\d\)?(\s?[DC])?$/i.test(String(cell).trim());
+};
+
+const isCodeCell = (cell: string | number | undefined): boolean =>
+    !isBlank(cell) && /^\d+([.\-]\d+)*\.?$/.test(String(cell).trim()) && String(cell).trim().length < 20;
+
+/**
+ * Reads every sheet of a workbook as a grid of cells. Numbers are kept as numbers so
+ * no locale formatting has to be undone later.
+ */
+export const readWorkbook = (data: Uint8Array): SheetData[] => {
+    const workbook = XLSX.read(data, { type: 'array' });
+    return workbook.SheetNames.map(name => ({
+        name,
+        rows: XLSX.utils.sheet_to_json<(string | number)[]>(workbook.Sheets[name], { header: 1, raw: true, defval: '', blankrows: false })
+    }));
+};
+
+// What a batch sends for a workbook, where nobody is there to map the columns: the first sheet as pipe text
+export const firstSheetToPipeText = (data: Uint8Array): string => {
+    const workbook = XLSX.read(data, { type: 'array' });
+    return XLSX.utils.sheet_to_csv(workbook.Sheets[workbook.SheetNames[0]], { FS: '|' });
+};
+
+export const columnCount = (rows: (string | number)[][]): number =>
+    rows.slice(0, SAMPLE_ROWS * 4).reduce((max, r) => Math.max(max, r.length), 0);
+
+// Header label → role. Order matters: "saldo anterior" must be tested before the generic "saldo".
+const HEADER_RULES: { pattern: RegExp, role: ColumnRole }[] = [
+    { pattern: /(%|\bav\b|\bah\b|analise|variac|percent)/, role: 'ignore' },
+    { pattern: /^(d\/c|c\/d|dc|cd|ind|natureza|nat)\.?$/, role: 'indicator' },
+    { pattern: /(cod|classifica|reduzid)/, role: 'code' },
+    { pattern: /(descri|nome|conta|historico|titulo)/, role: 'name' },
+    { pattern: /((exercicio|periodo|ano)\s+anterior|comparativ)/, role: 'previous_balance' },
+    { pattern: /(anterior|inicial|abertura)/, role: 'initial_balance' },
+    { pattern: /deb/, role: 'debit' },
+    { pattern: /cred/, role: 'credit' },
+    { pattern: /(atual|final|saldo|valor|total)/, role: 'final_balance' }
+];
+
+/**
+ * First row (within the top of the sheet) that reads like a header line.
+ */
+export const detectHeaderRow = (rows: (string | number)[][]): number => {
+    const limit = Math.min(rows.length, 30);
+    for (let i = 0; i < limit; i++) {
+        const cells = rows[i].map(normalizeHeader).filter(l => l);
+        // Comparative statements label their value columns with the period ("2024", "12/2024")
+        const periods = cells.filter(l => /^((0?[1-9]|1[0-2])\/)?(19|20)\d{2}$/.test(l)).length;
+        const hits = cells.filter(l => !isAmountCell(l) && HEADER_RULES.some(r => r.role !== 'ignore' && r.pattern.test(l))).length;
+        if (hits + periods >= 2 && hits >= 1) return i;
+    }
+    return -1;
+};
+
+/**
+ * Suggests a role per column from the header labels, then fills the columns without a
+ * usable label from their content (code-like, text, amounts, D/C flags).
+ */
+export const guessColumnRoles = (rows: (string | number)[][], headerRow: number, docType: string): ColumnRole[] => {
+    const width = columnCount(rows);
+    const roles: ColumnRole[] = new Array(width).fill('ignore');
+    const labelled = new Array(width).fill(false);
+    const taken = new Set<ColumnRole>();
+
+    if (headerRow >= 0 && rows[headerRow]) {
+        const indicatorColumns: number[] = [];
+        rows[headerRow].forEach((cell, col) => {
+            const rule = HEADER_RULES.find(r => r.pattern.test(normalizeHeader(cell)));
+            if (!rule) return; // Unknown labels (e.g. "2024") are judged by their content below
+            labelled[col] = true;
+            if (rule.role === 'indicator') { indicatorColumns.push(col); return; }
+            if (rule.role === 'ignore' || taken.has(rule.role)) return;
+            roles[col] = rule.role;
+            taken.add(rule.role);
+        });
+
+        // Balancetes often print a D/C after both balances; the one that matters follows the final balance
+        if (indicatorColumns.length > 0) {
+            const finalCol = roles.indexOf('final_balance');
+            const col = indicatorColumns.find(c => c > finalCol) ?? indicatorColumns[indicatorColumns.length - 1];
+            roles[col] = 'indicator';
+            taken.add('indicator');
+        }
+    }
+
+    const sample = rows.slice(headerRow + 1, headerRow + 1 + SAMPLE_ROWS);
+    const ratio = (col: number, test: (c: string | number | undefined) => boolean) => {
+        const filled = sample.filter(r => !isBlank(r[col]));
+        return filled.length === 0 ? 0 : filled.filter(r => test(r[col])).length / filled.length;
+    };
+
+    const amountColumns: number[] = [];
+    for (let col = 0; col < width; col++) {
+        if (labelled[col]) continue;
+        if (!taken.has('indicator') && ratio(col, c => /^[DC]$/i.test(String(c).trim())) > 0.8) {
+            roles[col] = 'indicator'; taken.add('indicator');
+        } else if (!taken.has('code') && !taken.has('name') && ratio(col, isCodeCell) > 0.6) {
+            roles[col] = 'code'; taken.add('code');
+        } else if (ratio(col, isAmountCell) > 0.6) {
+            amountColumns.push(col);
+        } else if (!taken.has('name') && ratio(col, c => !isAmountCell(c) && String(c).trim().length > 2) > 0.6) {
+            roles[col] = 'name'; taken.add('name');
+        }
+    }
+
+    // Unlabelled amount columns follow the same positional convention as the text parser
+    const hasValueRole = (['initial_balance', 'debit', 'credit', 'final_balance'] as ColumnRole[]).some(r => taken.has(r));
+    if (!hasValueRole && amountColumns.length === 2 && docType !== 'Balancete') {
+        // Two period columns of a Balanço/DRE ("2024 | 2023"): the later period is the current one
+        const header = headerRow >= 0 ? rows[headerRow] : [];
+        const columns = detectComparativeColumns([amountColumns.map(col => String(header[col] ?? '')).join(' | ')]);
+        const [current, previous] = columns?.previous_first ? [amountColumns[1], amountColumns[0]] : amountColumns;
+        roles[current] = 'final_balance';
+        roles[previous] = 'previous_balance';
+    } else if (!hasValueRole && amountColumns.length > 0) {
+        const n = amountColumns.length;
+        const layout: ColumnRole[] = docType === 'DRE' || n === 1 ? ['final_balance']
+            : n === 2 ? ['initial_balance', 'final_balance']
+            : n === 3 ? ['debit', 'credit', 'final_balance']
+            : ['initial_balance', 'debit', 'credit', 'final_balance'];
+        layout.forEach((role, idx) => { roles[amountColumns[idx]] = role; });
+    }
+
+    return roles;
+};
+
+export const guessDocumentType = (sheets: SheetData[]): 'Balancete' | 'Balanço Patrimonial' | 'DRE' => {
+    const text = sheets.map(s => `${s.name} ${s.rows.slice(0, 8).flat().join(' ')}`).map(normalizeHeader).join(' ');
+    if (/balancete/.test(text)) return 'Balancete';
+    if (/(\bdre\b|demonstracao do resultado|resultado do exercicio)/.test(text)) return 'DRE';
+    if (/balanco/.test(text)) return 'Balanço Patrimonial';
+    return 'Balancete';
+};
+
+const cellText = (row: (string | number)[], col: number): string => col < 0 ? '' : String(row[col] ?? '').trim();
+
+/**
+ * Parses the selected sheets with an explicit column mapping. Runs entirely in the
+ * browser: no model call is involved.
+ */
+export const buildAnalysisFromSheets = (sheets: SheetData[], mappings: ColumnMapping[], docType: string): AnalysisResult => {
+    const accounts: ExtractedAccount[] = [];
+    let comparative: ComparativeColumns | undefined;
+    // Title rows above the column header usually state the period
+    const titleLines: string[] = [];
+
+    mappings.forEach(mapping => {
+        const sheet = sheets.find(s => s.name === mapping.sheetName);
+        if (!sheet) return;
+        const colOf = (role: ColumnRole) => mapping.roles.indexOf(role);
+        const valueColumns = (['initial_balance', 'debit', 'credit', 'final_balance'] as ColumnRole[]).map(colOf);
+        const previousCol = colOf('previous_balance');
+        sheet.rows.slice(0, Math.max(0, mapping.headerRow)).forEach(row => titleLines.push(row.map(c => String(c ?? '').trim()).join(' ')));
+        if (previousCol >= 0 && !comparative) {
+            const header = mapping.headerRow >= 0 ? sheet.rows[mapping.headerRow] : [];
+            comparative = {
+                current_label: cellText(header, colOf('final_balance')) || 'Período atual',
+                previous_label: cellText(header, previousCol) || 'Período anterior',
+                previous_first: previousCol < colOf('final_balance')
+            };
+        }
+
+        sheet.rows.slice(mapping.headerRow + 1).forEach(row => {
+            const code = cellText(row, colOf('code'));
+            const name = cellText(row, colOf('name')) || (colOf('name') < 0 ? code : '');
+            if (!name || name.length < 2) return;
+            if (valueColumns.every(col => col < 0 || isBlank(row[col]))) return;
+
+            const amount = (col: number) => col < 0 ? 0 : parseFinancialNumber(row[col]);
+            const [initial, debit, credit, final] = valueColumns.map(amount);
+
+            // The flag may sit in its own column or be glued to the balance ("1.234,56 C")
+            const flag = (cellText(row, colOf('indicator')) || cellText(row, colOf('final_balance')).match(/([DC])$/i)?.[1] || '').toUpperCase();
+            const indicator = flag.startsWith('D') ? 'D' : flag.startsWith('C') ? 'C' : null;
+
+            const previous = previousCol >= 0 ? amount(previousCol) : undefined;
+            const account = buildAccount(code, name, {
+                initial: Math.abs(initial),
+                debit: Math.abs(debit),
+                credit: Math.abs(credit),
+                final: indicator ? Math.abs(final) : final,
+                ...(previous !== undefined ? { previous: indicator ? Math.abs(previous) : previous } : {})
+            }, docType, indicator);
+            account.provenance = {
+                pages: [],
+                origin: 'spreadsheet',
+                raw_line: row.map(c => String(c ?? '').trim()).join(' | '),
+                strategy: 'column_mapping',
+                raw_values: [...valueColumns, previousCol].filter(col => col >= 0).map(col => cellText(row, col)),
+                sheet: sheet.name
+            };
+            accounts.push(account);
+        });
+    });
+
+    const result = finalizeAccounts(accounts, docType);
+    scoreAccounts(result.accounts, docType);
+    if (comparative) result.comparative = comparative;
+    const metadata = extractDocumentMetadata(titleLines);
+    if (!metadata.period && comparative) metadata.period = parsePeriodText(comparative.current_label, 'document') || undefined;
+    if (metadata.period) {
+        result.summary.period_info = metadata.period;
+        result.summary.period = formatPeriod(metadata.period);
+    }
+    if (hasDocumentMetadata(metadata)) result.document_metadata = metadata;
+    result.summary.observations = [
+        `Importado localmente da planilha (aba(s): ${mappings.map(m => m.sheetName).join(', ')}; ${accounts.length} linha(s)).`
+    ];
+    return result;
+};
+
+/**
+ * Previous behaviour, kept for the "send to AI" path of the wizard: the selected sheets
+ * as pipe-separated text.
+ */
+export const sheetsToPipeText = (sheets: SheetData[]): string =>
+    sheets.map(s => s.rows.map(r => r.join('|')).join('\n')).join('\n');
@@ -0,0 +1,159 @@
+import { AnalysisUsage, LlmTask, UsageEntry, UsageTotals } from "../types";
+import type { LlmUsage } from "./llmProvider";
+
+const USAGE_STORAGE_KEY = 'auditAI_usage';
+const BUDGET_STORAGE_KEY = 'auditAI_usage_budget';
+const MAX_USAGE_ENTRIES = 5000;
+// Recent analyses the cost of the next one is estimated from
+const ESTIMATE_SAMPLE = 20;
+
+// US$ per million tokens (input, output), from the providers' published price lists.
+// Models not listed are counted in tokens only.
+export const MODEL_PRICES: Record<string, { input: number, output: number }> = {
+    'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+    'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+    'gemini-2.5-pro': { input: 1.25, output: 10.00 }
+};
+
+export const estimateCost = (model: string, usage: LlmUsage): number => {
+    const price = MODEL_PRICES[model];
+    return price ? (usage.input_tokens * price.input + usage.output_tokens * price.output) / 1_000_000 : 0;
+};
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 });
+
+const addTotals = (into: UsageTotals, add: UsageTotals) => {
+    into.calls += add.calls;
+    into.input_tokens += add.input_tokens;
+    into.output_tokens += add.output_tokens;
+    into.cost_usd += add.cost_usd;
+};
+
+export interface UsageMeter {
+    record: (task: LlmTask, model: string, usage: LlmUsage | undefined) => void;
+    total: () => AnalysisUsage | undefined; // undefined until a call is recorded
+}
+
+/**
+ * Adds up the model calls of one piece of work (an analysis, a chat answer).
+ * Calls whose provider reports no usage still count as calls.
+ */
+export const createUsageMeter = (): UsageMeter => {
+    let usage: AnalysisUsage | null = null;
+    return {
+        record: (task, model, reported) => {
+            const call: UsageTotals = {
+                calls: 1,
+                input_tokens: reported?.input_tokens || 0,
+                output_tokens: reported?.output_tokens || 0,
+                cost_usd: reported ? estimateCost(model, reported) : 0
+            };
+            usage = usage || { ...emptyTotals(), by_task: {} };
+            addTotals(usage, call);
+            usage.by_task[task] = usage.by_task[task] || emptyTotals();
+            addTotals(usage.by_task[task]!, call);
+        },
+        total: () => usage ? { ...usage, by_task: { ...usage.by_task } } : undefined
+    };
+};
+
+export const loadUsageLedger = (): UsageEntry[] => {
+    try {
+        const raw = localStorage.getItem(USAGE_STORAGE_KEY);
+        return raw ? JSON.parse(raw) : [];
+    } catch (e) {
+        console.warn("Failed to read usage ledger", e);
+        return [];
+    }
+};
+
+/**
+ * Appends one entry to the ledger (newest first) and returns the updated ledger.
+ */
+export const appendUsageEntry = (ledger: UsageEntry[], entry: Omit<UsageEntry, 'id' | 'timestamp'>): UsageEntry[] => {
+    const stamp = new Date();
+    const updated = [{ ...entry, id: `${stamp.getTime()}_${ledger.length}`, timestamp: stamp.toISOString() }, ...ledger].slice(0, MAX_USAGE_ENTRIES);
+    try { localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(updated)); }
+    catch (e) { console.warn("Could not save usage ledger", e); }
+    return updated;
+};
+
+// Monthly budget in US$; 0 means no budget
+export const loadMonthlyBudget = (): number => Number(localStorage.getItem(BUDGET_STORAGE_KEY)) || 0;
+
+export const saveMonthlyBudget = (value: number) => {
+    if (value > 0) localStorage.setItem(BUDGET_STORAGE_KEY, String(value));
+    else localStorage.removeItem(BUDGET_STORAGE_KEY);
+};
+
+// "2026-10"; months are taken in local time, as the analyst sees them
+export const monthKey = (timestamp: string): string => {
+    const d = new Date(timestamp);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const formatMonthKey = (key: string): string => {
+    const [year, month] = key.split('-').map(Number);
+    return new Date(year, month - 1, 1).toLocaleDateString('pt-BR', { month: 'short', year: 'numeric' });
+};
+
+export type UsageGrouping = 'collaborator' | 'company' | 'month';
+
+export interface UsageGroup {
+    key: string;
+    analyses: number;
+    totals: UsageTotals;
+}
+
+/**
+ * Totals of the ledger by collaborator, company or month, most expensive first
+ * (months newest first).
+ */
+export const groupUsage = (entries: UsageEntry[], by: UsageGrouping): UsageGroup[] => {
+    const groups = new Map<string, UsageGroup>();
+    entries.forEach(entry => {
+        const key = by === 'month' ? monthKey(entry.timestamp)
+            : by === 'company' ? entry.companyName.trim() || 'Empresa não informada'
+            : entry.collaboratorName.trim() || 'Não informado';
+        const group = groups.get(key) || { key, analyses: 0, totals: emptyTotals() };
+        if (entry.kind === 'analysis') group.analyses++;
+        addTotals(group.totals, entry.usage);
+        groups.set(key, group);
+    });
+    const list = Array.from(groups.values());
+    return by === 'month'
+        ? list.sort((a, b) => b.key.localeCompare(a.key))
+        : list.sort((a, b) => b.totals.cost_usd - a.totals.cost_usd || b.totals.input_tokens - a.totals.input_tokens);
+};
+
+export const monthSpend = (entries: UsageEntry[], month = monthKey(new Date().toISOString())): number =>
+    entries.filter(e => monthKey(e.timestamp) === month).reduce((sum, e) => sum + e.usage.cost_usd, 0);
+
+// Average cost of the latest analyses; 0 while there is no history to go by
+export const estimateAnalysisCost = (entries: UsageEntry[]): number => {
+    const recent = entries.filter(e => e.kind === 'analysis').slice(0, ESTIMATE_SAMPLE);
+    return recent.length > 0 ? recent.reduce((sum, e) => sum + e.usage.cost_usd, 0) / recent.length : 0;
+};
+
+export const formatUsd = (value: number): string =>
+    `US$ ${value.toLocaleString('pt-BR', { minimumFractionDigits: 2, maximumFractionDigits: value > 0 && value < 1 ? 4 : 2 })}`;
+
+export const formatTokens = (value: number): string =>
+    value >= 1_000_000 ? `${(value / 1_000_000).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} mi`
+        : value >= 1000 ? `${(value / 1000).toLocaleString('pt-BR', { maximumFractionDigits: 1 })} mil`
+        : String(value);
+
+/**
+ * Message to confirm before starting `analyses` new analyses when they would take
+ * this month's spending over the budget; null when within budget or no budget is set.
+ */
+export const budgetWarning = (entries: UsageEntry[], budget: number, analyses = 1): string | null => {
+    if (budget <= 0) return null;
+    const spent = monthSpend(entries);
+    const estimate = estimateAnalysisCost(entries) * analyses;
+    if (spent + estimate <= budget) return null;
+    return `O orçamento mensal de IA (${formatUsd(budget)}) ${spent > budget ? 'já foi ultrapassado' : 'será ultrapassado'}: `
+        + `${formatUsd(spent)} gastos neste mês${estimate > 0 ? ` e cerca de ${formatUsd(estimate)} previstos para ${analyses > 1 ? `as ${analyses} análises` : 'esta análise'}` : ''}. Continuar mesmo assim?`;
+};
@@ -0,0 +1,49 @@
+import { throwIfCancelled } from "./cancellationService";
+
+/**
+ * Runs `worker` over `items` with at most `concurrency` of them in flight. A
+ * worker that throws does not stop the others; it is up to the worker to record
+ * its own failure. Aborting the signal stops handing out new items.
+ */
+export const runPool = async <T>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T) => Promise<void>,
+    signal?: AbortSignal
+): Promise<void> => {
+    let next = 0;
+    const runner = async () => {
+        while (next < items.length && !signal?.aborted) {
+            const item = items[next++];
+            try { await worker(item); }
+            catch (e) { console.warn("Pool worker failed:", e); }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runner));
+    throwIfCancelled(signal);
+};
+
+/**
+ * Time left for a pool, from the average duration of the items finished so far:
+ * the work still queued plus what the running items probably still need, spread
+ * over the workers. Null until one item has finished.
+ */
+export const estimateRemainingMs = (
+    finishedDurations: number[],
+    pending: number,
+    runningElapsed: number[],
+    concurrency: number
+): number | null => {
+    if (finishedDurations.length === 0) return null;
+    const average = finishedDurations.reduce((sum, d) => sum + d, 0) / finishedDurations.length;
+    // A running item that already took longer than average is assumed close to done, not finished
+    const running = runningElapsed.reduce((sum, elapsed) => sum + Math.max(average - elapsed, average * 0.1), 0);
+    return (pending * average + running) / Math.max(1, Math.min(concurrency, pending + runningElapsed.length));
+};
+
+export const formatDuration = (ms: number): string => {
+    const seconds = Math.round(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.round(seconds / 60);
+    return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, '0')}`;
+};
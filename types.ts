@@ -12,6 +12,7 @@ export interface ExtractedAccount {
   debit_value: number;
   credit_value: number;
   final_balance: number; // SDO.ATUAL
+  previous_balance?: number; // Comparative column of a Balanço/DRE (same sign convention as final_balance)
   total_value: number; // Usually matches final_balance or max(debit, credit) for fallback
   type: 'Debit' | 'Credit' | 'Unknown';
   possible_inversion: boolean;
@@ -21,6 +22,45 @@ export interface ExtractedAccount {
   name_suggestion?: string;
   posting_suggestion?: string;
   audit_notes?: string;
+  referential_code?: string | null; // Plano referencial (SPED I051), when known
+  provenance?: AccountProvenance; // Where the row was read from (absent for SPED imports)
+  confidence?: number; // 0–1, scored after parsing; absent for SPED imports
+  confidence_signals?: ConfidenceSignal[];
+  review_status?: 'accepted' | 'edited'; // Set when a doubtful row went through the review queue
+  edit_status?: 'edited' | 'added'; // Set on rows changed or created in the edit mode
+}
+
+// Reasons a parsed row is doubted (see confidenceService)
+export type ConfidenceSignal = 'ocr_substitution' | 'column_count' | 'missing_code' | 'balance_check';
+
+// One account row as the model returns it under the extraction schema; amounts stay as printed
+export interface ExtractedRow {
+  code: string;
+  name: string;
+  initial_balance: string; // Prior period column on a comparative Balanço/DRE
+  debit: string;
+  credit: string;
+  final_balance: string;
+  indicator: 'D' | 'C' | '';
+}
+
+// One extracted text line and where it came from, carried through to the parser
+export interface SourceLine {
+  text: string;
+  pages: number[]; // 1-based; several when the model read a batch of pages, empty when unknown
+  origin: 'text_layer' | 'ai' | 'spreadsheet';
+  row?: ExtractedRow; // Set on model rows: the parser takes the columns as given instead of splitting `text`
+}
+
+export type ParseStrategy = 'pipe' | 'internal_code' | 'reverse_tokens' | 'layout_profile' | 'column_mapping' | 'json_schema';
+
+export interface AccountProvenance {
+  pages: number[];
+  origin: SourceLine['origin'];
+  raw_line: string; // The line exactly as extracted, before any cleanup
+  strategy: ParseStrategy;
+  raw_values: string[]; // Amount cells as printed, in source order
+  sheet?: string; // Spreadsheet imports only
 }
 
 export interface SpellCheck {
@@ -32,6 +72,7 @@ export interface SpellCheck {
 export interface AnalysisSummary {
   document_type: 'Balanço Patrimonial' | 'Balancete' | 'DRE' | 'Outro';
   period: string; // New field for extracted date range
+  period_info?: PeriodInfo; // Typed period used to order and align documents; `period` is its display text
   total_debits: number;
   total_credits: number;
   is_balanced: boolean;
@@ -41,11 +82,59 @@ export interface AnalysisSummary {
   specific_result_label?: string; // The name of the account found (e.g. "Lucro Líquido")
 }
 
+// Which pages were read from the PDF text layer and which had to go to the model
+export interface ExtractionReport {
+  method: 'local' | 'ai' | 'mixed';
+  total_pages: number;
+  local_pages: number[]; // 1-based
+  ai_pages: number[];
+  failed_pages?: number[]; // AI pages still missing after every retry
+  resumed_pages?: number[]; // AI pages taken from a checkpoint instead of a new call
+  withheld_pages?: number[]; // Scanned pages kept local because the company does not allow images to be sent
+}
+
+// Reported while a document is being analysed (drives the progress overlay)
+export interface ExtractionProgress {
+  stage: 'reading' | 'extracting' | 'normalizing' | 'narrative';
+  total_pages: number;
+  done_pages: number;
+  current_pages?: number[]; // Pages of the batch being sent right now
+  failed_pages: number[];
+}
+
+// Batches already extracted by the model, kept so an interrupted analysis can resume
+export interface ExtractionCheckpoint {
+  fingerprint: string;
+  total_pages: number;
+  batches: { pages: number[], lines: string[], rows?: ExtractedRow[] }[]; // lines: header lines only when rows are set
+  updated_at: string;
+}
+
 // The complete structured response we expect from Gemini
 export interface AnalysisResult {
   summary: AnalysisSummary;
   accounts: ExtractedAccount[];
   spell_check: SpellCheck[];
+  extraction_report?: ExtractionReport;
+  layout_profile?: string; // Name of the ERP layout profile used to read the lines
+  comparative?: ComparativeColumns; // Set when the statement carried a prior-period column
+  document_metadata?: DocumentMetadata;
+  usage?: AnalysisUsage; // Model tokens spent producing this result
+  provenance?: AnalysisProvenance; // Prompt, model and parser versions behind it (absent on results saved before them)
+}
+
+// Identification printed in the document header
+export interface DocumentMetadata {
+  company_name?: string;
+  cnpj?: string; // Digits only
+  period?: PeriodInfo;
+}
+
+// Column headers of a two-period statement ("31/12/2024" and "31/12/2023")
+export interface ComparativeColumns {
+  current_label: string;
+  previous_label: string;
+  previous_first: boolean; // True when the prior period is printed before the current one
 }
 
 export interface HistoryItem {
@@ -55,6 +144,128 @@ export interface HistoryItem {
   fileName: string;
   summary: AnalysisSummary;
   fullResult?: AnalysisResult; // Optional to allow optimizing localStorage usage
+  edits?: AccountEditLayer; // Manual corrections; fullResult / the cache keep the original extraction
+  contentHash?: string; // SHA-256 of the uploaded file, used to spot re-uploads
+  parserVersion?: number; // PARSER_VERSION the result was produced with
+  usage?: AnalysisUsage;
+}
+
+// --- USAGE TYPES ---
+export type LlmTask = 'extraction' | 'narrative' | 'insight' | 'chat';
+
+export interface UsageTotals {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number; // Estimated from each model's list price (see usageService)
+}
+
+export interface AnalysisUsage extends UsageTotals {
+  by_task: Partial<Record<LlmTask, UsageTotals>>;
+}
+
+// One metered piece of work in the usage ledger, which the monthly report and budget read
+export interface UsageEntry {
+  id: string;
+  timestamp: string;
+  kind: 'analysis' | 'chat' | 'comparison' | 'experiment';
+  collaboratorName: string;
+  companyName: string;
+  fileName?: string;
+  usage: AnalysisUsage;
+}
+
+// --- PROMPT TYPES ---
+// Prompts kept in the versioned registry (services/promptRegistry.ts)
+export type PromptKind = 'extraction' | 'narrative';
+
+// What produced a result, so runs of different prompts, models or parsers can be told apart
+export interface AnalysisProvenance {
+  prompt_versions: Partial<Record<PromptKind, string>>; // Only the prompts sent: a text-layer PDF or SPED file skips extraction
+  models: Partial<Record<LlmTask, string>>; // As reported by the provider
+  parser_version: number;
+}
+
+// One prompt run over a saved analysis during an experiment
+export interface PromptRunMetrics {
+  error?: string;
+  accounts?: number;
+  matched_accounts?: number; // Extraction: rows with the same code and final balance as the saved (corrected) analysis
+  is_balanced?: boolean;
+  observations?: number; // Narrative: highlights, spelling fixes and per-account suggestions returned
+  spell_check?: number;
+  account_audits?: number;
+  period_matches?: boolean; // Narrative: the period read agrees with the saved one (undefined when either is missing)
+  usage?: AnalysisUsage;
+}
+
+export interface PromptExperimentRow {
+  history_id: string;
+  file_name: string;
+  company_name: string;
+  reference_accounts: number; // Accounts of the saved analysis the runs are measured against
+  baseline: PromptRunMetrics;
+  candidate: PromptRunMetrics;
+}
+
+// A/B run of a candidate prompt against the default on a sample of the history
+export interface PromptExperiment {
+  id: string;
+  kind: PromptKind;
+  baseline_version: string;
+  candidate_version: string;
+  ran_at: string;
+  rows: PromptExperimentRow[];
+}
+
+// --- PRIVACY TYPES ---
+// Per-company limits on what is sent to the external model (LGPD commitments to the client)
+export interface PrivacySettings {
+  allow_images: boolean; // Scanned pages and image files cannot be redacted; false keeps them local
+  masked_names: string[]; // Partners and other people to mask besides what the patterns catch
+}
+
+// --- PERIOD TYPES ---
+export type PeriodKind = 'monthly' | 'quarterly' | 'yearly' | 'year_to_date';
+
+// Dates are ISO (yyyy-mm-dd). A Balanço "em 31/12/2024" is stored as the year up to that date.
+export interface PeriodInfo {
+  start: string;
+  end: string;
+  kind: PeriodKind;
+  source: 'document' | 'ai' | 'user'; // Read from the header, guessed by the model, or set by hand
+}
+
+// --- BATCH TYPES ---
+export type BatchItemStatus = 'queued' | 'processing' | 'review' | 'conflict' | 'done' | 'error' | 'cancelled';
+
+// One file of the batch queue. Company, CNPJ and period are prefilled from its header and editable until it runs.
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  base64: string;
+  mimeType: string;
+  companyName: string;
+  cnpj: string;
+  period?: PeriodInfo;
+  status: BatchItemStatus;
+  error?: string;
+  result?: AnalysisResult; // Held while the item waits for the review queue or a CNPJ decision
+  historyId?: string;
+  contentHash?: string;
+  reused?: boolean; // The file was already in history, so its earlier analysis was kept
+}
+
+// --- EDIT LAYER TYPES ---
+export type AccountEditFields = Partial<Pick<ExtractedAccount,
+  'account_code' | 'account_name' | 'initial_balance' | 'debit_value' | 'credit_value' | 'final_balance' | 'type' | 'is_synthetic'>>;
+
+// Rows are keyed "o:<index>" (original extraction) or "a:<index>" (added by hand)
+export interface AccountEditLayer {
+  updated: { [rowKey: string]: AccountEditFields };
+  deleted: string[];
+  added: ExtractedAccount[];
+  updated_at: string;
 }
 
 // --- COMPARISON TYPES ---
@@ -81,6 +292,7 @@ export interface ConsolidatedCompany {
   id: string;
   name: string;
   cnpj: string;
+  period?: string; // Display label of the document's period
 }
 
 export interface ConsolidatedRow {
@@ -98,3 +310,122 @@ export interface ConsolidationResult {
   generatedAt: string;
   groupName: string; // Usually derived from first company or generic
 }
+
+// --- SPED TYPES ---
+export interface EcdAccount {
+  code: string;
+  parentCode: string | null;
+  name: string;
+  nature: string; // COD_NAT: 01 Ativo, 02 Passivo, 03 PL, 04 Resultado...
+  isSynthetic: boolean;
+  level: number;
+  referentialCode: string | null;
+}
+
+export interface EcdBalance {
+  accountCode: string;
+  initial: number; // Signed: debit positive, credit negative
+  debit: number;
+  credit: number;
+  final: number;
+}
+
+export interface EcdStatementLine {
+  code: string;
+  name: string;
+  level: number;
+  parentCode: string | null;
+  isTotal: boolean;
+  initial: number; // Signed: debit positive, credit negative
+  final: number;
+}
+
+export interface EcdFile {
+  companyName: string;
+  cnpj: string;
+  startDate: string; // DDMMAAAA
+  endDate: string;
+  accounts: EcdAccount[];
+  periods: { startDate: string; endDate: string; balances: EcdBalance[] }[];
+  preClosingBalances: { accountCode: string; value: number }[]; // I355, signed
+  balanceSheet: EcdStatementLine[]; // J100
+  incomeStatement: EcdStatementLine[]; // J150
+}
+
+export interface EcfReferentialLine {
+  code: string; // Código do plano referencial
+  description: string;
+  isSynthetic: boolean;
+  level: number;
+  nature: string;
+  parentCode: string | null;
+  initial: number; // Signed: debit positive, credit negative (L100 only)
+  debit: number;
+  credit: number;
+  final: number; // Signed: debit positive, credit negative
+}
+
+export interface EcfLalurEntry {
+  code: string;
+  description: string;
+  entryType: string; // TIPO_LANCAMENTO: R, A (adição), E (exclusão), P (compensação), C...
+  value: number;
+  history: string;
+}
+
+export interface EcfPeriod {
+  periodCode: string; // PER_APUR: A00, T01..T04, A01..A12
+  startDate: string; // DDMMAAAA
+  endDate: string;
+  balanceSheet: EcfReferentialLine[]; // L100
+  incomeStatement: EcfReferentialLine[]; // L300
+  lalurIrpj: EcfLalurEntry[]; // M300
+  lalurCsll: EcfLalurEntry[]; // M350
+}
+
+export interface EcfFile {
+  companyName: string;
+  cnpj: string;
+  startDate: string; // DDMMAAAA
+  endDate: string;
+  periods: EcfPeriod[];
+}
+
+export interface EcfReconciliationRow {
+  statement: 'L100' | 'L300';
+  referentialCode: string;
+  description: string;
+  ecfValue: number;
+  ledgerValue: number;
+  difference: number;
+  matchedAccounts: string[];
+  matchMethod: 'referential' | 'name' | 'none';
+}
+
+// --- SPREADSHEET IMPORT TYPES ---
+export type ColumnRole = 'ignore' | 'code' | 'name' | 'initial_balance' | 'debit' | 'credit' | 'final_balance' | 'previous_balance' | 'indicator';
+
+export interface SheetData {
+  name: string;
+  rows: (string | number)[][];
+}
+
+// How one sheet is read: rows up to headerRow are skipped and columns are taken by position
+export interface ColumnMapping {
+  sheetName: string;
+  headerRow: number; // 0-based index of the last header row, -1 when the sheet has none
+  roles: ColumnRole[];
+}
+
+// --- LAYOUT PROFILE TYPES ---
+// How a known ERP prints its balancete, so lines can be read by position instead of guessed
+export interface LayoutProfile {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  detect: string[]; // Regex sources; every one must match the first lines of the document
+  columns: ColumnRole[]; // Field order of a full row
+  codeFormat: 'classification' | 'internal_in_parentheses';
+  signConvention: 'indicator' | 'signed' | 'heuristic';
+  skip: string[]; // Regex sources for lines that never hold an account (page headers, footers)
+}
@@ -2,20 +2,32 @@ import path from 'path';
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   server: {
     port: 3000,
     host: '0.0.0.0',
+    // Em desenvolvimento, as chamadas à IA vão para o servidor local (npm run dev:server)
+    proxy: {
+      '/api': `http://localhost:${process.env.API_PORT || 8080}`,
+    },
   },
   plugins: [react()],
-  define: {
-    // Lê direto do process.env do Node (funciona no Docker e Cloud Build)
-    'process.env.API_KEY': JSON.stringify(process.env.API_KEY || process.env.GEMINI_API_KEY || ''),
-    'process.env.GEMINI_API_KEY': JSON.stringify(process.env.API_KEY || process.env.GEMINI_API_KEY || ''),
+  build: {
+    // O pdfjs usa top-level await
+    target: 'es2022',
+    // Os pacotes Node (servidor e CLI) podem ser executados diretamente
+    rollupOptions: isSsrBuild ? { output: { banner: '#!/usr/bin/env node' } } : {},
+  },
+  // Só o que não é segredo vai para o navegador: a chave fica no servidor (server/index.ts),
+  // que lê o process.env em tempo de execução e por isso não recebe estas substituições
+  define: isSsrBuild ? {} : {
+    'process.env.LLM_PROXY_URL': JSON.stringify(process.env.LLM_PROXY_URL || ''),
+    'process.env.LLM_MODELS': JSON.stringify(process.env.LLM_MODELS || ''),
+    'process.env.LLM_REPLAY': JSON.stringify(process.env.LLM_REPLAY || ''),
   },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, '.'),
     }
   }
-});
+}));